@@ -195,7 +195,7 @@ export async function hasDotnetSdkGreaterThanOrEqualTo(minimumMajorVersion: numb
     return false
   }
 
-  const result = await simpleSpawnAsync('dotnet', ['--list-sdks'], { throwOnNonZero: false })
+  const result = await simpleSpawnAsync('dotnet', ['--list-sdks'], { throwOnNonZero: false, dryRun: false })
   if (result.code !== 0) {
     trace(result)
     throw new Error('Command "dotnet --list-sdks" returned a non-zero result - enable trace for error details')
@@ -222,7 +222,7 @@ export async function winHasElevatedPerms(): Promise<boolean> {
     throw new Error(`This method can only check for elevated permissions on Windows`)
   }
   try {
-    await spawnAsync('net', ['session'], { throwOnNonZero: true, stdio: 'ignore' })
+    await spawnAsync('net', ['session'], { throwOnNonZero: true, stdio: 'ignore', dryRun: false })
     return true
   } catch {
     return false
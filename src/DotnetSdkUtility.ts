@@ -15,6 +15,7 @@ export class DotnetSdkUtility {
     this.simpleSpawnAsyncFn = dependencies?.simpleSpawnAsyncFn ?? simpleSpawnAsync
   }
 
+  /** Get the installed dotnet SDK versions using `dotnet --list-sdks`, sorted from lowest to highest. Returns an empty array if dotnet isn't installed. */
   getInstalledSdkVersions = async (): Promise<DotnetVersion[]> => {
     if (!(await this.whichFn('dotnet')).location) {
       return []
@@ -24,7 +25,7 @@ export class DotnetSdkUtility {
     const arg = '--list-sdks'
     const fullCommand = `${command} ${arg}`
 
-    const result = await this.simpleSpawnAsyncFn(command, [arg], { throwOnNonZero: false })
+    const result = await this.simpleSpawnAsyncFn(command, [arg], { throwOnNonZero: false, dryRun: false })
 
     if (result.code !== 0) {
       throw new Error(`Command "${fullCommand}" returned a non-zero result: ${JSON.stringify(result)}`)
@@ -47,7 +48,13 @@ export class DotnetSdkUtility {
       versions.push(versionObj)
     }
 
-    return versions
+    return versions.sort((a, b) => a.compareTo(b))
+  }
+
+  /** Get the highest installed dotnet SDK version, optionally limited to a major version. Prerelease versions are only returned if `includePrerelease` is `true`. */
+  getLatestInstalledSdkVersion = async (majorVersion?: number, includePrerelease: boolean = false): Promise<DotnetVersion | undefined> => {
+    const installedVersions = await this.getInstalledSdkVersions()
+    return installedVersions.filter(v => (majorVersion === undefined || v.major === majorVersion) && (includePrerelease || !v.isPrerelease)).pop()
   }
 
   isSdkMajorVersionInstalled = async (majorVersion: number): Promise<boolean> => {
@@ -57,8 +64,7 @@ export class DotnetSdkUtility {
 
   isSdkMajorVersionOrGreaterInstalled = async (majorVersion: number): Promise<boolean> => {
     const installedVersions = await this.getInstalledSdkVersions()
-    const sortedVersions = [...installedVersions].sort((a, b) => b.major - a.major)
-    return sortedVersions.length > 0 && sortedVersions[0].major >= majorVersion
+    return installedVersions.length > 0 && installedVersions[installedVersions.length - 1].major >= majorVersion
   }
 }
 
@@ -67,3 +73,4 @@ const defaultDotnetSdkUtility = new DotnetSdkUtility()
 export const getInstalledSdkVersions = defaultDotnetSdkUtility.getInstalledSdkVersions
 export const isSdkMajorVersionInstalled = defaultDotnetSdkUtility.isSdkMajorVersionInstalled
 export const isSdkMajorVersionOrGreaterInstalled = defaultDotnetSdkUtility.isSdkMajorVersionOrGreaterInstalled
+export const getLatestInstalledSdkVersion = defaultDotnetSdkUtility.getLatestInstalledSdkVersion
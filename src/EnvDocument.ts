@@ -0,0 +1,187 @@
+import fs from 'node:fs'
+import { formatEnvValue, parseEnvEntries } from './envParser.js'
+import { requireString, requireValidPath } from './generalUtils.js'
+
+/** Comment line written above keys that {@link EnvDocument} appends to a document that didn't have them yet. */
+export const defaultAddedKeysHeader = '# ---- Added automatically from template ----'
+
+export interface EnvDocumentOptions {
+  /** Comment line written once above keys appended to the document. Defaults to {@link defaultAddedKeysHeader}. */
+  addedKeysHeader: string
+}
+
+interface TextSegment {
+  type: 'text'
+  text: string
+}
+
+// The text of an entry's line(s) split around the value so the value can be replaced without touching anything else
+interface EntrySegment {
+  type: 'entry'
+  key: string
+  /** Everything from the start of the entry up to the value, for example `export KEY = ` */
+  prefix: string
+  rawValue: string
+  /** Everything after the value up to the end of the line, for example ` # comment` */
+  suffix: string
+}
+
+type Segment = TextSegment | EntrySegment
+
+/**
+ * An editable model of a .env file that preserves comments, blank lines, ordering, quoting and line endings. Values that are set for keys
+ * that already exist are replaced in place. Keys that don't exist yet are appended at the end of the document below a marker comment
+ * (see {@link EnvDocumentOptions.addedKeysHeader}) so it's clear which entries were added automatically.
+ *
+ * Used by {@link copyNewEnvValues}, {@link overwriteEnvFile} and {@link copyModifiedEnv}.
+ *
+ * @example
+ * ```
+ * const doc = EnvDocument.load('.env')
+ * doc.set('DB_PORT', '5433')
+ * doc.save('.env')
+ * ```
+ */
+export class EnvDocument {
+  private segments: Segment[]
+  private eol: string
+  private options: EnvDocumentOptions
+
+  private constructor(segments: Segment[], eol: string, options: EnvDocumentOptions) {
+    this.segments = segments
+    this.eol = eol
+    this.options = options
+  }
+
+  /**
+   * Parse the contents of a .env file. See {@link parseEnvEntries} for supported syntax.
+   * @param contents The contents of a .env file
+   * @param options See {@link EnvDocumentOptions}
+   */
+  static parse(contents: string, options?: Partial<EnvDocumentOptions>): EnvDocument {
+    const mergedOptions: EnvDocumentOptions = { addedKeysHeader: defaultAddedKeysHeader, ...options }
+    const segments: Segment[] = []
+    let pos = 0
+    for (const entry of parseEnvEntries(contents, { interpolate: false })) {
+      if (entry.startIndex > pos) {
+        segments.push({ type: 'text', text: contents.substring(pos, entry.startIndex) })
+      }
+      const newlineIndex = contents.indexOf('\n', entry.valueEndIndex)
+      const lineEndIndex = newlineIndex === -1 ? contents.length : newlineIndex
+      segments.push({
+        type: 'entry',
+        key: entry.key,
+        prefix: contents.substring(entry.startIndex, entry.valueStartIndex),
+        rawValue: entry.rawValue,
+        suffix: contents.substring(entry.valueEndIndex, lineEndIndex)
+      })
+      pos = lineEndIndex
+    }
+    if (pos < contents.length) {
+      segments.push({ type: 'text', text: contents.substring(pos) })
+    }
+    return new EnvDocument(segments, contents.includes('\r\n') ? '\r\n' : '\n', mergedOptions)
+  }
+
+  /**
+   * Read and parse a .env file. See {@link parse}.
+   * @param envPath The path to the .env file
+   * @param options See {@link EnvDocumentOptions}
+   */
+  static load(envPath: string, options?: Partial<EnvDocumentOptions>): EnvDocument {
+    requireValidPath('envPath', envPath)
+    return EnvDocument.parse(fs.readFileSync(envPath, 'utf-8'), options)
+  }
+
+  /** The keys in the order they first appear. */
+  keys(): string[] {
+    return [...new Set(this.getEntries().map(entry => entry.key))]
+  }
+
+  has(key: string): boolean {
+    return this.getEntries().some(entry => entry.key === key)
+  }
+
+  /**
+   * Get the parsed value for a key (quotes removed and escapes processed). `${VAR}` references are not interpolated.
+   * If the key appears more than once, the last value is returned.
+   */
+  get(key: string): string | undefined {
+    const rawValue = this.getRawValue(key)
+    return rawValue === undefined ? undefined : parseEnvEntries(`KEY=${rawValue}`, { interpolate: false })[0].value
+  }
+
+  /** Get the value for a key exactly as it's written in the document, including any quotes. */
+  getRawValue(key: string): string | undefined {
+    return this.getLastEntry(key)?.rawValue
+  }
+
+  /**
+   * Set the value for a key. The value is quoted as needed (see {@link formatEnvValue}). If the key exists, the value is replaced
+   * in place (the last occurrence if there is more than one). Otherwise it's appended below the added keys header.
+   */
+  set(key: string, value: string) {
+    this.setRawValue(key, formatEnvValue(value))
+  }
+
+  /**
+   * Same as {@link set} except the value is written exactly as passed. Use this to copy values between documents without
+   * changing their quoting, escapes or `${VAR}` references.
+   */
+  setRawValue(key: string, rawValue: string) {
+    requireString('key', key)
+    const existingEntry = this.getLastEntry(key)
+    if (existingEntry) {
+      existingEntry.rawValue = rawValue
+      return
+    }
+    this.append(key, rawValue)
+  }
+
+  /** Remove all occurrences of a key along with their line breaks. */
+  remove(key: string) {
+    for (let i = this.segments.length - 1; i >= 0; i--) {
+      const segment = this.segments[i]
+      if (segment.type !== 'entry' || segment.key !== key) {
+        continue
+      }
+      const next = this.segments[i + 1]
+      if (next?.type === 'text' && next.text.startsWith('\n')) {
+        next.text = next.text.substring(1)
+      }
+      this.segments.splice(i, 1)
+    }
+  }
+
+  toString(): string {
+    return this.segments.map(segment => segment.type === 'text' ? segment.text : `${segment.prefix}${segment.rawValue}${segment.suffix}`).join('')
+  }
+
+  save(envPath: string) {
+    requireString('envPath', envPath)
+    fs.writeFileSync(envPath, this.toString())
+  }
+
+  private getEntries(): EntrySegment[] {
+    return this.segments.filter((segment): segment is EntrySegment => segment.type === 'entry')
+  }
+
+  private getLastEntry(key: string): EntrySegment | undefined {
+    return this.getEntries().filter(entry => entry.key === key).pop()
+  }
+
+  private append(key: string, rawValue: string) {
+    const contents = this.toString()
+    const eol = this.eol
+    let textBefore = contents.length > 0 && !contents.endsWith('\n') ? eol : ''
+    if (!contents.split(/\r?\n/).includes(this.options.addedKeysHeader)) {
+      const needsBlankLine = contents.trim().length > 0 && !/\r?\n\r?\n$/.test(contents + textBefore)
+      textBefore += `${needsBlankLine ? eol : ''}${this.options.addedKeysHeader}${eol}`
+    }
+    if (textBefore) {
+      this.segments.push({ type: 'text', text: textBefore })
+    }
+    this.segments.push({ type: 'entry', key, prefix: `${key}=`, rawValue, suffix: '' })
+    this.segments.push({ type: 'text', text: eol })
+  }
+}
@@ -1,6 +1,7 @@
 import fs from 'node:fs'
 import fsp from 'node:fs/promises'
-import { mkdirp, spawnAsync } from './generalUtils.js'
+import { DryRunOptions, mkdirp, spawnAsync } from './generalUtils.js'
+import { isDryRun, logDryRunSpawn } from './generalUtilsInternal.js'
 import { join } from 'node:path'
 
 export interface GitUtilityDependencies {
@@ -29,7 +30,7 @@ class GitUtility {
     return true
   }
 
-  async cloneProject(repoUrl: string, localDestPath: string, branchName: string = 'main', deleteGitFolder: boolean = true) {
+  async cloneProject(repoUrl: string, localDestPath: string, branchName: string = 'main', deleteGitFolder: boolean = true, options?: DryRunOptions) {
     if (fs.existsSync(localDestPath)) {
       throw new Error(`Cannot clone project - destination path already exists: ${localDestPath}`)
     }
@@ -37,10 +38,16 @@ class GitUtility {
       throw new Error(`Cannot clone project - invalid branch name: ${branchName}`)
     }
 
+    const cloneArgs = `clone -b ${branchName} --single-branch --depth 1 ${repoUrl} ${localDestPath}`.split(' ')
+
+    if (isDryRun(options?.dryRun)) {
+      logDryRunSpawn('git', cloneArgs)
+      return
+    }
+
     await mkdirp(localDestPath)
 
-    const cloneArgs = `clone -b ${branchName} --single-branch --depth 1 ${repoUrl} ${localDestPath}`.split(' ')
-    const result = await this.spawnAsyncFn('git', cloneArgs)
+    const result = await this.spawnAsyncFn('git', cloneArgs, { dryRun: false })
     if (result.code !== 0) {
       throw new Error(`Failed to clone project '${result.stderr}' to '${localDestPath}'`)
     }
@@ -0,0 +1,181 @@
+import fs from 'node:fs'
+import path from 'node:path'
+import { format } from 'node:util'
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+
+const logLevelRanks: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3 }
+
+/**
+ * Pluggable logger used by all node-cli-utils functions. Set `config.logger` to replace the default {@link ConsoleLogger}.
+ *
+ * The `log` and `logIf` functions in generalUtils write at the `info` level and `trace` writes at the `debug` level (only when
+ * `config.traceEnabled` is true).
+ */
+export interface Logger {
+  debug(data?: unknown, ...moreData: unknown[]): void
+  info(data?: unknown, ...moreData: unknown[]): void
+  warn(data?: unknown, ...moreData: unknown[]): void
+  error(data?: unknown, ...moreData: unknown[]): void
+}
+
+export interface LoggerOptions {
+  /** Entries below this level are ignored. Defaults to `debug`. */
+  minLevel: LogLevel
+  /** Include a timestamp with each entry. Defaults to `false` for {@link ConsoleLogger} and is always included by {@link JsonLinesFileLogger}. */
+  timestamps: boolean
+  /** Optional task name to prefix each entry with, for example `build` or `dbMigrate`. */
+  prefix?: string
+}
+
+/** A single entry written by {@link JsonLinesFileLogger}. */
+export interface LogEntry {
+  timestamp: string
+  level: LogLevel
+  prefix?: string
+  message: string
+}
+
+const defaultLoggerOptions: LoggerOptions = {
+  minLevel: 'debug',
+  timestamps: false
+}
+
+function isLevelEnabled(level: LogLevel, minLevel: LogLevel) {
+  return logLevelRanks[level] >= logLevelRanks[minLevel]
+}
+
+/**
+ * The default {@link Logger}. Writes to the console the same way the library always has - `info` and `debug` entries with `console.log`,
+ * `warn` entries with `console.warn` and `error` entries with `console.error`. The `debug` entries are prefixed with `[TRACE]`.
+ */
+export class ConsoleLogger implements Logger {
+  private options: LoggerOptions
+
+  constructor(options?: Partial<LoggerOptions>) {
+    this.options = { ...defaultLoggerOptions, ...options }
+  }
+
+  debug(data?: unknown, ...moreData: unknown[]) {
+    this.write('debug', data, moreData)
+  }
+
+  info(data?: unknown, ...moreData: unknown[]) {
+    this.write('info', data, moreData)
+  }
+
+  warn(data?: unknown, ...moreData: unknown[]) {
+    this.write('warn', data, moreData)
+  }
+
+  error(data?: unknown, ...moreData: unknown[]) {
+    this.write('error', data, moreData)
+  }
+
+  private write(level: LogLevel, data: unknown, moreData: unknown[]) {
+    if (!isLevelEnabled(level, this.options.minLevel)) {
+      return
+    }
+    const prefixParts: string[] = []
+    if (this.options.timestamps) {
+      prefixParts.push(`[${new Date().toISOString()}]`)
+    }
+    if (level === 'debug') {
+      prefixParts.push('[TRACE]')
+    }
+    if (this.options.prefix) {
+      prefixParts.push(`[${this.options.prefix}]`)
+    }
+    const consoleFunc = level === 'error' ? console.error : level === 'warn' ? console.warn : console.log
+    if (prefixParts.length > 0) {
+      consoleFunc(prefixParts.join(' '), data, ...moreData)
+    } else {
+      consoleFunc(data, ...moreData)
+    }
+  }
+}
+
+/**
+ * {@link Logger} that appends one JSON object per line (see {@link LogEntry}) to a file, so that CI can capture structured logs instead of
+ * scraping console output. Color codes are stripped from messages. The parent directory of the file is created if it doesn't exist.
+ *
+ * Use {@link MultiLogger} to write to both the console and a file.
+ */
+export class JsonLinesFileLogger implements Logger {
+  private filePath: string
+  private options: LoggerOptions
+  private directoryEnsured = false
+
+  constructor(filePath: string, options?: Partial<LoggerOptions>) {
+    if (!filePath) {
+      throw new Error('filePath is required')
+    }
+    this.filePath = filePath
+    this.options = { ...defaultLoggerOptions, ...options }
+  }
+
+  debug(data?: unknown, ...moreData: unknown[]) {
+    this.write('debug', data, moreData)
+  }
+
+  info(data?: unknown, ...moreData: unknown[]) {
+    this.write('info', data, moreData)
+  }
+
+  warn(data?: unknown, ...moreData: unknown[]) {
+    this.write('warn', data, moreData)
+  }
+
+  error(data?: unknown, ...moreData: unknown[]) {
+    this.write('error', data, moreData)
+  }
+
+  private write(level: LogLevel, data: unknown, moreData: unknown[]) {
+    if (!isLevelEnabled(level, this.options.minLevel)) {
+      return
+    }
+    const entry: LogEntry = {
+      timestamp: new Date().toISOString(),
+      level,
+      prefix: this.options.prefix,
+      message: stripColorCodes(format(data, ...moreData))
+    }
+    if (!this.directoryEnsured) {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true })
+      this.directoryEnsured = true
+    }
+    fs.appendFileSync(this.filePath, JSON.stringify(entry) + '\n')
+  }
+}
+
+/**
+ * {@link Logger} that passes each entry along to all of the loggers it was constructed with.
+ */
+export class MultiLogger implements Logger {
+  private loggers: Logger[]
+
+  constructor(...loggers: Logger[]) {
+    this.loggers = loggers
+  }
+
+  debug(data?: unknown, ...moreData: unknown[]) {
+    this.loggers.forEach(logger => logger.debug(data, ...moreData))
+  }
+
+  info(data?: unknown, ...moreData: unknown[]) {
+    this.loggers.forEach(logger => logger.info(data, ...moreData))
+  }
+
+  warn(data?: unknown, ...moreData: unknown[]) {
+    this.loggers.forEach(logger => logger.warn(data, ...moreData))
+  }
+
+  error(data?: unknown, ...moreData: unknown[]) {
+    this.loggers.forEach(logger => logger.error(data, ...moreData))
+  }
+}
+
+function stripColorCodes(str: string) {
+  // eslint-disable-next-line no-control-regex
+  return str.replace(/\x1b\[[0-9;]*m/g, '')
+}
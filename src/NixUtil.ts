@@ -23,7 +23,7 @@ export class NixUtil {
 
     log(`attempting to find username for sudoer id ${sudoerId}`)
 
-    const childProcess = simpleSpawnSync('id', ['-nu', sudoerId])
+    const childProcess = simpleSpawnSync('id', ['-nu', sudoerId], { dryRun: false })
 
     if (childProcess.code !== 0) {
       throw new Error(`Unable to get sudoer username - id command exited with code ${childProcess.code}. Stderr: ${childProcess.stderr}`)
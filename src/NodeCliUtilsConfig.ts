@@ -1,4 +1,11 @@
 import { isPlatformWindows } from './generalUtils.js'
+import { ConsoleLogger, Logger } from './Logger.js'
+import { SecretRegistry } from './SecretRegistry.js'
+
+/**
+ * A docker-compatible container engine CLI. See {@link NodeCliUtilsConfig.containerEngine}.
+ */
+export type ContainerEngine = 'docker' | 'podman' | 'nerdctl'
 
 /**
  * Config to control a few misc settings in the node-cli-utils package. This module exports a singleton instance.
@@ -9,6 +16,10 @@ export class NodeCliUtilsConfig {
   private _orphanProtectionLoggingEnabled = false
   private _orphanProtectionLoggingPath = './orphanProtection.log'
   private _useWslPrefixForDockerCommandsOnWindows: boolean = true
+  private _logger: Logger = new ConsoleLogger()
+  private _dryRun: boolean = false
+  private _secrets = new SecretRegistry()
+  private _containerEngine: ContainerEngine | 'auto' = 'auto'
 
   get traceEnabled(): boolean {
     return this._traceEnabled
@@ -45,6 +56,49 @@ export class NodeCliUtilsConfig {
   set useWslPrefixForDockerCommandsOnWindows(value: boolean) {
     this._useWslPrefixForDockerCommandsOnWindows = value
   }
+
+  /**
+   * The {@link Logger} that all node-cli-utils output is routed through. Defaults to a {@link ConsoleLogger}.
+   */
+  get logger(): Logger {
+    return this._logger
+  }
+
+  set logger(value: Logger) {
+    this._logger = value
+  }
+
+  /**
+   * Defaults to `false`. If `true`, spawn helpers and filesystem-mutating helpers log the command (with args and cwd) or file change they
+   * would have performed and return a synthetic successful result instead. Most of these functions also accept a `dryRun` option to override
+   * this per call. Read-only commands that functions rely on for their logic (`which`, `docker info`, `dotnet tool list`, etc.) still run.
+   */
+  get dryRun(): boolean {
+    return this._dryRun
+  }
+
+  set dryRun(value: boolean) {
+    this._dryRun = value
+  }
+
+  /**
+   * Defaults to `'auto'`. The container engine CLI used by the functions in dockerUtils, for example `podman compose` instead of `docker compose`.
+   * If `'auto'`, the first of `docker`, `podman` and `nerdctl` that is installed is used (see {@link getContainerEngine}).
+   */
+  get containerEngine(): ContainerEngine | 'auto' {
+    return this._containerEngine
+  }
+
+  set containerEngine(value: ContainerEngine | 'auto') {
+    this._containerEngine = value
+  }
+
+  /**
+   * The {@link SecretRegistry} of values that are redacted from log and trace output and spawn error messages.
+   */
+  get secrets(): SecretRegistry {
+    return this._secrets
+  }
 }
 
 /**
@@ -0,0 +1,152 @@
+import fs from 'node:fs'
+import { config } from './NodeCliUtilsConfig.js'
+import { requireValidPath, trace } from './generalUtils.js'
+import { decodeXmlEntities, findFileInParentDirectories } from './generalUtilsInternal.js'
+
+/**
+ * A NuGet V3 package source. See {@link readNugetConfigFeeds}.
+ */
+export interface NugetFeed {
+  /** The package source name, for example `nuget.org`. */
+  name: string
+  /** The V3 service index url, for example `https://api.nuget.org/v3/index.json`. */
+  url: string
+  /** Optional. Credentials for private feeds. */
+  credentials?: NugetFeedCredentials
+}
+
+/**
+ * Credentials for a private feed. Any value can reference env vars using the same `%NAME%` syntax as `nuget.config` files, for example
+ * `{ username: 'az', password: '%AZURE_ARTIFACTS_PAT%' }`. Env vars are expanded when requests are made and the expanded values are added to
+ * `config.secrets` so they are redacted from log output.
+ */
+export interface NugetFeedCredentials {
+  /** Optional. Username for basic auth. */
+  username?: string
+  /** Optional. Password for basic auth. For Azure Artifacts this is a personal access token (the username can be any non-empty value). */
+  password?: string
+  /** Optional. Bearer token. If set, the basic auth values are ignored. */
+  token?: string
+}
+
+/** The nuget.org feed, which is used when no other feeds are configured. */
+export const nugetOrgFeed: NugetFeed = { name: 'nuget.org', url: 'https://api.nuget.org/v3/index.json' }
+
+const nugetConfigFileNames = ['nuget.config', 'NuGet.Config', 'NuGet.config']
+
+/**
+ * Search the directory and its parent directories for a `nuget.config` file, the same way the dotnet CLI does.
+ * @param startDir Defaults to `process.cwd()`.
+ * @returns The path to the closest `nuget.config` file, or undefined if none was found
+ */
+export function findNugetConfig(startDir: string = process.cwd()): string | undefined {
+  return findFileInParentDirectories(startDir, nugetConfigFileNames)
+}
+
+/**
+ * Read the enabled V3 package sources from a `nuget.config` file, along with their credentials from `packageSourceCredentials`
+ * (`Username` and `ClearTextPassword`). Respects `<clear />` and `disabledPackageSources`.
+ *
+ * Local folder sources, V2 sources and encrypted passwords (`Password`, which only the NuGet CLI on Windows can decrypt) aren't supported and
+ * are skipped. Use `%NAME%` env var references in `ClearTextPassword` to keep secrets out of the file.
+ * @param nugetConfigPath The path to the `nuget.config` file
+ * @returns The feeds in the order they're defined
+ */
+export function readNugetConfigFeeds(nugetConfigPath: string): NugetFeed[] {
+  requireValidPath('nugetConfigPath', nugetConfigPath)
+  const xml = fs.readFileSync(nugetConfigPath, 'utf-8').replace(/<!--[\s\S]*?-->/g, '')
+
+  const packageSourcesXml = getSectionXml(xml, 'packageSources') ?? ''
+  // Sources added before a <clear /> element are removed, so only parse what comes after the last one
+  const clearMatches = [...packageSourcesXml.matchAll(/<clear\s*\/>/g)]
+  const lastClear = clearMatches[clearMatches.length - 1]
+  const activeSourcesXml = lastClear ? packageSourcesXml.substring(lastClear.index! + lastClear[0].length) : packageSourcesXml
+
+  const disabledSources = getAddElements(getSectionXml(xml, 'disabledPackageSources') ?? '')
+    .filter(attributes => attributes.value?.toLowerCase() === 'true')
+    .map(attributes => attributes.key)
+
+  const feeds: NugetFeed[] = []
+  for (const attributes of getAddElements(activeSourcesXml)) {
+    const { key: name, value: url, protocolVersion } = attributes
+    if (!name || !url || disabledSources.includes(name)) {
+      continue
+    }
+    if (!/^https?:\/\//i.test(url) || (protocolVersion !== '3' && !/\/index\.json(\?.*)?$/i.test(url))) {
+      trace(`skipping nuget source ${name} - only V3 http sources are supported: ${url}`)
+      continue
+    }
+    const credentials = getNugetConfigCredentials(xml, name)
+    feeds.push(credentials ? { name, url, credentials } : { name, url })
+  }
+  return feeds
+}
+
+/**
+ * Get the value for the `Authorization` header for a feed, or undefined if the feed doesn't have credentials. Env var references are expanded
+ * and the resulting secrets are added to `config.secrets`.
+ */
+export function getNugetFeedAuthorizationHeader(feed: NugetFeed): string | undefined {
+  const credentials = feed.credentials
+  if (!credentials) {
+    return undefined
+  }
+  if (credentials.token) {
+    const token = expandEnvVars(credentials.token)
+    config.secrets.addSecret(token)
+    return `Bearer ${token}`
+  }
+  if (credentials.password !== undefined) {
+    const username = expandEnvVars(credentials.username ?? '')
+    const password = expandEnvVars(credentials.password)
+    const encoded = Buffer.from(`${username}:${password}`).toString('base64')
+    config.secrets.addSecret(password, encoded)
+    return `Basic ${encoded}`
+  }
+  return undefined
+}
+
+// Expands %NAME% references to env var values. References to env vars that aren't set are left as-is, like NuGet does.
+function expandEnvVars(value: string): string {
+  return value.replace(/%([^%]+)%/g, (match, name: string) => process.env[name] ?? match)
+}
+
+function getNugetConfigCredentials(xml: string, sourceName: string): NugetFeedCredentials | undefined {
+  const credentialsXml = getSectionXml(xml, 'packageSourceCredentials')
+  if (!credentialsXml) {
+    return undefined
+  }
+  // Element names can't contain spaces, so NuGet encodes them as _x0020_
+  const sourceXml = getSectionXml(credentialsXml, sourceName.replaceAll(' ', '_x0020_'))
+  if (!sourceXml) {
+    return undefined
+  }
+  const values: { [key: string]: string } = {}
+  for (const attributes of getAddElements(sourceXml)) {
+    if (attributes.key) {
+      values[attributes.key.toLowerCase()] = attributes.value ?? ''
+    }
+  }
+  if (values.cleartextpassword === undefined) {
+    if (values.password !== undefined) {
+      trace(`skipping credentials for nuget source ${sourceName} - encrypted passwords are not supported (use ClearTextPassword)`)
+    }
+    return undefined
+  }
+  return { username: values.username, password: values.cleartextpassword }
+}
+
+function getSectionXml(xml: string, elementName: string): string | undefined {
+  const escapedName = elementName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  return new RegExp(`<${escapedName}(?:\\s[^>]*)?>([\\s\\S]*?)</${escapedName}>`, 'i').exec(xml)?.[1]
+}
+
+function getAddElements(xml: string): { [attributeName: string]: string | undefined }[] {
+  return [...xml.matchAll(/<add\s([^>]*?)\/?>/g)].map(match => {
+    const attributes: { [attributeName: string]: string } = {}
+    for (const [, name, value] of match[1].matchAll(/([\w:]+)\s*=\s*"([^"]*)"/g)) {
+      attributes[name] = decodeXmlEntities(value)
+    }
+    return attributes
+  })
+}
@@ -0,0 +1,191 @@
+const frameworkIdentifierNetCoreApp = '.NETCoreApp'
+const frameworkIdentifierNetStandard = '.NETStandard'
+const frameworkIdentifierNetFramework = '.NETFramework'
+const frameworkIdentifierAny = 'Any'
+
+const longNameIdentifiers: { [lowercaseLongName: string]: string } = {
+  '.netcoreapp': frameworkIdentifierNetCoreApp,
+  '.netstandard': frameworkIdentifierNetStandard,
+  '.netframework': frameworkIdentifierNetFramework
+}
+
+/**
+ * Parse a target framework from a package asset folder name (for example `net6.0`, `netstandard2.0`, `net461` or `net8.0-windows7.0`)
+ * or a nuspec dependency group (for example `.NETStandard2.0` or `.NETFramework4.6.1`).
+ *
+ * An empty string or `any` is parsed as a framework that is compatible with every project (see {@link isFrameworkCompatible}). Frameworks
+ * that aren't `.NETCoreApp`, `.NETStandard` or `.NETFramework` (for example `portable-net45+win8` or `monoandroid10`) are kept with the
+ * lowercased name as the identifier and are only compatible with the exact same framework.
+ */
+export class NugetFramework {
+  /** `.NETCoreApp`, `.NETStandard`, `.NETFramework`, `Any`, or the lowercased name for other frameworks. */
+  identifier: string
+  major: number
+  minor: number
+  patch: number
+  /** The OS for OS-specific frameworks such as `net8.0-windows` (without the OS version). Undefined for other frameworks. */
+  platform?: string
+
+  constructor(framework: string) {
+    const normalized = (framework ?? '').trim().toLowerCase()
+    this.identifier = normalized
+    this.major = 0
+    this.minor = 0
+    this.patch = 0
+
+    if (normalized === '' || normalized === 'any') {
+      this.identifier = frameworkIdentifierAny
+      return
+    }
+
+    const longNameMatch = /^(\.netcoreapp|\.netstandard|\.netframework)(?:,version=v)?(\d+(?:\.\d+)*)?$/.exec(normalized)
+    if (longNameMatch) {
+      this.identifier = longNameIdentifiers[longNameMatch[1]]
+      this.setVersion(longNameMatch[2]?.split('.') ?? [])
+      return
+    }
+
+    const shortNameMatch = /^(netcoreapp|netstandard|net)(\d+(?:\.\d+)*)(?:-([a-z]+)[\d.]*)?$/.exec(normalized)
+    if (!shortNameMatch) {
+      return
+    }
+    const [, shortIdentifier, version, suffix] = shortNameMatch
+    if (shortIdentifier === 'net' && !version.includes('.')) {
+      // Short .NET Framework names use one digit per version part, for example net461 is 4.6.1 (the suffix is a profile such as client)
+      this.identifier = frameworkIdentifierNetFramework
+      this.setVersion(version.split(''))
+      return
+    }
+    this.identifier = shortIdentifier === 'netstandard' ? frameworkIdentifierNetStandard : frameworkIdentifierNetCoreApp
+    this.setVersion(version.split('.'))
+    if (shortIdentifier === 'net' && this.major < 5) {
+      this.identifier = frameworkIdentifierNetFramework
+      return
+    }
+    if (suffix && this.identifier === frameworkIdentifierNetCoreApp) {
+      this.platform = suffix
+    }
+  }
+
+  get isAny(): boolean {
+    return this.identifier === frameworkIdentifierAny
+  }
+
+  /** The short folder name for the framework, for example `net8.0`, `netcoreapp3.1`, `netstandard2.0` or `net461`. */
+  toString(): string {
+    switch (this.identifier) {
+      case frameworkIdentifierAny:
+        return 'any'
+      case frameworkIdentifierNetStandard:
+        return `netstandard${this.major}.${this.minor}`
+      case frameworkIdentifierNetFramework:
+        return `net${this.major}${this.minor}${this.patch > 0 ? this.patch : ''}`
+      case frameworkIdentifierNetCoreApp:
+        return this.major >= 5 ? `net${this.major}.${this.minor}${this.platform ? `-${this.platform}` : ''}` : `netcoreapp${this.major}.${this.minor}`
+      default:
+        return this.identifier
+    }
+  }
+
+  private setVersion(parts: string[]) {
+    const [major, minor, patch] = parts.map(part => parseInt(part, 10))
+    this.major = major ?? 0
+    this.minor = minor ?? 0
+    this.patch = patch ?? 0
+  }
+}
+
+/**
+ * Check whether a project targeting `projectFramework` can use package assets built for `packageFramework`, following NuGet's compatibility
+ * rules for .NET, .NET Core, .NET Standard and .NET Framework:
+ *
+ * - Assets for the same framework family are compatible if their version is less than or equal to the project's version
+ * - OS-specific assets (for example `net8.0-windows`) are only compatible with projects that target the same OS
+ * - .NET Standard assets are compatible with the .NET Core and .NET Framework versions that implement that .NET Standard version
+ * - Assets that aren't framework-specific (see {@link NugetFramework}) are compatible with every project
+ * @param projectFramework The project's framework, for example `new NugetFramework('net8.0')`
+ * @param packageFramework The framework of the package assets or dependency group
+ */
+export function isFrameworkCompatible(projectFramework: NugetFramework, packageFramework: NugetFramework): boolean {
+  if (packageFramework.isAny) {
+    return true
+  }
+  if (projectFramework.identifier === packageFramework.identifier) {
+    if (compareFrameworkVersions(packageFramework, projectFramework) > 0) {
+      return false
+    }
+    return !packageFramework.platform || packageFramework.platform === projectFramework.platform
+  }
+  if (packageFramework.identifier === frameworkIdentifierNetStandard) {
+    const supportedNetStandardVersion = getSupportedNetStandardVersion(projectFramework)
+    return !!supportedNetStandardVersion && compareVersionParts([packageFramework.major, packageFramework.minor], supportedNetStandardVersion) <= 0
+  }
+  return false
+}
+
+/**
+ * Apply NuGet's framework reduction rules to pick the package framework whose assets would be used by a project targeting `projectFramework`.
+ * Compatible frameworks (see {@link isFrameworkCompatible}) are preferred in this order: the project's framework family, then .NET Standard, then
+ * non-framework-specific assets. Within those, OS-specific frameworks that match the project are preferred, then the highest version.
+ * @param projectFramework The project's framework
+ * @param packageFrameworks The frameworks supported by the package
+ * @returns The nearest compatible framework, or undefined if none of the package frameworks are compatible
+ */
+export function getNearestFramework(projectFramework: NugetFramework, packageFrameworks: NugetFramework[]): NugetFramework | undefined {
+  const familyRank = (framework: NugetFramework) => {
+    if (framework.identifier === projectFramework.identifier) {
+      return 0
+    }
+    return framework.identifier === frameworkIdentifierNetStandard ? 1 : 2
+  }
+  const compatible = packageFrameworks.filter(framework => isFrameworkCompatible(projectFramework, framework))
+  compatible.sort((a, b) =>
+    familyRank(a) - familyRank(b) ||
+    (b.platform ? 1 : 0) - (a.platform ? 1 : 0) ||
+    compareFrameworkVersions(b, a)
+  )
+  return compatible[0]
+}
+
+function compareFrameworkVersions(a: NugetFramework, b: NugetFramework): number {
+  return compareVersionParts([a.major, a.minor, a.patch], [b.major, b.minor, b.patch])
+}
+
+function compareVersionParts(a: number[], b: number[]): number {
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    const diff = (a[i] ?? 0) - (b[i] ?? 0)
+    if (diff !== 0) {
+      return diff
+    }
+  }
+  return 0
+}
+
+// The highest .NET Standard version implemented by the framework - see https://learn.microsoft.com/en-us/dotnet/standard/net-standard
+function getSupportedNetStandardVersion(framework: NugetFramework): number[] | undefined {
+  if (framework.identifier === frameworkIdentifierNetStandard) {
+    return [framework.major, framework.minor]
+  }
+  if (framework.identifier === frameworkIdentifierNetCoreApp) {
+    if (framework.major >= 3) {
+      return [2, 1]
+    }
+    return framework.major === 2 ? [2, 0] : [1, 6]
+  }
+  if (framework.identifier === frameworkIdentifierNetFramework) {
+    const version = [framework.major, framework.minor, framework.patch]
+    if (compareVersionParts(version, [4, 6, 1]) >= 0) {
+      return [2, 0]
+    }
+    if (compareVersionParts(version, [4, 6]) >= 0) {
+      return [1, 3]
+    }
+    if (compareVersionParts(version, [4, 5, 1]) >= 0) {
+      return [1, 2]
+    }
+    if (compareVersionParts(version, [4, 5]) >= 0) {
+      return [1, 1]
+    }
+  }
+  return undefined
+}
@@ -0,0 +1,301 @@
+/**
+ * Parse a NuGet package version: `<major>[.<minor>[.<patch>[.<revision>]]][-<release labels>][+<metadata>]`, for example `8.0.0`,
+ * `1.2.3.4`, `9.0.0-preview.7.24405.3` or `2.0.0-rc.1+build.5`. Missing parts default to 0.
+ *
+ * Versions are ordered the same way NuGet orders them (see {@link compareNugetVersions}).
+ */
+export class NugetSemanticVersion {
+  full: string
+  major: number
+  minor: number
+  patch: number
+  /** The fourth version part, which NuGet supports for legacy versions. Defaults to 0. */
+  revision: number
+  /** The dot separated prerelease labels, for example `['preview', '7', '24405', '3']` for `9.0.0-preview.7.24405.3`. Empty for release versions. */
+  releaseLabels: string[]
+  /** The build metadata after the `+`, which is ignored when comparing versions. */
+  metadata?: string
+
+  constructor(version: string) {
+    this.full = version
+    if (typeof version !== 'string' || version.trim() !== version || version === '') {
+      this.throwParsingError()
+    }
+    const match = /^(\d+)(?:\.(\d+))?(?:\.(\d+))?(?:\.(\d+))?(?:-([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?(?:\+([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?$/.exec(version)
+    if (!match) {
+      this.throwParsingError()
+    }
+    const [, major, minor, patch, revision, releaseLabels, metadata] = match!
+    this.major = parseInt(major, 10)
+    this.minor = minor ? parseInt(minor, 10) : 0
+    this.patch = patch ? parseInt(patch, 10) : 0
+    this.revision = revision ? parseInt(revision, 10) : 0
+    this.releaseLabels = releaseLabels ? releaseLabels.split('.') : []
+    this.metadata = metadata
+  }
+
+  get isPrerelease(): boolean {
+    return this.releaseLabels.length > 0
+  }
+
+  /** The release labels joined with dots, for example `preview.7.24405.3`, or undefined for release versions. */
+  get release(): string | undefined {
+    return this.isPrerelease ? this.releaseLabels.join('.') : undefined
+  }
+
+  /**
+   * The normalized version string NuGet uses, without build metadata. The revision is only included if it isn't 0, for example `1.0` is
+   * normalized to `1.0.0` and `1.2.3.0-Beta` to `1.2.3-Beta`.
+   */
+  toString(): string {
+    const revisionPart = this.revision !== 0 ? `.${this.revision}` : ''
+    const releasePart = this.isPrerelease ? `-${this.release}` : ''
+    return `${this.major}.${this.minor}.${this.patch}${revisionPart}${releasePart}`
+  }
+
+  /** Returns a negative number if this version is lower than `other`, a positive number if it's higher, or 0 if they're equivalent. */
+  compareTo(other: NugetSemanticVersion | string): number {
+    return compareNugetVersions(this, other)
+  }
+
+  // Protected so that subclasses like DotnetVersion can use their own error message
+  protected throwParsingError(): never {
+    throw new Error(`Invalid nuget version string: ${this.full}`)
+  }
+}
+
+/**
+ * Compare two NuGet versions using SemVer 2.0 ordering with NuGet's extensions: the revision is compared after the patch, release labels
+ * are compared case-insensitively and build metadata is ignored. A prerelease version is lower than the release version with the same numbers,
+ * numeric labels are compared numerically and are lower than non-numeric labels, and a shorter list of labels is lower if the labels are otherwise equal.
+ * @returns A negative number if `a` is lower than `b`, a positive number if it's higher, or 0 if they're equivalent. Can be used with `Array.sort`.
+ */
+export function compareNugetVersions(a: NugetSemanticVersion | string, b: NugetSemanticVersion | string): number {
+  const versionA = typeof a === 'string' ? new NugetSemanticVersion(a) : a
+  const versionB = typeof b === 'string' ? new NugetSemanticVersion(b) : b
+  const numberDiff =
+    versionA.major - versionB.major ||
+    versionA.minor - versionB.minor ||
+    versionA.patch - versionB.patch ||
+    versionA.revision - versionB.revision
+  if (numberDiff !== 0) {
+    return numberDiff
+  }
+  if (versionA.isPrerelease !== versionB.isPrerelease) {
+    return versionA.isPrerelease ? -1 : 1
+  }
+  return compareReleaseLabels(versionA.releaseLabels, versionB.releaseLabels)
+}
+
+function compareReleaseLabels(a: string[], b: string[]): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    const aIsNumeric = /^\d+$/.test(a[i])
+    const bIsNumeric = /^\d+$/.test(b[i])
+    let diff: number
+    if (aIsNumeric && bIsNumeric) {
+      diff = parseInt(a[i], 10) - parseInt(b[i], 10)
+    } else if (aIsNumeric !== bIsNumeric) {
+      diff = aIsNumeric ? -1 : 1
+    } else {
+      const aLower = a[i].toLowerCase()
+      const bLower = b[i].toLowerCase()
+      diff = aLower < bLower ? -1 : aLower > bLower ? 1 : 0
+    }
+    if (diff !== 0) {
+      return diff
+    }
+  }
+  return a.length - b.length
+}
+
+/** The part of a floating version that floats, for example `minor` for `7.*` or `prerelease` for `7.0.0-beta*`. */
+export type NugetFloatBehavior = 'major' | 'minor' | 'patch' | 'revision' | 'prerelease'
+
+/**
+ * Parse a NuGet version range as used in `PackageReference` and `PackageVersion` elements. See https://learn.microsoft.com/en-us/nuget/concepts/package-versioning#version-ranges.
+ *
+ * - `1.0` - 1.0 or higher
+ * - `[1.0]` - exactly 1.0
+ * - `[1.0,2.0)`, `(1.0,]`, `(,2.0]` - inclusive (square brackets) or exclusive (parentheses) bounds, either of which can be omitted
+ * - `7.*`, `7.0.*`, `*` - floating versions, which match the release versions with the same fixed parts
+ * - `7.0.0-*`, `7.0.0-rc.*`, `7.*-*`, `*-*` - floating versions that also match prerelease versions
+ *
+ * A floating version can also be used as the lower bound of a range, for example `[7.*, 8.0)`. Prerelease versions only satisfy the range if
+ * one of the bounds is a prerelease version or the floating version includes prereleases, which matches what you'd expect when picking the
+ * highest version (see {@link getHighestSatisfyingVersion}).
+ */
+export class NugetVersionRange {
+  full: string
+  minVersion?: NugetSemanticVersion
+  isMinInclusive = false
+  maxVersion?: NugetSemanticVersion
+  isMaxInclusive = false
+  /** Set for floating versions. The lower bound is the floating version with the floating parts replaced with 0. */
+  floatBehavior?: NugetFloatBehavior
+  /** Whether the floating version matches prerelease versions. */
+  floatIncludesPrerelease = false
+  private floatReleasePrefix?: string
+
+  constructor(range: string) {
+    this.full = range
+    if (typeof range !== 'string' || range.trim() === '') {
+      this.throwParsingError()
+    }
+    const trimmed = range.replace(/\s/g, '')
+
+    if (!/^[[(]/.test(trimmed)) {
+      this.parseMinVersion(trimmed)
+      this.isMinInclusive = true
+      return
+    }
+
+    const match = /^([[(])([^,]*?)(?:(,)([^,]*))?([\])])$/.exec(trimmed)
+    if (!match) {
+      this.throwParsingError()
+    }
+    const [, openBracket, min, comma, max, closeBracket] = match!
+    this.isMinInclusive = openBracket === '['
+    this.isMaxInclusive = closeBracket === ']'
+
+    if (!comma) {
+      // [1.0] is the only valid range without a comma
+      if (!this.isMinInclusive || !this.isMaxInclusive || min === '') {
+        this.throwParsingError('exact versions must use the format [1.0]')
+      }
+      this.minVersion = this.parseVersion(min)
+      this.maxVersion = this.minVersion
+      return
+    }
+
+    if (min === '' && max === '') {
+      this.throwParsingError('at least one bound is required')
+    }
+    if (min !== '') {
+      this.parseMinVersion(min)
+    }
+    if (max !== '') {
+      this.maxVersion = this.parseVersion(max)
+    }
+    if (this.minVersion && this.maxVersion) {
+      const diff = compareNugetVersions(this.minVersion, this.maxVersion)
+      if (diff > 0 || (diff === 0 && !(this.isMinInclusive && this.isMaxInclusive))) {
+        this.throwParsingError('the range does not include any versions')
+      }
+    }
+  }
+
+  get isFloating(): boolean {
+    return this.floatBehavior !== undefined
+  }
+
+  /**
+   * Check whether a version is in the range. See {@link NugetVersionRange} for how prerelease versions are handled.
+   */
+  satisfies(version: NugetSemanticVersion | string): boolean {
+    const semanticVersion = typeof version === 'string' ? new NugetSemanticVersion(version) : version
+    if (semanticVersion.isPrerelease && !this.allowsPrerelease()) {
+      return false
+    }
+    if (this.minVersion) {
+      const diff = compareNugetVersions(semanticVersion, this.minVersion)
+      if (diff < 0 || (diff === 0 && !this.isMinInclusive)) {
+        return false
+      }
+    }
+    if (this.maxVersion) {
+      const diff = compareNugetVersions(semanticVersion, this.maxVersion)
+      if (diff > 0 || (diff === 0 && !this.isMaxInclusive)) {
+        return false
+      }
+    }
+    return this.matchesFloat(semanticVersion)
+  }
+
+  /**
+   * Get the highest version that satisfies the range (see {@link satisfies}).
+   * @returns The highest satisfying version, or undefined if none of the versions satisfy the range
+   */
+  getHighestSatisfyingVersion<T extends NugetSemanticVersion>(versions: T[]): T | undefined {
+    const satisfying = versions.filter(version => this.satisfies(version))
+    satisfying.sort((a, b) => compareNugetVersions(b, a))
+    return satisfying[0]
+  }
+
+  private allowsPrerelease(): boolean {
+    return this.floatIncludesPrerelease || !!this.minVersion?.isPrerelease || !!this.maxVersion?.isPrerelease
+  }
+
+  private matchesFloat(version: NugetSemanticVersion): boolean {
+    const min = this.minVersion
+    if (!this.floatBehavior || !min) {
+      return true
+    }
+    const fixedParts: { [T in NugetFloatBehavior]: number } = { major: 0, minor: 1, patch: 2, revision: 3, prerelease: 4 }
+    const versionParts = [version.major, version.minor, version.patch, version.revision]
+    const minParts = [min.major, min.minor, min.patch, min.revision]
+    for (let i = 0; i < fixedParts[this.floatBehavior]; i++) {
+      if (versionParts[i] !== minParts[i]) {
+        return false
+      }
+    }
+    // The release version also matches a floating prerelease, for example 7.0.0 matches 7.0.0-rc.*
+    if (this.floatBehavior === 'prerelease' && version.isPrerelease) {
+      return version.release!.toLowerCase().startsWith(this.floatReleasePrefix!.toLowerCase())
+    }
+    return true
+  }
+
+  private parseMinVersion(version: string) {
+    if (!version.includes('*')) {
+      this.minVersion = this.parseVersion(version)
+      return
+    }
+    const dashIndex = version.indexOf('-')
+    const numberPart = dashIndex === -1 ? version : version.substring(0, dashIndex)
+    const releasePart = dashIndex === -1 ? undefined : version.substring(dashIndex + 1)
+    if (releasePart !== undefined) {
+      if (!releasePart.endsWith('*') || releasePart.indexOf('*') !== releasePart.length - 1) {
+        this.throwParsingError('a floating prerelease must end with *')
+      }
+      this.floatIncludesPrerelease = true
+    }
+
+    if (numberPart === '*' || numberPart.endsWith('.*')) {
+      // For example 7.* or 7.*-*, where the prerelease part can only be a *
+      if (releasePart !== undefined && releasePart !== '*') {
+        this.throwParsingError('floating version numbers can only be combined with -*')
+      }
+      const fixedNumbers = numberPart === '*' ? [] : numberPart.substring(0, numberPart.length - 2).split('.')
+      const behaviors: NugetFloatBehavior[] = ['major', 'minor', 'patch', 'revision']
+      if (fixedNumbers.length >= behaviors.length) {
+        this.throwParsingError()
+      }
+      this.floatBehavior = behaviors[fixedNumbers.length]
+      // With -* the lower bound is the lowest possible prerelease so 7.0.0-beta matches 7.*-*
+      this.minVersion = this.parseVersion(`${[...fixedNumbers, '0'].join('.')}${this.floatIncludesPrerelease ? '-0' : ''}`)
+      return
+    }
+
+    if (releasePart === undefined || numberPart.includes('*')) {
+      this.throwParsingError()
+    }
+    // For example 7.0.0-* or 7.0.0-rc.*, with a lower bound of the lowest possible prerelease with the prefix
+    this.floatBehavior = 'prerelease'
+    this.floatReleasePrefix = releasePart!.substring(0, releasePart!.length - 1)
+    const prefixLabel = this.floatReleasePrefix.replace(/\.$/, '')
+    this.minVersion = this.parseVersion(`${numberPart}-${prefixLabel === '' ? '0' : prefixLabel}`)
+  }
+
+  private parseVersion(version: string): NugetSemanticVersion {
+    try {
+      return new NugetSemanticVersion(version)
+    } catch {
+      this.throwParsingError(`invalid version "${version}"`)
+    }
+  }
+
+  private throwParsingError(reason?: string): never {
+    const reasonPart = reason ? ` (${reason})` : ''
+    throw new Error(`Invalid nuget version range${reasonPart}: ${this.full}`)
+  }
+}
@@ -1,7 +1,14 @@
 import axios, { AxiosInstance, AxiosResponse } from 'axios'
-import { DotnetVersion } from './DotnetVersion.js'
+import { createHash } from 'node:crypto'
+import fsp from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import { NugetFeed, getNugetFeedAuthorizationHeader, nugetOrgFeed } from './NugetFeed.js'
+import { NugetFramework, getNearestFramework } from './NugetFramework.js'
+import { NugetSemanticVersion, NugetVersionRange, compareNugetVersions } from './NugetSemanticVersion.js'
+import { findDirectoryPackagesProps, getNugetPackageItems, getProjectTargetFrameworks, updateNugetPackageItem } from './dotnetProjectUtils.js'
 import { TargetFrameworkMoniker, isValidTargetFrameworkMoniker } from './dotnetUtils.js'
-import { ExtendedError, findAllIndexes, getNormalizedError, requireString, sleep, trace } from './generalUtils.js'
+import { DryRunOptions, ExtendedError, getNormalizedError, isErrorEnoent, log, mkdirp, requireString, requireValidPath, sleep, trace } from './generalUtils.js'
 
 type NugetVersionCompatibilityList = { [packageName: string]: { [T in TargetFrameworkMoniker]?: number } }
 
@@ -16,33 +23,42 @@ export const nugetPackageCompatibilityList: NugetVersionCompatibilityList = {
   'dotnet-ef': { 'net6.0': 7, 'net7.0': 7, 'net8.0': 8 }
 }
 
+/**
+ * Options for {@link NugetUtility.updatePackagesToLatestCompatible}.
+ */
+export interface UpdateNugetPackagesOptions extends DryRunOptions {
+  /** Optional. Only update these packages. Defaults to all of the project's packages. */
+  packageNames?: string[]
+}
+
+/**
+ * A package version change made by {@link NugetUtility.updatePackagesToLatestCompatible}.
+ */
+export interface NugetPackageUpdate {
+  packageName: string
+  fromVersion: string
+  toVersion: string
+  /** The project file or `Directory.Packages.props` file that was updated. */
+  filePath: string
+}
+
 export interface NugetUtilityDependencies {
   nugetAccessor: INugetAccessor
 }
 
-export class NugetUtility {
-  private readonly genericParsingErrorMessage = `Unexpected nuget.org html format (enable trace for more detail): `
-  private readonly htmlClassFrameworksTable = 'framework-table-frameworks'
-  private readonly htmlClassDirectCompatibility = 'framework-badge-asset'
-  private readonly htmlClassComputedCompatibility = 'framework-badge-computed'
+// Package folders that contain framework-specific assets, for example lib/net6.0/SomePackage.dll
+const frameworkAssetFolders = ['lib', 'ref', 'build', 'buildTransitive', 'tools']
 
+export class NugetUtility {
   private nugetAccessor: INugetAccessor
 
   constructor(dependencies: Partial<NugetUtilityDependencies> = {}) {
     this.nugetAccessor = dependencies.nugetAccessor ?? new NugetAccessor()
   }
 
-  static getNugetLandingPageUrl(packageName: string, packageVersion: string): string {
-    return `https://www.nuget.org/packages/${packageName}/${packageVersion}`
-  }
-
-  static getVersionsJsonUrl(packageName: string) {
-    return `https://api.nuget.org/v3-flatcontainer/${packageName}/index.json`.toLowerCase()
-  }
-
   /**
-   * Same as {@link getLatestNugetPackageVersion}, except it first pulls from a hard-coded list, and only if it isn't found will it reach out to nuget.org to screen
-   * scrape and use their best guess. Only returns the major version - use it to import a package with wildcard syntax, for example: `dotnet add package SomePackage -v 7.*`.
+   * Same as {@link getLatestNugetPackageVersion}, except it first pulls from a hard-coded list, and only if it isn't found will it reach out to nuget.org to
+   * compute compatibility. Only returns the major version - use it to import a package with wildcard syntax, for example: `dotnet add package SomePackage -v 7.*`.
    * 
    * Useful for packages like the EntityFramework that is technically compatible with versions of .net that they actually don't work with because of runtime
    * dependencies of the dotnet-ef tool.
@@ -57,21 +73,19 @@ export class NugetUtility {
     if (latestVersion === null) {
       return null
     }
-    return new DotnetVersion(latestVersion).major
+    return new NugetSemanticVersion(latestVersion).major
   }
 
   /**
-   * Get the newest version number for the nuget package that is compatible with the specified .net version. This logic scrapes nuget.org to take a guess. Note that
-   * that's all it is - a guess. Nuget doesn't actually know anything about compatibility and is also taking giant guesses based on package transitive dependencies
-   * and general compatibilities between framework versions. Nuget does not actually guarantee any type of real compatibility in any sense of the word - it just pulls
-   * the latest version when you add a package unless you specify one, and you won't know if it's compatible until a restore or build command happens. This method is
-   * an attempt to at least use the nuget.org guess instead of just using the latest version.
+   * Get the newest version number for the nuget package that is compatible with the specified .net version. Compatibility is computed locally from the frameworks
+   * the package supports (see {@link getPackageFrameworks}) using NuGet's framework compatibility and reduction rules (see {@link getNearestFramework}). Note that
+   * this only means NuGet would consider the package compatible - you won't know if it actually works until a restore or build command happens (for example,
+   * newer major versions of some packages have runtime dependencies that aren't available for older versions of .net).
    * @param packageName The nuget package name to evaluate.
    * @param targetFrameworkMoniker The .net framework version, for example "net6.0" or "net8.0"
    * @returns A version string for the latest nuget package that is compatible with the specified .net framework, or `null` if there wasn't a compatible version found.
    * @throws If the package does not exist.
    * @throws If the nuget API is unreachable.
-   * @throws If the nuget.org package landing page is unreachable or it's html format for compatible .net frameworks changes.
    */
   getLatestNugetPackageVersion = async (packageName: string, targetFrameworkMoniker: TargetFrameworkMoniker): Promise<string | null> => {
     this.validatePackageName(packageName)
@@ -81,12 +95,10 @@ export class NugetUtility {
     const allNugetVersions = this.getAllNugetVersionsFromJson(packageName, allVersionsJson)
     const mostRecentMajorVersions = this.getLatestMajorVersions(allNugetVersions)
     const sortedVersions = [...mostRecentMajorVersions].sort((a, b) => b.major - a.major)
+    const projectFramework = new NugetFramework(targetFrameworkMoniker)
 
     for (const majorVersion of sortedVersions) {
-      const landingPageUrl = NugetUtility.getNugetLandingPageUrl(packageName, majorVersion.full)
-      const landingPageHtml = await this.nugetAccessor.getPackageLandingPageHtml(packageName, majorVersion.full)
-      const compatibleFrameworks = this.extractCompatibleFrameworks(landingPageHtml, landingPageUrl)
-      if (compatibleFrameworks.some(f => f.targetFrameworkMoniker === targetFrameworkMoniker)) {
+      if (await this.isPackageVersionCompatible(packageName, majorVersion.full, projectFramework)) {
         return majorVersion.full
       }
     }
@@ -94,97 +106,190 @@ export class NugetUtility {
     return null
   }
 
-  validatePackageName(packageName: string) {
-    requireString('packageName', packageName)
-    const validNugetPattern = /^[a-zA-Z0-9_.-]+$/
-    if (!validNugetPattern.test(packageName)) {
-      throw new Error(`Package name has invalid characters (must consist of only numbers, letters, underscores, dots and dashes): ${packageName}`)
+  /**
+   * Get the highest version of the nuget package that satisfies a version range or floating version (see {@link NugetVersionRange}), for example
+   * `[7.0,8.0)` or `7.*`. Unlike {@link getLatestNugetPackageVersion}, prerelease versions are included if the range allows them (for example `8.0.0-rc.*`).
+   * @param packageName The nuget package name to evaluate.
+   * @param versionRange A NuGet version range, for example `[7.0,8.0)`, `7.*` or `8.0.0-rc.*`.
+   * @param targetFrameworkMoniker Optional. If set, versions that aren't compatible with this .net framework version are skipped (compatibility is computed the same way
+   * as {@link getLatestNugetPackageVersion}).
+   * @returns The highest version string that satisfies the range, or `null` if there wasn't a satisfying (and compatible) version found.
+   * @throws If the version range is invalid.
+   * @throws If the package does not exist.
+   * @throws If the nuget API is unreachable.
+   */
+  getHighestNugetPackageVersion = async (packageName: string, versionRange: string, targetFrameworkMoniker?: TargetFrameworkMoniker): Promise<string | null> => {
+    this.validatePackageName(packageName)
+    const range = new NugetVersionRange(versionRange)
+    if (targetFrameworkMoniker !== undefined) {
+      this.validateFrameworkVersion(targetFrameworkMoniker)
     }
-  }
 
-  private validateFrameworkVersion(targetFrameworkMoniker: string) {
-    if (!isValidTargetFrameworkMoniker(targetFrameworkMoniker)) {
-      throw new Error(`Invalid targetFrameworkMoniker: ${targetFrameworkMoniker}. See https://learn.microsoft.com/en-us/dotnet/standard/frameworks.`)
+    const allVersionsJson = await this.nugetAccessor.getAllVersionsJson(packageName)
+    const satisfyingVersions = this.getAllNugetVersionsFromJson(packageName, allVersionsJson).filter(version => range.satisfies(version))
+    satisfyingVersions.sort((a, b) => b.compareTo(a))
+    trace(`versions of ${packageName} that satisfy ${versionRange}: ${satisfyingVersions.map(v => v.full).join(', ')}`)
+
+    if (targetFrameworkMoniker === undefined) {
+      return satisfyingVersions[0]?.full ?? null
     }
+    const projectFramework = new NugetFramework(targetFrameworkMoniker)
+    for (const version of satisfyingVersions) {
+      if (await this.isPackageVersionCompatible(packageName, version.full, projectFramework)) {
+        return version.full
+      }
+    }
+    return null
   }
 
-  private extractCompatibleFrameworks(nugetLandingPageHtml: string, urlForErrorMessage: string): NugetFrameworkCompatibility[] {
-    const tableIndexes = findAllIndexes(nugetLandingPageHtml, this.htmlClassFrameworksTable)
-
-    if (tableIndexes.length === 0) {
-      trace(`no tables with class ${this.htmlClassFrameworksTable}`)
-      throw new Error(this.getGenericParsingError(urlForErrorMessage))
+  /**
+   * Update the `PackageReference` versions of a project to the latest versions compatible with the project's `TargetFramework` (or all of its `TargetFrameworks`).
+   * Versions are looked up the same way as {@link getLatestMajorNugetPackageVersion}: packages in {@link nugetPackageCompatibilityList} get the highest version of the listed
+   * major version, and other packages get the latest compatible version (see {@link getLatestNugetPackageVersion}). Note that this can downgrade a package if the installed
+   * version isn't compatible.
+   *
+   * For projects that use central package management, the `PackageVersion` items in the closest `Directory.Packages.props` file are updated instead. Packages with a
+   * version range, floating version, MSBuild property or prerelease version are skipped.
+   * @param projectPath The path to the project file, for example `./src/MyApi/MyApi.csproj`
+   * @returns The updates that were made (or would have been made in dry run mode)
+   * @throws If the project's target frameworks can't be determined or aren't valid.
+   */
+  updatePackagesToLatestCompatible = async (projectPath: string, options?: Partial<UpdateNugetPackagesOptions>): Promise<NugetPackageUpdate[]> => {
+    requireValidPath('projectPath', projectPath)
+    const targetFrameworks = await getProjectTargetFrameworks(projectPath)
+    for (const targetFramework of targetFrameworks) {
+      this.validateFrameworkVersion(targetFramework)
     }
-
-    const compatibleFrameworks: NugetFrameworkCompatibility[] = []
-
-    for (const tableStartIndex of tableIndexes) {
-      const endIndex = nugetLandingPageHtml.indexOf('</td>', tableStartIndex)
-      if (endIndex === -1) {
-        trace(`could not find "</td>" in html after tableStartIndex: ${tableStartIndex}`)
-        throw new Error(this.getGenericParsingError(urlForErrorMessage))
+    const packageNames = options?.packageNames?.map(name => name.toLowerCase())
+    const packageReferences = (await getNugetPackageItems(projectPath))
+      .filter(item => item.itemType === 'PackageReference' && (!packageNames || packageNames.includes(item.packageName.toLowerCase())))
+    const propsPath = findDirectoryPackagesProps(path.dirname(projectPath))
+    const packageVersions = propsPath ? (await getNugetPackageItems(propsPath)).filter(item => item.itemType === 'PackageVersion') : []
+
+    const updates: NugetPackageUpdate[] = []
+    for (const packageReference of packageReferences) {
+      const packageName = packageReference.packageName
+      const packageVersion = packageReference.version === undefined ? packageVersions.find(item => item.packageName.toLowerCase() === packageName.toLowerCase()) : undefined
+      const currentVersion = packageReference.version ?? packageVersion?.version
+      const filePath = packageReference.version !== undefined ? projectPath : propsPath
+      if (currentVersion === undefined || filePath === undefined) {
+        log(`skipping package ${packageName} - no version was found in the project or in a Directory.Packages.props file`)
+        continue
       }
-
-      const frameworkTableHtml = nugetLandingPageHtml.substring(tableStartIndex, endIndex)
-      compatibleFrameworks.push(...this.extractCompatibleFrameworksFromHtmlTableString(frameworkTableHtml, urlForErrorMessage))
+      if (!isReleaseVersion(currentVersion)) {
+        log(`skipping package ${packageName} - version ${currentVersion} is not a release version`)
+        continue
+      }
+      const latestVersion = await this.getLatestCompatibleVersion(packageName, targetFrameworks as TargetFrameworkMoniker[])
+      if (latestVersion === null) {
+        log(`skipping package ${packageName} - no compatible version was found for ${targetFrameworks.join(', ')}`)
+        continue
+      }
+      if (compareNugetVersions(latestVersion, currentVersion) === 0) {
+        trace(`package ${packageName} is already at the latest compatible version ${currentVersion}`)
+        continue
+      }
+      log(`updating package ${packageName} from ${currentVersion} to ${latestVersion} in ${filePath}`)
+      await updateNugetPackageItem(filePath, packageName, latestVersion, options)
+      updates.push({ packageName, fromVersion: currentVersion, toVersion: latestVersion, filePath })
     }
+    return updates
+  }
 
-    return compatibleFrameworks
+  /**
+   * Get the frameworks a package version supports. These are the frameworks of the asset folders in the package (for example `lib/net6.0` or
+   * `tools/net8.0`) from the package's catalog entry, and the target frameworks of the nuspec dependency groups.
+   * @param packageName The nuget package name
+   * @param packageVersion The full package version, for example `7.0.14`
+   * @returns The distinct frameworks, or an empty array if the package doesn't have any framework-specific assets or dependency groups
+   */
+  getPackageFrameworks = async (packageName: string, packageVersion: string): Promise<NugetFramework[]> => {
+    const catalogEntryJson = await this.nugetAccessor.getCatalogEntryJson(packageName, packageVersion)
+    const nuspecXml = await this.nugetAccessor.getNuspec(packageName, packageVersion)
+    const frameworks = [...NugetUtility.getFrameworksFromCatalogEntryJson(catalogEntryJson), ...NugetUtility.getFrameworksFromNuspec(nuspecXml)]
+    const distinctFrameworks: { [shortName: string]: NugetFramework } = {}
+    for (const framework of frameworks) {
+      distinctFrameworks[framework.toString()] = framework
+    }
+    return Object.values(distinctFrameworks)
   }
 
-  private extractCompatibleFrameworksFromHtmlTableString(htmlTable: string, urlForErrorMessages: string): NugetFrameworkCompatibility[] {
-    const lines = htmlTable.replaceAll('\n', '').replaceAll('\r', '').split("<span").map(line => line.trim())
+  /**
+   * Get the target frameworks of the dependency groups in a nuspec file. A group without a target framework applies to any framework.
+   */
+  static getFrameworksFromNuspec(nuspecXml: string): NugetFramework[] {
+    const groupTags = nuspecXml.match(/<group\b[^>]*>/g) ?? []
+    return groupTags.map(tag => new NugetFramework(/\btargetFramework\s*=\s*"([^"]*)"/.exec(tag)?.[1] ?? ''))
+  }
 
-    const compatibleFrameworks: NugetFrameworkCompatibility[] = []
+  /**
+   * Get the frameworks of the asset folders (`lib`, `ref`, `build`, `buildTransitive` and `tools`) from the `packageEntries` of a package's catalog entry. Files
+   * directly in the `lib` or `build` folder apply to any framework.
+   */
+  static getFrameworksFromCatalogEntryJson(catalogEntryJson: string): NugetFramework[] {
+    let parsedJson: { packageEntries?: { fullName: string }[] }
+    try {
+      parsedJson = JSON.parse(catalogEntryJson)
+    } catch (error) {
+      throw new Error(`Could not parse Nuget catalog entry - invalid JSON string: ${catalogEntryJson}`)
+    }
 
-    for (const line of lines) {
-      const isDirectCompatibility = line.includes(this.htmlClassDirectCompatibility)
-      const isComputedCompatibility = line.includes(this.htmlClassComputedCompatibility)
-      if (!isDirectCompatibility && !isComputedCompatibility) {
+    const frameworks: NugetFramework[] = []
+    for (const entry of parsedJson.packageEntries ?? []) {
+      const parts = entry.fullName.replaceAll('\\', '/').split('/')
+      if (parts.length < 2 || !frameworkAssetFolders.includes(parts[0])) {
         continue
       }
-
-      const spanOpeningTagEndBracketIndex = line.indexOf('>')
-      if (spanOpeningTagEndBracketIndex === 0) {
-        trace(`could not find ">" in html compatibility table on line: ${line}`)
-        throw new Error(this.getGenericParsingError(urlForErrorMessages))
+      if (parts.length > 2) {
+        frameworks.push(new NugetFramework(decodeURIComponent(parts[1])))
+      } else if (parts[0] === 'lib' || parts[0] === 'build') {
+        frameworks.push(new NugetFramework('any'))
       }
+    }
+    return frameworks
+  }
 
-      if (spanOpeningTagEndBracketIndex === (line.length - 1)) {
-        trace(`the ">" was the last character in the html compatibility table on line: ${line}`)
-        throw new Error(this.getGenericParsingError(urlForErrorMessages))
-      }
+  validatePackageName(packageName: string) {
+    requireString('packageName', packageName)
+    const validNugetPattern = /^[a-zA-Z0-9_.-]+$/
+    if (!validNugetPattern.test(packageName)) {
+      throw new Error(`Package name has invalid characters (must consist of only numbers, letters, underscores, dots and dashes): ${packageName}`)
+    }
+  }
 
-      const endIndex = line.indexOf('<', spanOpeningTagEndBracketIndex)
-      if (endIndex === -1) {
-        trace(`could not find "<" in html compatibility table on line: ${line}`)
-        throw new Error(this.getGenericParsingError(urlForErrorMessages))
-      }
+  private validateFrameworkVersion(targetFrameworkMoniker: string) {
+    if (!isValidTargetFrameworkMoniker(targetFrameworkMoniker)) {
+      throw new Error(`Invalid targetFrameworkMoniker: ${targetFrameworkMoniker}. See https://learn.microsoft.com/en-us/dotnet/standard/frameworks.`)
+    }
+  }
 
-      const startIndex = spanOpeningTagEndBracketIndex + 1
-      if (startIndex === endIndex) {
-        trace(`the span value was empty for line (startIndex === endIndex): ${line}`)
-        throw new Error(this.getGenericParsingError(urlForErrorMessages))
+  // For projects with multiple target frameworks, the lowest of the versions for each framework is used
+  private async getLatestCompatibleVersion(packageName: string, targetFrameworkMonikers: TargetFrameworkMoniker[]): Promise<string | null> {
+    const listedPackageName = Object.keys(nugetPackageCompatibilityList).find(name => name.toLowerCase() === packageName.toLowerCase())
+    let lowestVersion: string | null = null
+    for (const targetFrameworkMoniker of targetFrameworkMonikers) {
+      const listedMajorVersion = listedPackageName ? nugetPackageCompatibilityList[listedPackageName][targetFrameworkMoniker] : undefined
+      const version = listedMajorVersion !== undefined ?
+        await this.getHighestNugetPackageVersion(packageName, `${listedMajorVersion}.*`, targetFrameworkMoniker) :
+        await this.getLatestNugetPackageVersion(packageName, targetFrameworkMoniker)
+      if (version === null) {
+        return null
       }
-
-      const val = line.substring(startIndex, endIndex).trim()
-
-      if (!val) {
-        trace(`the span value was empty for line: ${line}`)
-        throw new Error(this.getGenericParsingError(urlForErrorMessages))
+      if (lowestVersion === null || compareNugetVersions(version, lowestVersion) < 0) {
+        lowestVersion = version
       }
-
-      compatibleFrameworks.push({ targetFrameworkMoniker: val, isDirect: isDirectCompatibility })
     }
-
-    return compatibleFrameworks
+    return lowestVersion
   }
 
-  private getGenericParsingError(url: string) {
-    return `${this.genericParsingErrorMessage}${url}`
+  private async isPackageVersionCompatible(packageName: string, packageVersion: string, projectFramework: NugetFramework): Promise<boolean> {
+    const packageFrameworks = await this.getPackageFrameworks(packageName, packageVersion)
+    trace(`frameworks for ${packageName} ${packageVersion}: ${packageFrameworks.map(f => f.toString()).join(', ')}`)
+    // Packages without any framework-specific assets or dependency groups can be used by any project
+    return packageFrameworks.length === 0 || !!getNearestFramework(projectFramework, packageFrameworks)
   }
 
-  // Does not currently support pre-release versions (they will be ignored)
+  // Pre-release versions are ignored
   private getLatestMajorVersions(versions: NugetVersion[]): NugetVersion[] {
     const dict: { [majorVersion: number]: NugetVersion } = {}
 
@@ -194,7 +299,7 @@ export class NugetUtility {
 
     for (const v of versions) {
       if (v.suffix !== undefined) {
-        continue // Skip all pre-release package versions for now
+        continue // Skip pre-release package versions
       }
       if (!dict[v.major]) {
         dict[v.major] = v
@@ -228,26 +333,13 @@ export class NugetUtility {
 }
 
 /**
- * A `false` `isDirect` property denotes computed compatibility.
+ * Use this class to convert a package name and version string into an object. See {@link NugetSemanticVersion} for the supported version formats.
  */
-export interface NugetFrameworkCompatibility {
-  isDirect: boolean
-  targetFrameworkMoniker: string
-}
-
-/**
- * Use this class to convert a package name and version string into an object.
- */
-export class NugetVersion {
+export class NugetVersion extends NugetSemanticVersion {
   packageName: string
-  full: string
-  major: number
-  minor: number
-  patch: number
-  suffix?: string
 
   constructor(packageName: string, version: string) {
-    const dotnetVersion = new DotnetVersion(version)
+    super(version)
     if (!packageName || packageName.trim() !== packageName || packageName === '') {
       this.throwGenericError(`invalid package name: ${packageName}`)
     }
@@ -256,27 +348,15 @@ export class NugetVersion {
       this.throwGenericError(`url encoded package name is does not match the packageName: ${packageName}`)
     }
     this.packageName = urlEncodedPackageName
-    this.full = version
-    this.major = dotnetVersion.major
-    this.minor = dotnetVersion.minor
-    this.patch = dotnetVersion.patch
-    this.suffix = dotnetVersion.suffix
   }
 
-  /**
-   * **Important:** no pre-release version support (no suffix evaluation).
-   */
+  /** The prerelease part of the version, for example `rc.1` for `8.0.0-rc.1`, or undefined for release versions. */
+  get suffix(): string | undefined {
+    return this.release
+  }
+
   isMoreRecentThan = (otherVersion: NugetVersion) => {
-    if (this.suffix !== undefined || otherVersion.suffix !== undefined) {
-      throw new Error('No support for pre-release versions')
-    }
-    if (this.major !== otherVersion.major) {
-      return this.major > otherVersion.major
-    }
-    if (this.minor !== otherVersion.minor) {
-      return this.minor > otherVersion.minor
-    }
-    return this.patch > otherVersion.patch
+    return this.compareTo(otherVersion) > 0
   }
 
   private throwGenericError = (reason?: string) => {
@@ -287,88 +367,382 @@ export class NugetVersion {
 
 export interface INugetAccessor {
   getAllVersionsJson(packageName: string): Promise<string>
-  getPackageLandingPageHtml(packageName: string, packageVersion: string): Promise<string>
+  getCatalogEntryJson(packageName: string, packageVersion: string): Promise<string>
   getNuspec(packageName: string, versionString: string): Promise<string>
 }
 
+/**
+ * Options for {@link NugetAccessor}.
+ */
+export interface NugetAccessorOptions {
+  /**
+   * Defaults to `[nugetOrgFeed]`. The V3 feeds to get packages from (see {@link readNugetConfigFeeds} to use the feeds from a `nuget.config` file).
+   * Feeds are searched in order and the first feed that has the package is used for all requests for that package.
+   */
+  feeds: NugetFeed[]
+  /** Defaults to `node-cli-utils (+https://github.com/mikey-t/node-cli-utils)`. */
+  userAgent: string
+}
+
+const defaultUserAgent = 'node-cli-utils (+https://github.com/mikey-t/node-cli-utils)'
+
+// The newest registration resource type that the feed supports is used - see https://learn.microsoft.com/en-us/nuget/api/registration-base-url-resource
+const registrationsBaseUrlTypes = ['RegistrationsBaseUrl/3.6.0', 'RegistrationsBaseUrl/3.4.0', 'RegistrationsBaseUrl/3.0.0-rc', 'RegistrationsBaseUrl/3.0.0-beta', 'RegistrationsBaseUrl']
+
+/**
+ * A response from {@link NugetAccessor}. The body is empty for 304 and 404 responses.
+ */
+export interface NugetResponse {
+  status: number
+  body: string
+  etag?: string
+  lastModified?: string
+}
+
+interface NugetFeedEndpoints {
+  packageBaseAddress: string
+  registrationsBaseUrl?: string
+}
+
 // Important: at one point the API calls were working with PascalCase package ids, but it seems to have been changed to require all lowercase package ids now
 export class NugetAccessor implements INugetAccessor {
   private axiosInstance: AxiosInstance
   private readonly MAX_RETRIES = 3
+  private feeds: NugetFeed[]
+  private feedEndpoints = new Map<NugetFeed, Promise<NugetFeedEndpoints>>()
+  private packageFeeds = new Map<string, NugetFeed>()
 
-  constructor() {
+  constructor(options?: Partial<NugetAccessorOptions>) {
+    this.feeds = options?.feeds && options.feeds.length > 0 ? options.feeds : [nugetOrgFeed]
     this.axiosInstance = axios.create({
-      headers: { 'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/119.0.0.0 Safari/537.36' }
+      headers: { 'User-Agent': options?.userAgent ?? defaultUserAgent }
     })
   }
 
-  // Template URL: https://api.nuget.org/v3-flatcontainer/{package_id}/index.json
+  // Template URL: {PackageBaseAddress}/{package_id}/index.json
   // Example for EF package: https://api.nuget.org/v3-flatcontainer/microsoft.entityframeworkcore.design/index.json
-  getAllVersionsJson = async (packageName: string, numRetries = this.MAX_RETRIES): Promise<string> => {
-    const nugetVersionsUrl = NugetUtility.getVersionsJsonUrl(packageName)
-    trace(`getting all package versions json from url: ${nugetVersionsUrl}`)
-    try {
-      if (numRetries < this.MAX_RETRIES) {
-        await sleep(1500)
+  getAllVersionsJson = async (packageName: string): Promise<string> => {
+    const packageId = packageName.toLowerCase()
+    for (const feed of this.feeds) {
+      const endpoints = await this.getFeedEndpoints(feed)
+      const nugetVersionsUrl = `${endpoints.packageBaseAddress}${packageId}/index.json`
+      trace(`getting all package versions json from url: ${nugetVersionsUrl}`)
+      const versionsJson = await this.getTextOrUndefinedIfNotFound(nugetVersionsUrl, feed, `Error code attempting to retrieve all package versions: `, false)
+      if (versionsJson !== undefined) {
+        this.packageFeeds.set(packageId, feed)
+        return versionsJson
       }
-      const response: AxiosResponse = await this.axiosInstance.get(nugetVersionsUrl, { responseType: 'text' })
-      return response.data
-    } catch (err: unknown) {
-      if (numRetries > 0) {
-        trace(`error attempting to get json`, err)
-        trace(`trying again - num retries left: ${numRetries - 1}`)
-        return this.getAllVersionsJson(packageName, numRetries - 1)
+      trace(`package ${packageName} was not found in feed ${feed.name}`)
+    }
+    throw new Error(`Package ${packageName} was not found in any of the configured feeds: ${this.feeds.map(feed => feed.name).join(', ')}`)
+  }
+
+  // The registration leaf has a link to the catalog entry, which has the list of files in the package (packageEntries). Feeds without a catalog
+  // (some private feeds) embed the catalog entry in the registration leaf instead, usually without the packageEntries.
+  // Template URL: {RegistrationsBaseUrl}/{package_id}/{version}.json
+  // Example for EF package version 7.0.14: https://api.nuget.org/v3/registration5-gz-semver2/microsoft.entityframeworkcore.design/7.0.14.json
+  async getCatalogEntryJson(packageName: string, packageVersion: string): Promise<string> {
+    const packageId = packageName.toLowerCase()
+    const feed = await this.getPackageFeed(packageName)
+    const endpoints = await this.getFeedEndpoints(feed)
+    if (!endpoints.registrationsBaseUrl) {
+      trace(`feed ${feed.name} does not have a RegistrationsBaseUrl resource - returning empty catalog entry`)
+      return '{}'
+    }
+    const registrationLeafUrl = `${endpoints.registrationsBaseUrl}${packageId}/${packageVersion.toLowerCase()}.json`
+    trace(`getting registration leaf from url: ${registrationLeafUrl}`)
+    const registrationLeafJson = await this.getTextWithRetries(registrationLeafUrl, feed, `Error accessing ${registrationLeafUrl}: `, true)
+    let catalogEntry: unknown
+    try {
+      catalogEntry = JSON.parse(registrationLeafJson).catalogEntry
+    } catch (error) {
+      throw new Error(`Could not parse Nuget registration leaf - invalid JSON string: ${registrationLeafJson}`)
+    }
+    if (typeof catalogEntry === 'object' && catalogEntry !== null) {
+      return JSON.stringify(catalogEntry)
+    }
+    if (typeof catalogEntry !== 'string') {
+      throw new Error(`Could not parse Nuget registration leaf - the catalogEntry property is missing: ${registrationLeafUrl}`)
+    }
+    trace(`getting catalog entry from url: ${catalogEntry}`)
+    return await this.getTextWithRetries(catalogEntry, feed, `Error accessing ${catalogEntry}: `, true)
+  }
+
+  // Template URL: {PackageBaseAddress}/{package_id}/{version}/{package_id}.nuspec
+  // Example for EF package version 7.0.14: https://api.nuget.org/v3-flatcontainer/microsoft.entityframeworkcore.design/7.0.14/microsoft.entityframeworkcore.design.nuspec
+  async getNuspec(packageName: string, versionString: string): Promise<string> {
+    const packageId = packageName.toLowerCase()
+    const feed = await this.getPackageFeed(packageName)
+    const endpoints = await this.getFeedEndpoints(feed)
+    const nugetNuspecUrl = `${endpoints.packageBaseAddress}${packageId}/${versionString.toLowerCase()}/${packageId}.nuspec`
+    trace(`getting nuspec file from url: ${nugetNuspecUrl}`)
+    return await this.getTextWithRetries(nugetNuspecUrl, feed, `Error accessing ${nugetNuspecUrl}: `, true)
+  }
+
+  private async getPackageFeed(packageName: string): Promise<NugetFeed> {
+    if (!this.packageFeeds.has(packageName.toLowerCase())) {
+      await this.getAllVersionsJson(packageName)
+    }
+    return this.packageFeeds.get(packageName.toLowerCase())!
+  }
+
+  // Resolves the resource urls from the feed's service index - see https://learn.microsoft.com/en-us/nuget/api/service-index
+  private getFeedEndpoints(feed: NugetFeed): Promise<NugetFeedEndpoints> {
+    let endpoints = this.feedEndpoints.get(feed)
+    if (!endpoints) {
+      endpoints = this.getFeedEndpointsFromServiceIndex(feed)
+      this.feedEndpoints.set(feed, endpoints)
+      endpoints.catch(() => this.feedEndpoints.delete(feed))
+    }
+    return endpoints
+  }
+
+  private async getFeedEndpointsFromServiceIndex(feed: NugetFeed): Promise<NugetFeedEndpoints> {
+    trace(`getting service index for feed ${feed.name} from url: ${feed.url}`)
+    const serviceIndexJson = await this.getTextWithRetries(feed.url, feed, `Error accessing the service index for feed ${feed.name} (${feed.url}): `)
+    let resources: { '@id': string, '@type': string | string[] }[]
+    try {
+      resources = JSON.parse(serviceIndexJson).resources
+    } catch (error) {
+      throw new Error(`Could not parse the service index for feed ${feed.name} - invalid JSON string: ${serviceIndexJson}`)
+    }
+    if (!Array.isArray(resources)) {
+      throw new Error(`Could not parse the service index for feed ${feed.name} - the resources property is not an array`)
+    }
+    const findResource = (type: string) => resources.find(resource => ([] as string[]).concat(resource['@type']).includes(type))?.['@id']
+    const packageBaseAddress = findResource('PackageBaseAddress/3.0.0')
+    if (!packageBaseAddress) {
+      throw new Error(`The service index for feed ${feed.name} does not have a PackageBaseAddress/3.0.0 resource: ${feed.url}`)
+    }
+    const registrationsBaseUrl = registrationsBaseUrlTypes.map(findResource).find(url => url !== undefined)
+    return {
+      packageBaseAddress: withTrailingSlash(packageBaseAddress),
+      registrationsBaseUrl: registrationsBaseUrl ? withTrailingSlash(registrationsBaseUrl) : undefined
+    }
+  }
+
+  private async getTextWithRetries(url: string, feed: NugetFeed, errorMessage: string, immutable = false): Promise<string> {
+    return (await this.getTextOrUndefinedIfNotFound(url, feed, errorMessage, immutable, false))!
+  }
+
+  /**
+   * Get the response body for a url. Override this to add caching (see {@link CachingNugetAccessor}).
+   * @param immutable True for version-specific resources (nuspec files, registration leaves and catalog entries) that aren't expected to change.
+   * @param allowNotFound If true, undefined is returned for a 404 response instead of throwing an error.
+   */
+  protected async getTextOrUndefinedIfNotFound(url: string, feed: NugetFeed, errorMessage: string, immutable: boolean, allowNotFound = true): Promise<string | undefined> {
+    const response = await this.sendRequest(url, feed, errorMessage)
+    if (response.status === 404) {
+      if (allowNotFound) {
+        return undefined
       }
-      throw new ExtendedError(`Error code attempting to retrieve all package versions: `, getNormalizedError(err))
+      throw new Error(`${errorMessage}Request failed with status code 404`)
     }
+    return response.body
   }
 
-  // The code to calculate computed framework compatibility is quite complicated and there isn't an API endpoint. Instead of writing an entire app that
-  // pulls in the NuGet.Client SDK, I'm just going to grab the html from the nuget.org landing page for the package. For reference, here is the code that computes
-  // this for the nuget.org site: https://github.com/NuGet/NuGetGallery/blob/e6a38a882007374b320420645f63cc30f2a93e4d/src/NuGetGallery.Core/Services/AssetFrameworkHelper.cs
-  async getPackageLandingPageHtml(packageName: string, packageVersion: string, numRetries = this.MAX_RETRIES): Promise<string> {
-    const nugetPackageUrl = NugetUtility.getNugetLandingPageUrl(packageName, packageVersion)
-    trace(`getting nuget.org landing page html from url: ${nugetPackageUrl}`)
+  /**
+   * Send a GET request, retrying failures other than 401, 403 and 404 up to `maxRetries` times. Responses with a 304 or 404 status are returned
+   * rather than thrown.
+   */
+  protected async sendRequest(url: string, feed: NugetFeed, errorMessage: string, headers: { [name: string]: string } = {}, maxRetries = this.MAX_RETRIES, retryNumber = 0): Promise<NugetResponse> {
     try {
-      if (numRetries < this.MAX_RETRIES) {
+      if (retryNumber > 0) {
         await sleep(1500)
       }
-      const response: AxiosResponse = await this.axiosInstance.get(nugetPackageUrl, { responseType: 'text' })
-      return response.data
+      // Credentials are only sent to the feed's host in case the service index has resources on other hosts
+      const authorization = new URL(url).host === new URL(feed.url).host ? getNugetFeedAuthorizationHeader(feed) : undefined
+      const response: AxiosResponse = await this.axiosInstance.get(url, {
+        responseType: 'text',
+        headers: authorization ? { ...headers, Authorization: authorization } : headers,
+        validateStatus: status => (status >= 200 && status < 300) || status === 304 || status === 404
+      })
+      const getHeader = (name: string) => {
+        const value = response.headers[name]
+        return typeof value === 'string' ? value : undefined
+      }
+      return { status: response.status, body: response.data, etag: getHeader('etag'), lastModified: getHeader('last-modified') }
     } catch (err: unknown) {
-      if (numRetries > 0) {
-        trace(`error attempting to get landing page html`, err)
-        trace(`trying again - num retries left: ${numRetries - 1}`)
-        return this.getPackageLandingPageHtml(packageName, packageVersion, numRetries - 1)
+      const status = axios.isAxiosError(err) ? err.response?.status : undefined
+      if (retryNumber < maxRetries && status !== 401 && status !== 403) {
+        trace(`error attempting to get ${url}`, err)
+        trace(`trying again - num retries left: ${maxRetries - retryNumber - 1}`)
+        return await this.sendRequest(url, feed, errorMessage, headers, maxRetries, retryNumber + 1)
       }
-      throw new ExtendedError(`Error accessing ${nugetPackageUrl}: `, getNormalizedError(err))
+      throw new ExtendedError(errorMessage, getNormalizedError(err))
     }
   }
+}
 
-  // Template URL: https://api.nuget.org/v3-flatcontainer/{package_id}/{version}/{package_id}.nuspec
-  // Example for EF package version 7.0.14: https://api.nuget.org/v3-flatcontainer/microsoft.entityframeworkcore.design/7.0.14/microsoft.entityframeworkcore.design.nuspec
-  async getNuspec(packageName: string, versionString: string, numRetries = this.MAX_RETRIES): Promise<string> {
-    const nugetNuspecUrl = `https://api.nuget.org/v3-flatcontainer/${packageName}/${versionString}/${packageName}.nuspec`.toLocaleLowerCase()
-    trace(`getting nuspec file from url: ${nugetNuspecUrl}`)
+/** The default directory for cached NuGet responses: `~/.cache/node-cli-utils/nuget`. */
+export const defaultNugetCacheDir = path.join(os.homedir(), '.cache', 'node-cli-utils', 'nuget')
+
+/**
+ * Cache options for {@link CachingNugetAccessor}.
+ */
+export interface NugetCacheOptions {
+  /** Defaults to {@link defaultNugetCacheDir}. */
+  cacheDir: string
+  /**
+   * Defaults to 1 hour. How long cached service indexes and package version lists are used before they're revalidated with the feed. Revalidation
+   * uses the `ETag` and `Last-Modified` values from the cached response, so unchanged resources aren't downloaded again.
+   */
+  ttlMillis: number
+  /** Defaults to 30 days. Same as {@link ttlMillis}, but for version-specific resources (nuspec files and catalog entries), which don't change. */
+  immutableTtlMillis: number
+  /**
+   * Defaults to `false`. If `true`, no requests are made - cached responses are used regardless of their age and an error is thrown for anything
+   * that isn't cached. Note that cached responses are also used if a feed can't be reached when this option is `false`.
+   */
+  offline: boolean
+}
+
+/**
+ * Options for {@link CachingNugetAccessor}.
+ */
+export interface CachingNugetAccessorOptions extends NugetAccessorOptions, NugetCacheOptions { }
+
+interface NugetCacheEntry {
+  url: string
+  /** The time of the last request to the feed for the url, in milliseconds since the epoch. */
+  fetchedAt: number
+  notFound?: boolean
+  body?: string
+  etag?: string
+  lastModified?: string
+}
+
+/**
+ * A {@link NugetAccessor} that stores responses on disk so repeated runs don't make the same requests, and so package versions can still be looked
+ * up when the feeds can't be reached (see {@link NugetCacheOptions}). One file is stored per url. Note that responses from private feeds are
+ * cached as well, so use a `cacheDir` that only your user can read if that matters.
+ */
+export class CachingNugetAccessor extends NugetAccessor {
+  private cacheDir: string
+  private ttlMillis: number
+  private immutableTtlMillis: number
+  private offline: boolean
+
+  constructor(options?: Partial<CachingNugetAccessorOptions>) {
+    super(options)
+    this.cacheDir = options?.cacheDir ?? defaultNugetCacheDir
+    this.ttlMillis = options?.ttlMillis ?? 60 * 60 * 1000
+    this.immutableTtlMillis = options?.immutableTtlMillis ?? 30 * 24 * 60 * 60 * 1000
+    this.offline = options?.offline ?? false
+  }
+
+  /** Delete all cached responses. */
+  clearCache = async (): Promise<void> => {
+    trace(`deleting nuget cache directory ${this.cacheDir}`)
+    await fsp.rm(this.cacheDir, { recursive: true, force: true })
+  }
+
+  protected override async getTextOrUndefinedIfNotFound(url: string, feed: NugetFeed, errorMessage: string, immutable: boolean, allowNotFound = true): Promise<string | undefined> {
+    const entry = await this.readEntry(url)
+    const ttlMillis = immutable ? this.immutableTtlMillis : this.ttlMillis
+    if (entry && (this.offline || Date.now() - entry.fetchedAt < ttlMillis)) {
+      trace(`using cached response for ${url}`)
+      return getEntryText(entry, errorMessage, allowNotFound)
+    }
+    if (this.offline) {
+      throw new Error(`${errorMessage}No cached response is available in offline mode`)
+    }
+
+    let response
     try {
-      if (numRetries < this.MAX_RETRIES) {
-        await sleep(1500)
+      // With a cached response to fall back on, only one attempt is made so an unreachable feed doesn't cause retry delays
+      response = await this.sendRequest(url, feed, errorMessage, entry ? getRevalidationHeaders(entry) : {}, entry ? 0 : undefined)
+    } catch (err) {
+      if (!entry) {
+        throw err
       }
-      const response: AxiosResponse = await this.axiosInstance.get(nugetNuspecUrl, { responseType: 'text' })
-      return response.data
-    } catch (err: unknown) {
-      if (numRetries > 0) {
-        trace(`error attempting to get nuspec ${nugetNuspecUrl}`, err)
-        trace(`trying again - num retries left: ${numRetries - 1}`)
-        return this.getNuspec(packageName, versionString, numRetries - 1)
+      trace(`unable to revalidate cached response for ${url} - using the response cached at ${new Date(entry.fetchedAt).toISOString()}`, err)
+      return getEntryText(entry, errorMessage, allowNotFound)
+    }
+
+    let newEntry: NugetCacheEntry
+    if (response.status === 304 && entry) {
+      trace(`cached response for ${url} is still valid`)
+      newEntry = { ...entry, fetchedAt: Date.now() }
+    } else if (response.status === 404) {
+      newEntry = { url, fetchedAt: Date.now(), notFound: true }
+    } else {
+      newEntry = { url, fetchedAt: Date.now(), body: response.body, etag: response.etag, lastModified: response.lastModified }
+    }
+    await this.writeEntry(newEntry)
+    return getEntryText(newEntry, errorMessage, allowNotFound)
+  }
+
+  private getEntryPath(url: string): string {
+    return path.join(this.cacheDir, `${createHash('sha256').update(url).digest('hex')}.json`)
+  }
+
+  private async readEntry(url: string): Promise<NugetCacheEntry | undefined> {
+    const entryPath = this.getEntryPath(url)
+    try {
+      const entry: NugetCacheEntry = JSON.parse(await fsp.readFile(entryPath, 'utf-8'))
+      return entry.url === url && typeof entry.fetchedAt === 'number' ? entry : undefined
+    } catch (err) {
+      if (!isErrorEnoent(err)) {
+        trace(`ignoring invalid nuget cache entry ${entryPath}`, err)
       }
-      throw new ExtendedError(`Error accessing ${nugetNuspecUrl}: `, getNormalizedError(err))
+      return undefined
+    }
+  }
+
+  // Failing to write to the cache shouldn't fail the request, so errors are only traced
+  private async writeEntry(entry: NugetCacheEntry) {
+    const entryPath = this.getEntryPath(entry.url)
+    const tempPath = `${entryPath}.${process.pid}.tmp`
+    try {
+      await mkdirp(this.cacheDir)
+      // Write to a temp file first so concurrent processes never read a partially written entry
+      await fsp.writeFile(tempPath, JSON.stringify(entry))
+      await fsp.rename(tempPath, entryPath)
+    } catch (err) {
+      trace(`unable to write nuget cache entry ${entryPath}`, err)
     }
   }
 }
 
+function getEntryText(entry: NugetCacheEntry, errorMessage: string, allowNotFound: boolean): string | undefined {
+  if (!entry.notFound) {
+    return entry.body ?? ''
+  }
+  if (allowNotFound) {
+    return undefined
+  }
+  throw new Error(`${errorMessage}Request failed with status code 404`)
+}
+
+function getRevalidationHeaders(entry: NugetCacheEntry): { [name: string]: string } {
+  const headers: { [name: string]: string } = {}
+  if (entry.etag) {
+    headers['If-None-Match'] = entry.etag
+  }
+  if (entry.lastModified) {
+    headers['If-Modified-Since'] = entry.lastModified
+  }
+  return headers
+}
+
+// False for prerelease versions and anything that isn't a plain version, such as version ranges, floating versions and MSBuild properties
+function isReleaseVersion(version: string): boolean {
+  try {
+    return !new NugetSemanticVersion(version).isPrerelease
+  } catch {
+    return false
+  }
+}
+
+function withTrailingSlash(url: string): string {
+  return url.endsWith('/') ? url : `${url}/`
+}
+
 const defaultNugetUtility = new NugetUtility()
 
 export const getLatestNugetPackageVersion = defaultNugetUtility.getLatestNugetPackageVersion
 export const validatePackageName = defaultNugetUtility.validatePackageName
 export const getLatestMajorNugetPackageVersion = defaultNugetUtility.getLatestMajorNugetPackageVersion
+export const getHighestNugetPackageVersion = defaultNugetUtility.getHighestNugetPackageVersion
+export const updateNugetPackagesToLatestCompatible = defaultNugetUtility.updatePackagesToLatestCompatible
@@ -0,0 +1,101 @@
+import { inspect } from 'node:util'
+// Type-only so that this module doesn't import anything that imports NodeCliUtilsConfig, which creates the config.secrets instance
+import type { StringKeyedDictionary } from './generalUtils.js'
+
+/** The text that registered secret values are replaced with. */
+export const redactedPlaceholder = '********'
+
+/**
+ * Env keys whose values are treated as secrets by {@link SecretRegistry.addSecretsFromEnv} and {@link addSecretsFromEnvFile}
+ * unless other patterns are passed. Matches keys such as `DB_PASSWORD`, `GITHUB_TOKEN`, `CLIENT_SECRET` and `STRIPE_API_KEY`.
+ */
+export const defaultSecretKeyPatterns: RegExp[] = [
+  /PASSWORD$/i,
+  /PASSWD$/i,
+  /(^|_)PWD$/i,
+  /TOKEN$/i,
+  /SECRET$/i,
+  /(^|_)API_?KEY$/i,
+  /PRIVATE_KEY$/i
+]
+
+/**
+ * A list of secret values that are replaced with {@link redactedPlaceholder} in everything logged through {@link log}, {@link logIf},
+ * {@link trace}, {@link traceIf} and {@link logError}, and in the messages of {@link SpawnError} and {@link SimpleSpawnError}.
+ *
+ * Use the singleton instance at `config.secrets` rather than creating a new instance.
+ *
+ * Note that output written directly to the console by spawned processes (for example with stdio set to `'inherit'`) is not redacted.
+ *
+ * @example
+ * ```
+ * config.secrets.addSecret(adminPassword)
+ * addSecretsFromEnvFile('.env') // DB_PASSWORD, GITHUB_TOKEN, etc.
+ * ```
+ */
+export class SecretRegistry {
+  private secrets = new Set<string>()
+
+  /** Register one or more secret values. Empty and whitespace-only values are ignored. */
+  addSecret(...values: string[]) {
+    for (const value of values) {
+      if (value && value.trim() !== '') {
+        this.secrets.add(value)
+      }
+    }
+  }
+
+  /**
+   * Register the values of env vars whose keys match one of the patterns.
+   * @param env Defaults to `process.env`.
+   * @param keyPatterns Defaults to {@link defaultSecretKeyPatterns}.
+   * @returns The keys that matched
+   */
+  addSecretsFromEnv(env: StringKeyedDictionary | NodeJS.ProcessEnv = process.env, keyPatterns: RegExp[] = defaultSecretKeyPatterns): string[] {
+    const matchedKeys = Object.keys(env).filter(key => keyPatterns.some(pattern => pattern.test(key)))
+    for (const key of matchedKeys) {
+      this.addSecret(env[key] ?? '')
+    }
+    return matchedKeys
+  }
+
+  /** Remove all registered secrets. */
+  clear() {
+    this.secrets.clear()
+  }
+
+  get size(): number {
+    return this.secrets.size
+  }
+
+  /** Returns the string with every registered secret replaced with {@link redactedPlaceholder}. */
+  redact(str: string): string {
+    if (this.secrets.size === 0 || !str) {
+      return str
+    }
+    // Longest first so that a secret containing another secret is fully replaced
+    const sortedSecrets = [...this.secrets].sort((a, b) => b.length - a.length)
+    return sortedSecrets.reduce((redacted, secret) => redacted.split(secret).join(redactedPlaceholder), str)
+  }
+
+  /**
+   * Redacts a list of values that are about to be logged. Strings are redacted directly. Other values (errors, objects, etc.) are passed
+   * through unchanged unless their formatted representation contains a secret, in which case the redacted formatted string is used instead.
+   */
+  redactLogData(data: unknown[]): unknown[] {
+    if (this.secrets.size === 0) {
+      return data
+    }
+    return data.map(item => {
+      if (typeof item === 'string') {
+        return this.redact(item)
+      }
+      if (item === null || item === undefined || typeof item === 'number' || typeof item === 'boolean') {
+        return item
+      }
+      const formatted = inspect(item)
+      const redacted = this.redact(formatted)
+      return redacted === formatted ? item : redacted
+    })
+  }
+}
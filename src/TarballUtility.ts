@@ -1,9 +1,10 @@
 import fs from 'node:fs'
 import path from 'node:path'
-import { ExtendedError, mkdirp, requireString, requireValidPath, spawnAsync, trace, whichSync } from './generalUtils.js'
+import { DryRunOptions, ExtendedError, mkdirp, requireString, requireValidPath, spawnAsync, stringToNonEmptyLines, trace, whichSync } from './generalUtils.js'
+import { isDryRun, logDryRun } from './generalUtilsInternal.js'
 import { config } from './NodeCliUtilsConfig.js'
 
-export interface CreateTarballOptions {
+export interface CreateTarballOptions extends DryRunOptions {
   /**
    * A list of files or directories to exclude from the tarball.
    * The paths should be relative to the directoryToTarball.
@@ -11,7 +12,7 @@ export interface CreateTarballOptions {
   excludes?: string[]
 }
 
-export interface TarballUnpackOptions {
+export interface TarballUnpackOptions extends DryRunOptions {
   createDirIfNotExists: boolean
   stripComponents: number
   throwOnNonEmptyUnpackDir: boolean
@@ -56,6 +57,7 @@ export class TarballUtility {
 
     const defaultOptions = { excludes: [] }
     const mergedOptions = { ...defaultOptions, ...options }
+    const dryRun = isDryRun(mergedOptions.dryRun)
 
     if (!this.whichSyncFn('tar').location) {
       throw new Error('tar command not found - please install tar on your OS to use this method, or consider using the npm package node-tar instead')
@@ -72,7 +74,11 @@ export class TarballUtility {
 
     if (!fs.existsSync(outputDirectory)) {
       trace(`tarballPath directory does not exist - creating '${outputDirectory}'`)
-      await this.mkdirpFn(outputDirectory)
+      if (dryRun) {
+        logDryRun(`would create directory: ${outputDirectory}`)
+      } else {
+        await this.mkdirpFn(outputDirectory)
+      }
     } else if (fs.existsSync(tarballPath)) {
       throw new Error(`tarballPath already exists - delete, move or rename it first: ${tarballPath}`)
     }
@@ -81,7 +87,7 @@ export class TarballUtility {
     const verboseFlag = config.traceEnabled ? ['-v'] : []
     const args = [...(verboseFlag), '-czf', tarballPath, '-C', directoryToTarballParentDir, ...excludesArgs, directoryToTarballName]
 
-    const result = await this.spawnAsyncFn('tar', args)
+    const result = await this.spawnAsyncFn('tar', args, { dryRun })
 
     if (result.code !== 0) {
       throw new Error(`tar command failed with code ${result.code}`)
@@ -107,6 +113,7 @@ export class TarballUtility {
 
     const defaultOptions = { createDirIfNotExists: false, stripComponents: 0, throwOnNonEmptyUnpackDir: true }
     const mergedOptions = { ...defaultOptions, ...options }
+    const dryRun = isDryRun(mergedOptions.dryRun)
 
     if (mergedOptions.stripComponents < 0) {
       throw new Error('stripComponents must be greater than or equal to 0 if provided')
@@ -119,20 +126,24 @@ export class TarballUtility {
     }
 
     if (mergedOptions.createDirIfNotExists && !unpackedDirExists) {
-      await this.tryCreateDirectory(unpackDirectory)
+      if (dryRun) {
+        logDryRun(`would create directory: ${unpackDirectory}`)
+      } else {
+        await this.tryCreateDirectory(unpackDirectory)
+      }
     }
 
     if (!mergedOptions.createDirIfNotExists && !unpackedDirExists) {
       throw new Error(`unpackDirectory does not exist: ${unpackDirectory}`)
     }
 
-    if (mergedOptions.throwOnNonEmptyUnpackDir && this.dirIsNotEmpty(unpackDirectory)) {
+    if (mergedOptions.throwOnNonEmptyUnpackDir && fs.existsSync(unpackDirectory) && this.dirIsNotEmpty(unpackDirectory)) {
       throw new Error(`unpackDirectory exists but is not empty: ${unpackDirectory}`)
     }
 
     const verboseFlag = config.traceEnabled ? ['-v'] : []
     const args = [...(verboseFlag), '-xzf', tarballPath, '-C', unpackDirectory, '--strip-components', mergedOptions.stripComponents.toString()]
-    const result = await this.spawnAsyncFn('tar', args)
+    const result = await this.spawnAsyncFn('tar', args, { dryRun })
 
     if (result.code !== 0) {
       throw new Error(`tar command failed with code ${result.code}`)
@@ -141,6 +152,29 @@ export class TarballUtility {
     trace(`tarball unpacked at ${unpackDirectory}`)
   }
 
+  /**
+   * Lists the entries of a gzipped tarball by spawning OS-installed `tar` with `-tzf`. This is read-only, so it runs even in dry run mode. Useful for
+   * validating a tarball before doing something destructive with it.
+   * @param tarballPath The path to the tarball
+   * @returns The entry paths as written in the tarball, for example `dirToTarball/test1.txt` for a tarball created with {@link createTarball}
+   * @throws An {@link Error} if the tarball can't be read (for example if it's corrupt or not gzipped)
+   */
+  getTarballEntries = async (tarballPath: string): Promise<string[]> => {
+    requireValidPath('tarballPath', tarballPath)
+
+    if (!this.whichSyncFn('tar').location) {
+      throw new Error('tar command not found - please install tar on your OS to use this method, or consider using the npm package node-tar instead')
+    }
+
+    const result = await this.spawnAsyncFn('tar', ['-tzf', tarballPath], { stdio: 'pipe', throwOnNonZero: false, dryRun: false })
+
+    if (result.code !== 0) {
+      throw new Error(`tar command failed with code ${result.code} - the tarball may be corrupt: ${tarballPath}`)
+    }
+
+    return stringToNonEmptyLines(result.stdout)
+  }
+
   /**
    * A more opinionated version of {@link unpackTarball} that assumes you want to create the directory and strip the first directory out of the unpacked files.
    * @param tarballPath The path to the tarball to unpack
@@ -184,3 +218,4 @@ const defaultUtil = new TarballUtility()
 export const createTarball = defaultUtil.createTarball
 export const unpackTarball = defaultUtil.unpackTarball
 export const unpackTarballContents = defaultUtil.unpackTarballContents
+export const getTarballEntries = defaultUtil.getTarballEntries
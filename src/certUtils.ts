@@ -2,6 +2,7 @@ import fs from 'node:fs'
 import fsp from 'node:fs/promises'
 import path from 'node:path'
 import {
+  DryRunOptions,
   Emoji,
   SpawnOptionsWithThrow,
   SpawnResult,
@@ -9,6 +10,8 @@ import {
   getPowershellHackArgs,
   isPlatformMac,
   isPlatformWindows,
+  log,
+  logError,
   logIf,
   requireString,
   requireValidPath,
@@ -18,6 +21,7 @@ import {
   whichSync
 } from './generalUtils.js'
 import { red } from './colors.js'
+import { isDryRun, logDryRun, logDryRunFileChange } from './generalUtilsInternal.js'
 
 /** Control what is logged when running certUtils functions. */
 export interface CertLogOptions {
@@ -27,7 +31,10 @@ export interface CertLogOptions {
   logSuccess: boolean
 }
 
-export interface GenerateCertOptions extends CertLogOptions {
+/** Options for {@link winInstallCert} and {@link winUninstallCert}. */
+export interface CertInstallOptions extends CertLogOptions, DryRunOptions { }
+
+export interface GenerateCertOptions extends CertLogOptions, DryRunOptions {
   /** The directory to write the generated cert files to. Defaults to `./cert`. */
   outputDirectory: string
 }
@@ -61,7 +68,8 @@ export async function generateCertWithOpenSsl(url: string, options?: Partial<Gen
 
   const mergedOptions: GenerateCertOptions = { ...defaultCertLogOptions, outputDirectory: './cert', ...options }
 
-  const spawnArgs: Partial<SpawnOptionsWithThrow> = { cwd: mergedOptions.outputDirectory, stdio: mergedOptions.logSpawnOutput ? 'inherit' : 'pipe' }
+  const dryRun = isDryRun(mergedOptions.dryRun)
+  const spawnArgs: Partial<SpawnOptionsWithThrow> = { cwd: mergedOptions.outputDirectory, stdio: mergedOptions.logSpawnOutput ? 'inherit' : 'pipe', dryRun }
 
   logIf(mergedOptions.logTraceMessages, 'checking if openssl is installed')
 
@@ -85,7 +93,11 @@ export async function generateCertWithOpenSsl(url: string, options?: Partial<Gen
     }
   }
 
-  ensureDirectory(mergedOptions.outputDirectory)
+  if (dryRun && !fs.existsSync(mergedOptions.outputDirectory)) {
+    logDryRun(`would create directory: ${mergedOptions.outputDirectory}`)
+  } else {
+    await ensureDirectory(mergedOptions.outputDirectory)
+  }
   const crtName = url + '.crt'
   const keyName = url + '.key'
   const pfxName = url + '.pfx'
@@ -102,7 +114,11 @@ export async function generateCertWithOpenSsl(url: string, options?: Partial<Gen
   logIf(mergedOptions.logTraceMessages, `writing ${sanCnfName} file for use with openssl command`)
   const sanCnfContents = getSanCnfFileContents(url)
   const sanCnfPath = path.join(mergedOptions.outputDirectory, sanCnfName)
-  await fsp.writeFile(sanCnfPath, sanCnfContents)
+  if (dryRun) {
+    logDryRunFileChange(sanCnfPath, undefined, sanCnfContents)
+  } else {
+    await fsp.writeFile(sanCnfPath, sanCnfContents)
+  }
 
   logIf(mergedOptions.logTraceMessages, `attempting to generate cert ${pfxName}`)
   const genKeyAndCrtArgs = `req -x509 -newkey rsa:4096 -sha256 -days 3650 -nodes -keyout ${keyName} -out ${crtName} -subj /CN=${url} -config ${sanCnfName}`.split(' ')
@@ -127,7 +143,7 @@ export async function generateCertWithOpenSsl(url: string, options?: Partial<Gen
  * If the cert is already installed, this function will do nothing.
  * @param pfxPath The path to the pfx file to install.
  */
-export async function winInstallCert(pfxPath: string, options?: Partial<CertLogOptions>) {
+export async function winInstallCert(pfxPath: string, options?: Partial<CertInstallOptions>) {
   if (!isPlatformWindows()) {
     throw Error('winInstallCert is only supported on Windows')
   }
@@ -146,7 +162,7 @@ export async function winInstallCert(pfxPath: string, options?: Partial<CertLogO
   logIf(mergedOptions.logTraceMessages, `installing cert '${pfxPath}'`)
 
   const psCommandArgs = getPowershellHackArgs(`Import-PfxCertificate -FilePath '${pfxPath}' -CertStoreLocation Cert:\\LocalMachine\\Root`)
-  const result = await spawnAsync('powershell', psCommandArgs, { stdio: mergedOptions.logSpawnOutput ? 'inherit' : 'pipe' })
+  const result = await spawnAsync('powershell', psCommandArgs, { stdio: mergedOptions.logSpawnOutput ? 'inherit' : 'pipe', dryRun: mergedOptions.dryRun })
 
   throwIfSpawnResultError(result)
 
@@ -184,7 +200,7 @@ export async function winCertIsInstalled(identifier: CertIdentifierWithoutThumbp
   const tracePart = (typeof identifier === 'string') ? `subject ${identifier}` : `pfxPath ${identifier.pfxPath}`
   logIf(mergedOptions.logTraceMessages, `checking if cert with ${tracePart} is already installed`)
 
-  const result = await spawnAsync('powershell', psCommandArgs, { stdio: 'pipe' })
+  const result = await spawnAsync('powershell', psCommandArgs, { stdio: 'pipe', dryRun: false })
 
   throwIfSpawnResultError(result)
 
@@ -202,7 +218,7 @@ export async function winCertIsInstalled(identifier: CertIdentifierWithoutThumbp
  * @param identifier The subject, thumbprint or path to the pfx file of the cert to uninstall.
  * @param options Options for uninstalling the cert.
  */
-export async function winUninstallCert(identifier: CertIdentifier, options?: Partial<CertLogOptions>) {
+export async function winUninstallCert(identifier: CertIdentifier, options?: Partial<CertInstallOptions>) {
   if (!isPlatformWindows()) {
     throw new Error('winUninstallCert is only supported on Windows')
   }
@@ -228,7 +244,7 @@ export async function winUninstallCert(identifier: CertIdentifier, options?: Par
   const tracePart = typeof identifier === 'string' ? `'${identifier}'` : JSON.stringify(identifier)
   logIf(mergedOptions.logTraceMessages, `uninstalling cert ${tracePart}`)
 
-  const result = await spawnAsync('powershell', psCommandArgs, { stdio: mergedOptions.logSpawnOutput ? 'inherit' : 'pipe' })
+  const result = await spawnAsync('powershell', psCommandArgs, { stdio: mergedOptions.logSpawnOutput ? 'inherit' : 'pipe', dryRun: mergedOptions.dryRun })
 
   throwIfSpawnResultError(result)
 
@@ -247,7 +263,7 @@ export async function winGetPfxInfo(pfxPath: string): Promise<CertInfo> {
   validatePfxPath(pfxPath)
 
   const psCommandArgs = getPowershellHackArgs(`Get-PfxCertificate -FilePath '${pfxPath}' | Select-Object -Property Subject, Thumbprint, @{Name='PfxPath';Expression={'${pfxPath}'}} | ConvertTo-Json`)
-  const result = await spawnAsync('powershell', psCommandArgs, { stdio: 'pipe' })
+  const result = await spawnAsync('powershell', psCommandArgs, { stdio: 'pipe', dryRun: false })
 
   throwIfSpawnResultError(result)
 
@@ -275,7 +291,7 @@ Manual Instructions:
 - Check box for "Trust certificate for identifying websites"
 - Click OK
 - Reload site`
-  console.log(instructions)
+  log(instructions)
 }
 
 function throwIfMaybeBadUrlChars(url: string, varName = 'url') {
@@ -291,7 +307,7 @@ function throwIfMaybeBadUrlChars(url: string, varName = 'url') {
 }
 
 function getBrewOpensslPath(): string {
-  const brewResult = simpleSpawnSync('brew', ['--prefix', 'openssl'])
+  const brewResult = simpleSpawnSync('brew', ['--prefix', 'openssl'], { dryRun: false })
   if (brewResult.error) {
     throw Error('error attempting to find openssl installed by brew')
   }
@@ -322,7 +338,7 @@ function throwIfSpawnResultError(result: SpawnResult) {
   if (result.code !== 0) {
     // There won't be any stderr if stdio was set to 'inherit', so we're checking first
     if (result.stderr) {
-      console.error(red('Error:'), result.stderr)
+      logError(red('Error:'), result.stderr)
     }
     throw Error(`Spawned command failed with exit code ${result.code}`)
   }
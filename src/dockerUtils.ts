@@ -1,9 +1,10 @@
 import { execSync } from 'child_process'
 import fs from 'node:fs'
 import path from 'path'
-import { config } from './NodeCliUtilsConfig.js'
-import { Emoji, ExtendedError, SimpleSpawnResult, getNormalizedError, getPowershellHackArgs, isPlatformLinux, isPlatformWindows, log, requireString, requireValidPath, simpleSpawnAsync, spawnAsync, toWslPath, trace, which, withRetryAsync, wslPathExists } from './generalUtils.js'
-import { SpawnOptionsInternal, spawnAsyncInternal, throwIfDockerNotReady } from './generalUtilsInternal.js'
+import { ContainerEngine, config } from './NodeCliUtilsConfig.js'
+import { getTarballEntries } from './TarballUtility.js'
+import { DryRunOptions, Emoji, ExtendedError, SimpleSpawnError, SimpleSpawnOptions, SimpleSpawnResult, SpawnError, SpawnResult, StringKeyedDictionary, getConfirmation, getNormalizedError, getPowershellHackArgs, isPlatformLinux, isPlatformWindows, isPortAvailable, log, mkdirp, requireString, requireValidPath, simpleSpawnAsync, sleep, spawnAsync, stringToNonEmptyLines, toWslPath, trace, which, whichSync, withRetryAsync, wslPathExists } from './generalUtils.js'
+import { SpawnOptionsInternal, isDryRun, logDryRun, logDryRunSpawn, spawnAsyncInternal } from './generalUtilsInternal.js'
 
 /**
  * Type guard for command passed to {@link spawnDockerCompose}.
@@ -54,7 +55,7 @@ export function isValidDockerContainerName(containerName: string) {
  * @param attached Default: false. All commands that support the detached option wil use it unless attached is specified as true (-d support: exec, logs, ps, restart, run, start, stop, up)
  * @param useDockerComposeFileDirectoryAsCwd Default: false. If true, the docker compose command will be run in the directory containing the docker compose file.
  */
-export interface DockerComposeOptions {
+export interface DockerComposeOptions extends DryRunOptions {
   /** Additional arguments to pass to the docker-compose command. */
   args: string[]
 
@@ -92,11 +93,11 @@ export interface DockerComposeOptions {
   projectName?: string
 
   /**
-   * Optional. If provided, profile is passed to docker compose along with `--profile` param. Must match this regex: `[a-zA-Z0-9][a-zA-Z0-9_.-]+`.
+   * Optional. If provided, each profile is passed to docker compose along with a `--profile` param. Each profile must match this regex: `[a-zA-Z0-9][a-zA-Z0-9_.-]+`.
    * 
    * See https://docs.docker.com/compose/profiles/.
    */
-  profile?: string
+  profile?: string | string[]
 
   /**
    * The option `useWslPrefix` set to `true` can be used If Docker Desktop is not installed on Windows and docker commands need to execute via wsl.
@@ -104,42 +105,51 @@ export interface DockerComposeOptions {
   useWslPrefix?: boolean
 
   /**
-   * Specify an alternative env file. This is useful since docker will normally only use a `.env` file in the same directory as the docker-compose.yml file,
-   * regardless of the current working directory of the running command. This path will be passed to docker compose using the `--env-file` option.
+   * Specify one or more alternative env files. This is useful since docker will normally only use a `.env` file in the same directory as the docker-compose.yml file,
+   * regardless of the current working directory of the running command. Each path will be passed to docker compose using the `--env-file` option. When there
+   * is more than one, values in later files override values in earlier files.
    * 
    * **Important:** if using a relative path, be sure pass the appropriate value for {@link cwd} to this method so that the relative path can correctly be resolved.
    */
-  altEnvFilePath?: string
+  altEnvFilePath?: string | string[]
 }
 
 /**
  * For docker compose commands, see https://docs.docker.com/compose/reference/. For available options for this wrapper function, see {@link DockerComposeOptions}.
  * 
- * The current working directory will be the directory of the {@link dockerComposePath} unless specified in the options. This ensures relative paths in the
- * docker compose file will be relative to itself by default.
+ * The current working directory will be the directory of the {@link dockerComposePath} (the first one if there is more than one) unless specified in the
+ * options. This ensures relative paths in the docker compose file will be relative to itself by default.
+ * 
+ * To layer compose files (for example `docker-compose.yml` with `docker-compose.override.yml` and a CI-specific file), pass an array of paths. Each one is
+ * passed with its own `-f` option in the order provided, so later files override earlier ones.
  * 
  * See {@link DockerComposeOptions.projectName} for info on where to locate your docker compose file and how to specify the docker project name.
- * @param dockerComposePath Path to docker-compose.yml
+ * @param dockerComposePath Path to docker-compose.yml, or an array of paths to compose files
  * @param dockerComposeCommand The docker-compose command to run
  * @param options {@link DockerComposeOptions} to use, including additional arguments to pass to the docker compose command and the project name
  */
-export async function spawnDockerCompose(dockerComposePath: string, dockerComposeCommand: DockerComposeCommand, options?: Partial<DockerComposeOptions>): Promise<void> {
-  requireValidPath('dockerComposePath', dockerComposePath)
+export async function spawnDockerCompose(dockerComposePath: string | string[], dockerComposeCommand: DockerComposeCommand, options?: Partial<DockerComposeOptions>): Promise<void> {
+  const dockerComposePaths = toArray(dockerComposePath)
+  if (dockerComposePaths.length === 0) {
+    throw new Error('At least one docker compose path is required')
+  }
+  dockerComposePaths.forEach(composePath => requireValidPath('dockerComposePath', composePath))
   requireString('dockerComposeCommand', dockerComposeCommand)
   if (options?.cwd) {
     requireValidPath('cwd', options.cwd)
   }
-  if (options?.altEnvFilePath) {
-    requireValidPath('altEnvFilePath', options.altEnvFilePath)
-  }
+  const altEnvFilePaths = toArray(options?.altEnvFilePath)
+  altEnvFilePaths.forEach(envFilePath => requireValidPath('altEnvFilePath', envFilePath))
   if (options?.projectName && !isValidDockerComposeProjectName(options.projectName)) {
     throw new Error('Invalid docker compose project name specified for the projectName param. Project names must contain only lowercase letters, decimal digits, dashes, and underscores, and must begin with a lowercase letter or decimal digit.')
   }
-  if (options?.profile && !/[a-zA-Z0-9][a-zA-Z0-9_.-]+/.test(options.profile)) {
+  const profiles = toArray(options?.profile)
+  if (profiles.some(profile => !/[a-zA-Z0-9][a-zA-Z0-9_.-]+/.test(profile))) {
     throw new Error('Invalid profile option - must match regex: [a-zA-Z0-9][a-zA-Z0-9_.-]+')
   }
-  if (!await isDockerRunning()) {
-    throw new Error('Docker is not running')
+  const dryRun = isDryRun(options?.dryRun)
+  if (!dryRun && !await isDockerRunning()) {
+    throw new Error(`${getContainerEngine()} is not running`)
   }
 
   const defaultOptions: DockerComposeOptions = { args: [], attached: false, projectName: undefined, cwd: undefined }
@@ -148,37 +158,37 @@ export async function spawnDockerCompose(dockerComposePath: string, dockerCompos
     mergedOptions.useWslPrefix = config.useWslPrefixForDockerCommandsOnWindows
   }
 
-  const dockerComposeDir = path.dirname(dockerComposePath)
-  const dockerComposeFilename = path.basename(dockerComposePath)
-
   if (!mergedOptions.cwd) {
-    mergedOptions.cwd = dockerComposeDir
+    mergedOptions.cwd = path.dirname(dockerComposePaths[0])
   }
 
-  let dockerComposePathResolved = mergedOptions.cwd ? path.resolve(dockerComposePath) : dockerComposeFilename
-  if (mergedOptions.useWslPrefix) {
-    dockerComposePathResolved = toWslPath(dockerComposePathResolved)
-    if (!wslPathExists(dockerComposePathResolved)) {
-      log(`${Emoji.Warning} Warning: spawnDockerCompose is using the wsl command prefix but the wsl path to the docker compose isn't accessible: ${dockerComposePathResolved}`)
-      log(`Sometimes wsl "crashes" so that parts of it's filesystem disappear. If the windows version of the path definitely exists, try one of these options:`)
-      log(`- Restart wsl (first run "wsl --shutdown", wait a few seconds, and then "wsl")`)
-      log(`- Pass the 'useWslPrefix' option as 'false' to spawnDockerCompose`)
-      log(`- Import 'config' from node-cli-utils and set 'useWslPrefixForDockerCommandsOnWindows' to false`)
+  let spawnArgs = ['compose']
+
+  for (const composePath of dockerComposePaths) {
+    let dockerComposePathResolved = path.resolve(composePath)
+    if (mergedOptions.useWslPrefix) {
+      dockerComposePathResolved = toWslPath(dockerComposePathResolved)
+      if (!wslPathExists(dockerComposePathResolved)) {
+        log(`${Emoji.Warning} Warning: spawnDockerCompose is using the wsl command prefix but the wsl path to the docker compose isn't accessible: ${dockerComposePathResolved}`)
+        log(`Sometimes wsl "crashes" so that parts of it's filesystem disappear. If the windows version of the path definitely exists, try one of these options:`)
+        log(`- Restart wsl (first run "wsl --shutdown", wait a few seconds, and then "wsl")`)
+        log(`- Pass the 'useWslPrefix' option as 'false' to spawnDockerCompose`)
+        log(`- Import 'config' from node-cli-utils and set 'useWslPrefixForDockerCommandsOnWindows' to false`)
+      }
     }
+    spawnArgs.push('-f', dockerComposePathResolved)
   }
 
-  let spawnArgs = ['compose', '-f', dockerComposePathResolved]
-
   if (mergedOptions.projectName) {
     spawnArgs.push('--project-name', mergedOptions.projectName)
   }
 
-  if (mergedOptions.profile) {
-    spawnArgs.push('--profile', mergedOptions.profile)
+  for (const profile of profiles) {
+    spawnArgs.push('--profile', profile)
   }
 
-  if (mergedOptions.altEnvFilePath) {
-    spawnArgs.push('--env-file', mergedOptions.useWslPrefix ? toWslPath(mergedOptions.altEnvFilePath) : mergedOptions.altEnvFilePath)
+  for (const envFilePath of altEnvFilePaths) {
+    spawnArgs.push('--env-file', mergedOptions.useWslPrefix ? toWslPath(envFilePath) : envFilePath)
   }
 
   spawnArgs.push(dockerComposeCommand)
@@ -191,7 +201,8 @@ export async function spawnDockerCompose(dockerComposePath: string, dockerCompos
     spawnArgs = spawnArgs.concat(mergedOptions.args)
   }
 
-  trace(`running command in ${mergedOptions.cwd}: docker ${spawnArgs.join(' ')}`)
+  const engine = getContainerEngine()
+  trace(`running command in ${mergedOptions.cwd}: ${engine} ${spawnArgs.join(' ')}`)
 
   const longRunning = dockerComposeCommandsThatSupportDetached.includes(dockerComposeCommand) && options?.attached === true
 
@@ -201,12 +212,13 @@ export async function spawnDockerCompose(dockerComposePath: string, dockerCompos
     cwd: mergedOptions.cwd,
     shell: isPlatformWindows(), // Early termination with ctrl + C on windows will not be graceful unless the shell option is set to true
     isLongRunning: longRunning,
-    throwOnNonZero: false
+    throwOnNonZero: false,
+    dryRun: dryRun
   }
 
   const spawnResult = mergedOptions.useWslPrefix ?
-    await spawnAsyncInternal('wsl', ['docker', ...spawnArgs], spawnOptions) :
-    await spawnAsyncInternal('docker', spawnArgs, spawnOptions)
+    await spawnAsyncInternal('wsl', [engine, ...spawnArgs], spawnOptions) :
+    await spawnAsyncInternal(engine, spawnArgs, spawnOptions)
 
   // Code 130 is the code for ctrl-c, which we don't want to consider an error
   if (spawnResult.code !== 0 && spawnResult.code !== 130) {
@@ -216,42 +228,78 @@ export async function spawnDockerCompose(dockerComposePath: string, dockerCompos
 
 /**
  * Similar to {@link simpleSpawnAsync} but meant for `docker` calls only. Determines whether to run `docker` or `wsl docker` based
- * on platform being windows and config setting `useWslPrefixForDockerCommands`.
+ * on platform being windows and config setting `useWslPrefixForDockerCommands`. The `docker` command is replaced with the configured
+ * container engine (see {@link getContainerEngine}).
  * @param args The args to be passed to the docker command.
+ * @param options Optional {@link SimpleSpawnOptions} options
  */
-export async function simpleSpawnDockerAsync(args: string[]): Promise<SimpleSpawnResult> {
-  const command = config.useWslPrefixForDockerCommandsOnWindows ? 'wsl' : 'docker'
-  const spawnArgs = command === 'docker' ? args : ['docker', ...args]
-  return await simpleSpawnAsync(command, spawnArgs)
+export async function simpleSpawnDockerAsync(args: string[], options?: Partial<SimpleSpawnOptions>): Promise<SimpleSpawnResult> {
+  const [command, spawnArgs] = getDockerCommandAndArgs(args)
+  return await simpleSpawnAsync(command, spawnArgs, options)
+}
+
+const containerEngineDetectionOrder: ContainerEngine[] = ['docker', 'podman', 'nerdctl']
+let detectedContainerEngine: ContainerEngine | undefined
+
+/**
+ * Get the container engine CLI that the functions in this module use in place of `docker`. This is the config value `containerEngine` unless
+ * it's set to `'auto'` (the default), in which case the first of `docker`, `podman` and `nerdctl` found with {@link whichSync} is used. The
+ * detected engine is cached for the life of the process. If none are found (or docker commands use the wsl prefix), `docker` is used.
+ * 
+ * All three engines support the `compose` subcommand and the docker CLI commands used in this module, but note that `podman compose` delegates
+ * to an external compose provider (`docker-compose` or `podman-compose`), which must also be installed.
+ * @returns `'docker'`, `'podman'` or `'nerdctl'`
+ */
+export function getContainerEngine(): ContainerEngine {
+  if (config.containerEngine !== 'auto') {
+    return config.containerEngine
+  }
+  if (config.useWslPrefixForDockerCommandsOnWindows) {
+    return 'docker'
+  }
+  if (!detectedContainerEngine) {
+    detectedContainerEngine = containerEngineDetectionOrder.find(engine => !!whichSync(engine).location) ?? 'docker'
+    trace(`detected container engine: ${detectedContainerEngine}`)
+  }
+  return detectedContainerEngine
 }
 
 /**
-* Uses {@link which} to determine if docker is installed. If the `which` call doesn't find docker and the platform
-* is Windows, then this will check the output of `wsl docker --version` to see if just the engine is installed.
+* Uses {@link which} to determine if docker (or the configured container engine - see {@link getContainerEngine}) is installed. If the
+* `which` call doesn't find it and the platform is Windows, then this will check the output of `wsl docker --version` to see if just the
+* engine is installed.
 * @returns `true` if docker is installed, `false` otherwise
 */
 export async function isDockerInstalled(): Promise<boolean> {
-  if ((await which('docker')).location) {
+  const engine = getContainerEngine()
+  if ((await which(engine)).location) {
     return true
   }
   if (isPlatformWindows()) {
-    const result = await simpleSpawnAsync('wsl', ['docker', '--version'])
+    const result = await simpleSpawnAsync('wsl', [engine, '--version'], { throwOnNonZero: false, dryRun: false })
     return result.code === 0
   }
   return false
 }
 
 /**
- * Runs the `docker info` command and looks for "error during connect" in the output to determine if docker is running. If you
- * want to check if docker is installed, use {@link isDockerInstalled}.
+ * Runs the `docker info` command (or `podman info` or `nerdctl info` - see {@link getContainerEngine}) to determine if the engine is
+ * ready. For docker, the output is also checked for "error during connect". If you want to check if docker is installed, use {@link isDockerInstalled}.
+ * 
+ * Note that rootless podman doesn't have a daemon on Linux, so `podman info` succeeds whenever podman is installed. On Windows and Mac,
+ * it fails if the podman machine isn't running.
  * @returns `true` if docker is installed and running, `false` otherwise
  */
 export async function isDockerRunning(): Promise<boolean> {
+  const engine = getContainerEngine()
   try {
     const result = isPlatformWindows() ?
-      await simpleSpawnAsync('wsl', ['docker', 'info']) :
-      await simpleSpawnAsync('docker', ['info'])
-    return result.code === 0 && !result.stdout.includes('error during connect')
+      await simpleSpawnAsync('wsl', [engine, 'info'], { dryRun: false }) :
+      await simpleSpawnAsync(engine, ['info'], { dryRun: false })
+    if (result.code !== 0) {
+      return false
+    }
+    return engine !== 'docker' || !result.stdout.includes('error during connect')
   } catch (err) {
     return false
   }
@@ -268,55 +316,87 @@ export async function isDockerRunning(): Promise<boolean> {
  * - Not currently supported on Mac
  * - If you're on Windows and have Docker Desktop but it is stopped and you're in a WSL shell, docker will appear as if it's not installed and this method will throw
  * 
+ * If the container engine is podman (see {@link getContainerEngine}), `podman machine start` is run on Windows and Mac. On Linux, podman doesn't
+ * need a service to be started, so an error is thrown if it isn't ready. If the container engine is nerdctl, `sudo service containerd start` is
+ * run on Linux and other platforms aren't supported.
+ * 
  * @throws An {@link Error} If docker is not detected on the system.
  * @throws An {@link Error} if docker is detected as installed and not running but the OS is Mac.
  */
 export async function ensureDockerRunning(): Promise<void> {
+  const engine = getContainerEngine()
   if (!await isDockerInstalled()) {
-    throw new Error('Docker does not appear to be installed')
+    throw new Error(`${engine === 'docker' ? 'Docker' : engine} does not appear to be installed`)
   }
 
   if (await isDockerRunning()) {
     return
   }
 
-  let command: string
-  let args: string[] = []
   const isWindows = isPlatformWindows()
-  const isLinux = isPlatformLinux()
-  const dockerDesktopPath = 'C:\\Program Files\\Docker\\Docker\\Docker Desktop.exe'
-  let useExec = false
+  const startCommand = getContainerEngineStartCommand(engine)
 
-  if (isWindows) {
-    if (fs.existsSync(dockerDesktopPath)) {
-      command = 'powershell'
-      args = getPowershellHackArgs(`Start-Process 'C:\\Program Files\\Docker\\Docker\\Docker Desktop.exe' -NoNewWindow`)
-    } else {
-      command = 'C:\\windows\\system32\\wsl.exe -u root -e sh -c "service docker start"'
-      useExec = true
-    }
-  } else if (isLinux) {
-    command = 'sudo'
-    args = ['service', 'docker', 'start']
-  } else {
-    throw new Error('Starting docker within ensureDockerRunning is only supported on Windows and Linux - you will have to start docker manually')
+  if (isDryRun()) {
+    logDryRunSpawn(startCommand.command, startCommand.args)
+    return
   }
 
-  if (useExec) {
+  if (startCommand.useExec) {
     try {
-      execSync(command, { stdio: 'inherit' })
+      execSync(startCommand.command, { stdio: 'inherit' })
     } catch (err) {
-      throw new ExtendedError('Unable to start docker', getNormalizedError(err))
+      throw new ExtendedError(`Unable to start ${engine}`, getNormalizedError(err))
     }
   } else {
-    const result = await spawnAsync(command, args, { shell: isWindows })
+    const result = await spawnAsync(startCommand.command, startCommand.args, { shell: isWindows })
     if (result.code !== 0) {
-      throw new Error('Unable to start docker - see error above')
+      throw new Error(`Unable to start ${engine} - see error above`)
+    }
+  }
+
+  // Wait for the engine to be up and ready before continuing
+  await withRetryAsync(async () => {
+    if (!await isDockerRunning()) {
+      throw new Error(`${engine} is not ready`)
     }
+  }, 6, 3000, { initialDelayMilliseconds: 3000 })
+}
+
+interface ContainerEngineStartCommand {
+  command: string
+  args: string[]
+  useExec: boolean
+}
+
+function getContainerEngineStartCommand(engine: ContainerEngine): ContainerEngineStartCommand {
+  const isWindows = isPlatformWindows()
+  const isLinux = isPlatformLinux()
+
+  if (engine === 'podman') {
+    if (isLinux) {
+      throw new Error('podman info failed - podman does not run as a service on Linux, so check the podman installation and configuration')
+    }
+    return { command: 'podman', args: ['machine', 'start'], useExec: false }
   }
 
-  // Wait for docker to be up and ready before continuing
-  await withRetryAsync(throwIfDockerNotReady, 6, 3000, { initialDelayMilliseconds: 3000 })
+  if (engine === 'nerdctl') {
+    if (!isLinux) {
+      throw new Error('Starting containerd within ensureDockerRunning is only supported on Linux - you will have to start it manually')
+    }
+    return { command: 'sudo', args: ['service', 'containerd', 'start'], useExec: false }
+  }
+
+  const dockerDesktopPath = 'C:\\Program Files\\Docker\\Docker\\Docker Desktop.exe'
+  if (isWindows) {
+    if (fs.existsSync(dockerDesktopPath)) {
+      return { command: 'powershell', args: getPowershellHackArgs(`Start-Process 'C:\\Program Files\\Docker\\Docker\\Docker Desktop.exe' -NoNewWindow`), useExec: false }
+    }
+    return { command: 'C:\\windows\\system32\\wsl.exe -u root -e sh -c "service docker start"', args: [], useExec: true }
+  }
+  if (isLinux) {
+    return { command: 'sudo', args: ['service', 'docker', 'start'], useExec: false }
+  }
+  throw new Error('Starting docker within ensureDockerRunning is only supported on Windows and Linux - you will have to start docker manually')
 }
 
 /**
@@ -356,26 +436,31 @@ export async function deleteDockerComposeVolume(volumeName: string): Promise<voi
  * compose will use. This is needed because docker compose will prefix the volume name with the compose project name (directory name or env
  * `COMPOSE_PROJECT_NAME` or `-p` passed to docker compose commands).
  * 
- * This function respects the `useWslPrefixForDockerCommands` config option. See also: {@link deleteDockerComposeVolume}.
+ * This function respects the `useWslPrefixForDockerCommands` config option. See also: {@link deleteDockerComposeVolume}. To look up more than
+ * one value from the docker compose config or to use a specific compose file, use {@link DockerComposeConfig.load} instead.
  * @param volumeName The volume name as defined in the `docker-compose.yml` file.
+ * @param dockerComposePath Optional. The docker compose file to use. If not provided, docker compose will look for a compose file in the current working directory.
  * @returns The full name of the docker-compose-actualized docker volume.
  */
-export async function getDockerComposeVolumeName(volumeName: string): Promise<string | undefined> {
-  const result = await simpleSpawnDockerAsync(['compose', 'config', '--format', 'json'])
+export async function getDockerComposeVolumeName(volumeName: string, dockerComposePath?: string): Promise<string | undefined> {
+  if (dockerComposePath) {
+    return (await DockerComposeConfig.load(dockerComposePath)).getVolume(volumeName)?.name
+  }
+  const result = await simpleSpawnDockerAsync(['compose', 'config', '--format', 'json'], { dryRun: false })
   const composeConfigJson = JSON.parse(result.stdout)
   return composeConfigJson?.volumes?.[volumeName]?.name
 }
 
 /**
- * Check if a docker volume exists based on inclusion of the specified `volumeName` in any of the output lines of `docker volume ls`.
+ * Check if a docker volume exists by looking for an exact match of the specified `volumeName` in the output of `docker volume ls --quiet`.
  * 
  * This function respects the `useWslPrefixForDockerCommands` config option. See also: {@link deleteDockerComposeVolume}.
  * @param volumeName The docker volume name to check.
  * @returns `true` if the docker volume exists, otherwise `false`.
  */
 export async function dockerVolumeExists(volumeName: string): Promise<boolean> {
-  const result = await simpleSpawnDockerAsync(['volume', 'ls'])
-  return result.stdoutLines.filter(ln => ln.includes(volumeName)).length > 0
+  const result = await simpleSpawnDockerAsync(['volume', 'ls', '--quiet'], { dryRun: false })
+  return result.stdoutLines.some(line => line.trim() === volumeName)
 }
 
 /**
@@ -392,6 +477,667 @@ export async function deleteDockerVolume(volumeName: string): Promise<void> {
   await simpleSpawnDockerAsync(['volume', 'rm', volumeName])
 }
 
+/**
+ * Options for {@link backupDockerVolume} and {@link restoreDockerVolume}.
+ */
+export interface DockerVolumeTarballOptions extends DryRunOptions {
+  /**
+   * Optional. If provided, `volumeName` is treated as the volume name as defined in this docker compose file and is resolved to the actual volume
+   * name with {@link getDockerComposeVolumeName}.
+   */
+  dockerComposePath?: string
+  /** Defaults to `alpine`. The image used for the throwaway container that reads or writes the volume. It must have `tar` and `sh`. */
+  image: string
+  /**
+   * Defaults to `false`. If `false`, an error is thrown if the volume is mounted by a running container, since copying files while a service
+   * like a database is writing to them can produce an inconsistent backup or corrupt a running service on restore.
+   */
+  allowMountedByRunningContainer: boolean
+}
+
+/**
+ * Options for {@link restoreDockerVolume}.
+ */
+export interface DockerVolumeRestoreOptions extends DockerVolumeTarballOptions {
+  /** Defaults to `true`. If `true`, existing files in the volume are deleted before the tarball is extracted. */
+  clearVolume: boolean
+  /**
+   * Defaults to `0`. Passed to `tar` as `--strip-components`. Tarballs created by {@link backupDockerVolume} don't have a root directory, but a
+   * tarball created with {@link TarballUtility.createTarball} does, in which case this should be `1`.
+   */
+  stripComponents: number
+}
+
+/**
+ * Create a gzipped tarball of the contents of a docker volume. The volume is mounted read-only in a throwaway container (`docker run --rm`) along
+ * with the directory of the tarball, and `tar` is run inside the container. Respects the config value `useWslPrefixForDockerCommands`.
+ * 
+ * Restore the tarball with {@link restoreDockerVolume}.
+ * @param volumeName The name of the docker volume, or the volume name as defined in a docker compose file if the `dockerComposePath` option is used
+ * @param tarballPath The path of the tarball to create - must end with '.tar.gz'. The directory is created if it doesn't exist.
+ * @param options See {@link DockerVolumeTarballOptions}
+ * @throws An {@link Error} if the volume doesn't exist or is mounted by a running container
+ */
+export async function backupDockerVolume(volumeName: string, tarballPath: string, options?: Partial<DockerVolumeTarballOptions>): Promise<void> {
+  requireString('volumeName', volumeName)
+  requireString('tarballPath', tarballPath)
+  if (!tarballPath.endsWith('.tar.gz')) {
+    throw new Error(`tarballPath must end with '.tar.gz': ${tarballPath}`)
+  }
+  const mergedOptions = { ...defaultDockerVolumeTarballOptions, ...options }
+  const dryRun = isDryRun(mergedOptions.dryRun)
+
+  const actualVolumeName = await resolveVolumeNameForTarball(volumeName, mergedOptions)
+  if (!await dockerVolumeExists(actualVolumeName)) {
+    throw new Error(`Docker volume does not exist: ${actualVolumeName}`)
+  }
+
+  const tarballDir = path.dirname(path.resolve(tarballPath))
+  if (!fs.existsSync(tarballDir)) {
+    if (dryRun) {
+      logDryRun(`would create directory: ${tarballDir}`)
+    } else {
+      await mkdirp(tarballDir)
+    }
+  }
+
+  log(`backing up docker volume ${actualVolumeName} to ${tarballPath}`)
+  await simpleSpawnDockerAsync(getDockerVolumeBackupArgs(actualVolumeName, tarballPath, mergedOptions.image), { dryRun })
+}
+
+/**
+ * Replace the contents of a docker volume with the contents of a gzipped tarball, such as one created by {@link backupDockerVolume}. The volume is
+ * created if it doesn't exist. The volume and the directory of the tarball are mounted in a throwaway container (`docker run --rm`) and `tar` is run
+ * inside the container. Respects the config value `useWslPrefixForDockerCommands`.
+ * 
+ * The tarball is read on the host with {@link getTarballEntries} before anything in the volume is changed, so a corrupt tarball or a `stripComponents`
+ * value that would leave nothing to extract throws instead of clearing the volume. Extracting still happens in the container because the volume's
+ * files aren't accessible from the host (for example with Docker Desktop or WSL) and need to be written with the container's file ownership.
+ * 
+ * **Warning:** by default existing files in the volume are deleted without a prompt or confirmation (see {@link DockerVolumeRestoreOptions.clearVolume}).
+ * @param tarballPath The path to the tarball to restore from
+ * @param volumeName The name of the docker volume, or the volume name as defined in a docker compose file if the `dockerComposePath` option is used
+ * @param options See {@link DockerVolumeRestoreOptions}
+ * @throws An {@link Error} if the tarball can't be read, has no entries after `stripComponents` is applied, or the volume is mounted by a running container
+ */
+export async function restoreDockerVolume(tarballPath: string, volumeName: string, options?: Partial<DockerVolumeRestoreOptions>): Promise<void> {
+  requireValidPath('tarballPath', tarballPath)
+  requireString('volumeName', volumeName)
+  const defaultOptions: DockerVolumeRestoreOptions = { ...defaultDockerVolumeTarballOptions, clearVolume: true, stripComponents: 0 }
+  const mergedOptions = { ...defaultOptions, ...options }
+  const dryRun = isDryRun(mergedOptions.dryRun)
+
+  const entries = await getTarballEntries(tarballPath)
+  if (!entries.some(entry => entry.split('/').filter(part => part !== '').length > mergedOptions.stripComponents)) {
+    throw new Error(`Tarball has no entries to restore with stripComponents ${mergedOptions.stripComponents}: ${tarballPath}`)
+  }
+
+  const actualVolumeName = await resolveVolumeNameForTarball(volumeName, mergedOptions)
+
+  log(`restoring docker volume ${actualVolumeName} from ${tarballPath}`)
+  await simpleSpawnDockerAsync(getDockerVolumeRestoreArgs(actualVolumeName, tarballPath, mergedOptions), { dryRun })
+}
+
+/**
+ * Get the `docker run` args used by {@link backupDockerVolume}. The volume is mounted read-only at `/volume` and the directory of the tarball
+ * is mounted at `/backup`.
+ * @param volumeName The actual docker volume name
+ * @param tarballPath The path of the tarball to create
+ * @param image The image for the throwaway container - it must have `tar`
+ * @param useWslPrefix Defaults to `config.useWslPrefixForDockerCommandsOnWindows`. If `true`, the tarball directory is converted to a wsl path.
+ * @returns The args to pass to the container engine command
+ */
+export function getDockerVolumeBackupArgs(volumeName: string, tarballPath: string, image: string, useWslPrefix: boolean = config.useWslPrefixForDockerCommandsOnWindows): string[] {
+  const tarballFullPath = path.resolve(tarballPath)
+  return [
+    'run', '--rm',
+    '-v', `${volumeName}:/volume:ro`,
+    '-v', `${getDockerHostPath(path.dirname(tarballFullPath), useWslPrefix)}:/backup`,
+    image,
+    'tar', '-czf', `/backup/${path.basename(tarballFullPath)}`, '-C', '/volume', '.'
+  ]
+}
+
+/**
+ * Get the `docker run` args used by {@link restoreDockerVolume}. The volume is mounted at `/volume` and the directory of the tarball is mounted
+ * read-only at `/backup`. The container runs `sh -c` with a script that optionally clears the volume and then runs `tar`.
+ * @param volumeName The actual docker volume name
+ * @param tarballPath The path of the tarball to restore from
+ * @param options The `image`, `clearVolume` and `stripComponents` options (see {@link DockerVolumeRestoreOptions})
+ * @param useWslPrefix Defaults to `config.useWslPrefixForDockerCommandsOnWindows`. If `true`, the tarball directory is converted to a wsl path.
+ * @returns The args to pass to the container engine command
+ */
+export function getDockerVolumeRestoreArgs(volumeName: string, tarballPath: string, options: Pick<DockerVolumeRestoreOptions, 'image' | 'clearVolume' | 'stripComponents'>, useWslPrefix: boolean = config.useWslPrefixForDockerCommandsOnWindows): string[] {
+  const tarballFullPath = path.resolve(tarballPath)
+  const tarArgs = ['tar', '-xzf', `/backup/${path.basename(tarballFullPath)}`, '-C', '/volume']
+  if (options.stripComponents > 0) {
+    tarArgs.push(`--strip-components=${options.stripComponents}`)
+  }
+  // The tar command is passed as positional params to sh so that no part of it is interpreted by the shell
+  const script = `${options.clearVolume ? 'find /volume -mindepth 1 -delete && ' : ''}"$@"`
+  return [
+    'run', '--rm',
+    '-v', `${volumeName}:/volume`,
+    '-v', `${getDockerHostPath(path.dirname(tarballFullPath), useWslPrefix)}:/backup:ro`,
+    options.image,
+    'sh', '-c', script, 'sh', ...tarArgs
+  ]
+}
+
+/**
+ * Throws if any running containers have the docker volume mounted. Used by {@link backupDockerVolume} and {@link restoreDockerVolume} with the
+ * container names from {@link getRunningContainersUsingVolume}.
+ * @param volumeName The actual docker volume name
+ * @param runningContainerNames The names of running containers that have the volume mounted
+ * @throws An {@link Error} listing the containers if `runningContainerNames` isn't empty
+ */
+export function requireVolumeNotMountedByRunningContainers(volumeName: string, runningContainerNames: string[]) {
+  if (runningContainerNames.length > 0) {
+    throw new Error(`Docker volume ${volumeName} is mounted by running containers (stop them first or use the allowMountedByRunningContainer option): ${runningContainerNames.join(', ')}`)
+  }
+}
+
+/**
+ * Get the names of running containers that have a docker volume mounted, using `docker ps --filter volume=<volumeName>`.
+ * Respects the config value `useWslPrefixForDockerCommands`.
+ * @param volumeName The docker volume name
+ * @returns The container names, or an empty array if no running container has the volume mounted
+ */
+export async function getRunningContainersUsingVolume(volumeName: string): Promise<string[]> {
+  requireString('volumeName', volumeName)
+  const result = await simpleSpawnDockerAsync(['ps', '--filter', `volume=${volumeName}`, '--format', '{{.Names}}'], { dryRun: false })
+  return result.stdoutLines.map(line => line.trim()).filter(line => line !== '')
+}
+
+const defaultDockerVolumeTarballOptions: DockerVolumeTarballOptions = { image: 'alpine', allowMountedByRunningContainer: false }
+
+async function resolveVolumeNameForTarball(volumeName: string, options: DockerVolumeTarballOptions): Promise<string> {
+  let actualVolumeName = volumeName
+  if (options.dockerComposePath) {
+    const composeVolumeName = await getDockerComposeVolumeName(volumeName, options.dockerComposePath)
+    if (!composeVolumeName) {
+      throw new Error(`Volume ${volumeName} not found in docker compose config: ${options.dockerComposePath}`)
+    }
+    actualVolumeName = composeVolumeName
+  }
+  if (!options.allowMountedByRunningContainer) {
+    requireVolumeNotMountedByRunningContainers(actualVolumeName, await getRunningContainersUsingVolume(actualVolumeName))
+  }
+  return actualVolumeName
+}
+
+// Returns the container engine command (usually `docker`) or `wsl` depending on config.useWslPrefixForDockerCommandsOnWindows along with the args to pass to it
+function getDockerCommandAndArgs(args: string[]): [string, string[]] {
+  const engine = getContainerEngine()
+  return config.useWslPrefixForDockerCommandsOnWindows ? ['wsl', [engine, ...args]] : [engine, args]
+}
+
+// Host paths (bind mount sources, build contexts, etc.) need to be wsl paths when docker commands are run with the wsl prefix
+function getDockerHostPath(hostPath: string, useWslPrefix: boolean = config.useWslPrefixForDockerCommandsOnWindows): string {
+  return useWslPrefix ? toWslPath(hostPath) : hostPath
+}
+
+/**
+ * Options for {@link dockerBuild}.
+ */
+export interface DockerBuildOptions extends DryRunOptions {
+  /** Optional. Path to the Dockerfile (passed as `--file`). Defaults to `Dockerfile` in the context directory. */
+  dockerfile?: string
+  /** Defaults to `[]`. Each tag is passed as `--tag`, for example `myapp:1.2.3`. */
+  tags: string[]
+  /** Defaults to `{}`. Each entry is passed as `--build-arg KEY=value`. */
+  buildArgs: StringKeyedDictionary
+  /** Optional. The build stage to build (passed as `--target`). */
+  target?: string
+  /** Defaults to `{}`. Each entry is passed as `--label KEY=value`. */
+  labels: StringKeyedDictionary
+  /** Optional. The target platform (passed as `--platform`), for example `linux/amd64`. */
+  platform?: string
+  /** Defaults to `false`. If `true`, `--no-cache` is passed. */
+  noCache: boolean
+  /** Defaults to `true`. If `false`, build output is captured but not written to the console. */
+  showOutput: boolean
+}
+
+/**
+ * Error thrown by {@link dockerBuild} when the build fails.
+ * 
+ * Contains the {@link SpawnResult} with the full build output plus the failed build step and error message if they could be found in the output.
+ */
+export class DockerBuildError extends SpawnError {
+  /** The error reported by docker, for example `failed to solve: process "/bin/sh -c npm ci" did not complete successfully: exit code: 1`. */
+  buildError?: string
+  /** The build step that failed, for example `[build 3/5] RUN npm ci`. */
+  failedStep?: string
+
+  constructor(result: SpawnResult) {
+    const lines = `${result.stdout}\n${result.stderr}`.split(/\r?\n/)
+    const buildError = lines.map(line => /^(?:#\d+\s+)?ERROR:?\s+(.+)$/i.exec(line.trim())?.[1]).filter(match => match !== undefined).pop()
+    const failedStep = lines.map(line => /^>\s*(\[[^\]]+\].*?):?$/.exec(line.trim())?.[1]).filter(match => match !== undefined).pop()
+    const details = [failedStep ? `failed step: ${failedStep}` : '', buildError ?? ''].filter(detail => detail !== '').join(' - ')
+    super(`docker build failed with code ${result.code}${details ? ` (${details})` : ''}`, result)
+    this.buildError = buildError
+    this.failedStep = failedStep
+  }
+}
+
+/**
+ * Build a docker image with `docker build`. Respects the config value `useWslPrefixForDockerCommands` (paths are translated to wsl paths).
+ * @param contextDir The build context directory
+ * @param options See {@link DockerBuildOptions}
+ * @returns The {@link SpawnResult} with the build output
+ * @throws A {@link DockerBuildError} if the build fails
+ */
+export async function dockerBuild(contextDir: string, options?: Partial<DockerBuildOptions>): Promise<SpawnResult> {
+  requireValidPath('contextDir', contextDir)
+  if (options?.dockerfile) {
+    requireValidPath('dockerfile', options.dockerfile)
+  }
+  const defaultOptions: DockerBuildOptions = { tags: [], buildArgs: {}, labels: {}, noCache: false, showOutput: true }
+  const mergedOptions = { ...defaultOptions, ...options }
+
+  const args = ['build']
+  if (mergedOptions.dockerfile) {
+    args.push('--file', getDockerHostPath(path.resolve(mergedOptions.dockerfile)))
+  }
+  for (const tag of mergedOptions.tags) {
+    args.push('--tag', tag)
+  }
+  for (const [key, value] of Object.entries(mergedOptions.buildArgs)) {
+    args.push('--build-arg', `${key}=${value}`)
+  }
+  if (mergedOptions.target) {
+    args.push('--target', mergedOptions.target)
+  }
+  for (const [key, value] of Object.entries(mergedOptions.labels)) {
+    args.push('--label', `${key}=${value}`)
+  }
+  if (mergedOptions.platform) {
+    args.push('--platform', mergedOptions.platform)
+  }
+  if (mergedOptions.noCache) {
+    args.push('--no-cache')
+  }
+  args.push(getDockerHostPath(path.resolve(contextDir)))
+
+  const [command, spawnArgs] = getDockerCommandAndArgs(args)
+  const result = await spawnAsync(command, spawnArgs, { stdio: 'pipe', tee: mergedOptions.showOutput, throwOnNonZero: false, dryRun: mergedOptions.dryRun })
+  if (result.code !== 0) {
+    throw new DockerBuildError(result)
+  }
+  return result
+}
+
+/**
+ * Create a tag that refers to an existing image using `docker tag`. Respects the config value `useWslPrefixForDockerCommands`.
+ * @param sourceImage The existing image, for example `myapp:latest`
+ * @param targetImage The new tag, for example `registry.example.com/myapp:1.2.3`
+ * @param options See {@link DryRunOptions}
+ */
+export async function dockerTag(sourceImage: string, targetImage: string, options?: DryRunOptions): Promise<void> {
+  requireString('sourceImage', sourceImage)
+  requireString('targetImage', targetImage)
+  await simpleSpawnDockerAsync(['tag', sourceImage, targetImage], { dryRun: options?.dryRun })
+}
+
+/**
+ * Check if an image exists locally using `docker image inspect` (or the configured container engine's equivalent, see {@link getContainerEngine}).
+ * Respects the config value `useWslPrefixForDockerCommands`.
+ * @param image The image name, tag or ID
+ * @returns `true` if the image exists locally, otherwise `false`
+ * @throws An {@link Error} if the inspect command fails for any reason other than the image not existing
+ */
+export async function dockerImageExists(image: string): Promise<boolean> {
+  requireString('image', image)
+  const result = await simpleSpawnDockerAsync(['image', 'inspect', image], { throwOnNonZero: false, dryRun: false })
+  if (result.code === 0) {
+    return true
+  }
+  // Docker and nerdctl report "no such image" (or "no such object" on older docker versions) and podman reports "image not known"
+  if (/no such (image|object)|image not known/i.test(result.stderr)) {
+    return false
+  }
+  throw new Error(`docker image inspect failed with code ${result.code}: ${result.stderr.trim()}`)
+}
+
+/**
+ * Options for {@link removeDockerImage}.
+ */
+export interface RemoveDockerImageOptions extends DryRunOptions {
+  /** Defaults to `false`. If `true`, `--force` is passed so the image is removed even if it's used by stopped containers or has multiple tags. */
+  force: boolean
+}
+
+/**
+ * Remove a local image using `docker image rm`. If the image doesn't exist, a message is logged and no other action is taken.
+ * Respects the config value `useWslPrefixForDockerCommands`.
+ * 
+ * **Warning:** there will be no prompt or confirmation before attempting to remove the image.
+ * @param image The image name, tag or ID
+ * @param options See {@link RemoveDockerImageOptions}
+ */
+export async function removeDockerImage(image: string, options?: Partial<RemoveDockerImageOptions>): Promise<void> {
+  if (!await dockerImageExists(image)) {
+    log(`docker image ${image} does not exist - skipping`)
+    return
+  }
+  const args = ['image', 'rm']
+  if (options?.force) {
+    args.push('--force')
+  }
+  args.push(image)
+  await simpleSpawnDockerAsync(args, { dryRun: options?.dryRun })
+}
+
+/**
+ * One row of `docker system df` output. See {@link getDockerDiskUsage}.
+ */
+export interface DockerDiskUsageEntry {
+  totalCount: number
+  active: number
+  /** The size as reported by docker, for example `1.2GB`. */
+  size: string
+  /** The size in bytes, converted from the approximate value reported by docker. */
+  sizeBytes: number
+  /** The reclaimable space as reported by docker, for example `800MB (66%)`. */
+  reclaimable: string
+  /** The reclaimable space in bytes, converted from the approximate value reported by docker. */
+  reclaimableBytes: number
+}
+
+/**
+ * Disk usage by resource type. See {@link getDockerDiskUsage}.
+ */
+export interface DockerDiskUsage {
+  images: DockerDiskUsageEntry
+  containers: DockerDiskUsageEntry
+  volumes: DockerDiskUsageEntry
+  buildCache: DockerDiskUsageEntry
+}
+
+/**
+ * Get docker disk usage by resource type using `docker system df --format json`. Respects the config value `useWslPrefixForDockerCommands`.
+ * 
+ * @example
+ * ```
+ * const usage = await getDockerDiskUsage()
+ * log(`volumes: ${usage.volumes.size} (${usage.volumes.reclaimable} reclaimable)`)
+ * ```
+ * @returns See {@link DockerDiskUsage}
+ */
+export async function getDockerDiskUsage(): Promise<DockerDiskUsage> {
+  const result = await simpleSpawnDockerAsync(['system', 'df', '--format', 'json'], { dryRun: false })
+  return parseDockerSystemDfJson(result.stdout)
+}
+
+/**
+ * Parses the output of `docker system df --format json` (one JSON object per line). Used by {@link getDockerDiskUsage}.
+ * Resource types that aren't in the output are returned with zero values.
+ */
+export function parseDockerSystemDfJson(stdout: string): DockerDiskUsage {
+  const rows = parseJsonOrJsonLines(stdout) as RawDockerSystemDfRow[]
+  const getEntry = (type: string): DockerDiskUsageEntry => {
+    const row = rows.find(r => r.Type === type)
+    const size = row?.Size ?? '0B'
+    const reclaimable = row?.Reclaimable ?? '0B'
+    return {
+      totalCount: Number(row?.TotalCount ?? 0),
+      active: Number(row?.Active ?? 0),
+      size,
+      sizeBytes: parseDockerSize(size),
+      reclaimable,
+      reclaimableBytes: parseDockerSize(reclaimable)
+    }
+  }
+  return {
+    images: getEntry('Images'),
+    containers: getEntry('Containers'),
+    volumes: getEntry('Local Volumes'),
+    buildCache: getEntry('Build Cache')
+  }
+}
+
+/**
+ * Options for {@link cleanupDockerProject}.
+ */
+export interface CleanupDockerProjectOptions extends DryRunOptions {
+  /** Defaults to `true`. Remove the project's containers, including running containers. */
+  containers: boolean
+  /** Defaults to `true`. Remove the project's volumes. **Warning:** this deletes the data stored in them. */
+  volumes: boolean
+  /** Defaults to `true`. Remove the project's networks. */
+  networks: boolean
+  /** Defaults to `false`. Remove images built by docker compose for the project. */
+  images: boolean
+  /** Defaults to `false`. If `true`, resources are removed without prompting for confirmation with {@link getConfirmation}. */
+  skipConfirmation: boolean
+}
+
+/**
+ * The docker resources found by {@link cleanupDockerProject}.
+ */
+export interface DockerProjectResources {
+  /** Container names. */
+  containers: string[]
+  /** Volume names. */
+  volumes: string[]
+  /** Network names. */
+  networks: string[]
+  /** Image IDs. */
+  images: string[]
+}
+
+/**
+ * Remove the docker resources that docker compose created for a project (resources labeled with `com.docker.compose.project=<projectName>`),
+ * including resources from services that are no longer in the compose file. Unlike `docker compose down`, no compose file is needed.
+ * 
+ * The resources are listed and the user is prompted for confirmation before anything is removed, unless the `skipConfirmation` option is
+ * used. In dry run mode the resources are listed but not removed. Respects the config value `useWslPrefixForDockerCommands`.
+ * 
+ * See also: {@link deleteDockerComposeVolume} to remove a single volume and {@link getDockerDiskUsage}.
+ * @param projectName The docker compose project name (directory name, `COMPOSE_PROJECT_NAME` or `-p`)
+ * @param options See {@link CleanupDockerProjectOptions}
+ * @returns The resources that were found. Check the return value of `removed` to see if they were removed.
+ */
+export async function cleanupDockerProject(projectName: string, options?: Partial<CleanupDockerProjectOptions>): Promise<DockerProjectResources & { removed: boolean }> {
+  requireString('projectName', projectName)
+  if (!isValidDockerComposeProjectName(projectName)) {
+    throw new Error(`Invalid docker compose project name: ${projectName}`)
+  }
+  const mergedOptions: CleanupDockerProjectOptions = { containers: true, volumes: true, networks: true, images: false, skipConfirmation: false, ...options }
+  const dryRun = isDryRun(mergedOptions.dryRun)
+
+  const resources = await getDockerProjectResources(projectName, mergedOptions)
+  const resourceCount = (Object.values(resources) as string[][]).reduce((count, names) => count + names.length, 0)
+  if (resourceCount === 0) {
+    log(`no docker resources found for compose project ${projectName} - skipping`)
+    return { ...resources, removed: false }
+  }
+
+  const listing = (Object.entries(resources) as [string, string[]][])
+    .filter(([, names]) => names.length > 0)
+    .map(([type, names]) => `  ${type}:\n${names.map(name => `    - ${name}`).join('\n')}`)
+    .join('\n')
+
+  if (dryRun) {
+    logDryRun(`would remove docker resources for compose project ${projectName}:\n${listing}`)
+    return { ...resources, removed: false }
+  }
+
+  log(`docker resources for compose project ${projectName}:\n${listing}`)
+  if (!mergedOptions.skipConfirmation && !await getConfirmation(`Remove ${resourceCount} docker resources for compose project ${projectName}?`)) {
+    return { ...resources, removed: false }
+  }
+
+  // Containers first so that their volumes, networks and images are no longer in use
+  if (resources.containers.length > 0) {
+    await simpleSpawnDockerAsync(['container', 'rm', '--force', '--volumes', ...resources.containers], { dryRun })
+  }
+  if (resources.volumes.length > 0) {
+    await simpleSpawnDockerAsync(['volume', 'rm', ...resources.volumes], { dryRun })
+  }
+  if (resources.networks.length > 0) {
+    await simpleSpawnDockerAsync(['network', 'rm', ...resources.networks], { dryRun })
+  }
+  if (resources.images.length > 0) {
+    await simpleSpawnDockerAsync(['image', 'rm', '--force', ...resources.images], { dryRun })
+  }
+  log(`removed ${resourceCount} docker resources for compose project ${projectName}`)
+  return { ...resources, removed: true }
+}
+
+async function getDockerProjectResources(projectName: string, options: CleanupDockerProjectOptions): Promise<DockerProjectResources> {
+  const labelFilter = `label=com.docker.compose.project=${projectName}`
+  const list = async (args: string[]) => {
+    const result = await simpleSpawnDockerAsync([...args, '--filter', labelFilter], { dryRun: false })
+    return [...new Set(result.stdoutLines.map(line => line.trim()).filter(line => line !== ''))]
+  }
+  return {
+    containers: options.containers ? await list(['container', 'ls', '--all', '--format', '{{.Names}}']) : [],
+    volumes: options.volumes ? await list(['volume', 'ls', '--quiet']) : [],
+    networks: options.networks ? await list(['network', 'ls', '--format', '{{.Name}}']) : [],
+    images: options.images ? await list(['image', 'ls', '--quiet']) : []
+  }
+}
+
+/**
+ * A log line parsed by {@link streamDockerComposeLogs}.
+ */
+export interface DockerComposeLogEntry {
+  /** The service name, for example `db`. */
+  service: string
+  /** The log prefix docker compose uses for the container, for example `db-1`. */
+  container: string
+  /** Undefined if the line didn't have a timestamp. */
+  timestamp?: Date
+  message: string
+}
+
+/**
+ * Options for {@link streamDockerComposeLogs}.
+ */
+export interface StreamDockerComposeLogsOptions extends DockerComposeQueryOptions {
+  /** Optional. Only include logs from these services. Defaults to all services. */
+  services?: string[]
+  /** Optional. Passed as `--since`. A timestamp such as `2024-01-01T00:00:00Z` or a relative time such as `10m`. */
+  since?: string
+  /** Optional. Passed as `--tail`. The number of lines to show from the end of the logs for each container. */
+  tail?: number
+  /** Defaults to `false`. If `true`, new log lines are streamed until the iteration is stopped (for example with `break`) or the containers stop. */
+  follow: boolean
+  /** Optional. Called with each entry just before it's yielded. */
+  onLine?: (entry: DockerComposeLogEntry) => void
+}
+
+/**
+ * Get docker compose logs as an async iterator of parsed entries using `docker compose logs --no-color --timestamps`. Respects the config
+ * value `useWslPrefixForDockerCommands`.
+ * 
+ * The docker compose process is stopped when the iteration ends early, which makes it possible to follow logs until a pattern appears.
+ * 
+ * @example
+ * ```
+ * for await (const entry of streamDockerComposeLogs('docker-compose.yml', { services: ['api'], follow: true })) {
+ *   if (entry.message.includes('Application started')) {
+ *     break
+ *   }
+ * }
+ * ```
+ * @param dockerComposePath Path to docker-compose.yml, or an array of paths to compose files (see {@link spawnDockerCompose})
+ * @param options See {@link StreamDockerComposeLogsOptions}
+ * @throws A {@link SpawnError} if the docker compose command fails
+ */
+export async function* streamDockerComposeLogs(dockerComposePath: string | string[], options?: Partial<StreamDockerComposeLogsOptions>): AsyncGenerator<DockerComposeLogEntry> {
+  const mergedOptions = { follow: false, ...options }
+  const logsArgs = ['logs', '--no-color', '--timestamps']
+  if (mergedOptions.follow) {
+    logsArgs.push('--follow')
+  }
+  if (mergedOptions.since) {
+    logsArgs.push('--since', mergedOptions.since)
+  }
+  if (mergedOptions.tail !== undefined) {
+    logsArgs.push('--tail', `${mergedOptions.tail}`)
+  }
+  logsArgs.push(...(mergedOptions.services ?? []))
+
+  const spawnParams = getDockerComposeQuerySpawnParams(dockerComposePath, logsArgs, mergedOptions)
+  const abortController = new AbortController()
+  const pendingEntries: DockerComposeLogEntry[] = []
+  let processExited = false
+  let wake: (() => void) | undefined
+  const notify = () => {
+    wake?.()
+    wake = undefined
+  }
+
+  const spawnPromise = spawnAsync(spawnParams.command, spawnParams.args, {
+    cwd: spawnParams.cwd,
+    stdio: 'pipe',
+    throwOnNonZero: false,
+    signal: abortController.signal,
+    dryRun: false,
+    onStdoutLine: line => {
+      const entry = parseDockerComposeLogLine(line)
+      if (entry) {
+        pendingEntries.push(entry)
+        notify()
+      }
+    }
+  }).finally(() => {
+    processExited = true
+    notify()
+  })
+
+  try {
+    // eslint-disable-next-line no-constant-condition
+    while (true) {
+      const entry = pendingEntries.shift()
+      if (entry) {
+        mergedOptions.onLine?.(entry)
+        yield entry
+        continue
+      }
+      if (processExited) {
+        break
+      }
+      await new Promise<void>(resolve => { wake = resolve })
+    }
+    const result = await spawnPromise
+    if (result.code !== 0) {
+      throw new SpawnError(`docker compose logs failed with code ${result.code}`, result)
+    }
+  } finally {
+    if (!processExited) {
+      abortController.abort()
+      await spawnPromise.catch(err => trace('error stopping docker compose logs process', err))
+    }
+  }
+}
+
+/**
+ * Parses a line of `docker compose logs --timestamps` output, for example `db-1  | 2024-01-01T00:00:00.000000000Z database system is ready`.
+ * Used by {@link streamDockerComposeLogs}.
+ * @returns The parsed entry, or `undefined` if the line isn't a log line
+ */
+export function parseDockerComposeLogLine(line: string): DockerComposeLogEntry | undefined {
+  const match = /^(\S+)\s+\|\s?(.*)$/.exec(line)
+  if (!match) {
+    return undefined
+  }
+  const container = match[1]
+  // Newer versions of docker compose use `service-1` and older versions use `project_service_1` or `project-service-1`
+  const service = container.replace(/[-_]\d+$/, '').replace(/^.*_/, '')
+  const timestampMatch = /^(\d{4}-\d{2}-\d{2}T\S+)\s?(.*)$/.exec(match[2])
+  if (timestampMatch) {
+    const timestamp = new Date(timestampMatch[1])
+    if (!isNaN(timestamp.getTime())) {
+      return { service, container, timestamp, message: timestampMatch[2] }
+    }
+  }
+  return { service, container, message: match[2] }
+}
+
 /**
  * Helper method to attach to a running docker container and open a shell.
  * 
@@ -412,3 +1158,753 @@ export async function dockerComposeBash(dockerComposePath: string, containerName
   }
   await spawnDockerCompose(dockerComposePath, 'exec', { args: ['-it', containerName, 'bash'], attached: true })
 }
+
+/**
+ * Options for {@link dockerComposeExec}.
+ */
+export interface DockerComposeExecOptions extends DockerComposeQueryOptions, DryRunOptions {
+  /** Optional. Passed as `--user`. */
+  user?: string
+  /** Optional. Passed as `--workdir`. */
+  workdir?: string
+  /** Optional. Each entry is passed as `--env KEY=value`. */
+  env?: StringKeyedDictionary
+  /** Optional. Path to a file whose contents are piped to the command's stdin, for example a SQL script for `psql`. */
+  stdin?: string
+  /** Defaults to `true`. If `true`, a {@link SimpleSpawnError} is thrown if the command exits with a non-zero code. */
+  throwOnNonZero: boolean
+}
+
+/**
+ * Run a single command in a running docker compose service using `docker compose exec` and capture its output. Unlike
+ * {@link dockerComposeBash}, no pseudo-TTY is allocated (`-T` is passed), so this works in scripts and CI where there is no TTY attached.
+ * Respects the config value `useWslPrefixForDockerCommands`.
+ * 
+ * @example
+ * ```
+ * const result = await dockerComposeExec('docker-compose.yml', 'db', ['psql', '-U', 'postgres', '-tAc', 'select count(*) from migrations'])
+ * const migrationCount = Number(result.stdout.trim())
+ * await dockerComposeExec('docker-compose.yml', 'db', ['psql', '-U', 'postgres'], { stdin: './seed.sql' })
+ * ```
+ * @param dockerComposePath Path to docker-compose.yml, or an array of paths to compose files (see {@link spawnDockerCompose})
+ * @param serviceName The service name as defined in the docker compose file
+ * @param command The command and its arguments. These are passed directly to the container without a shell.
+ * @param options See {@link DockerComposeExecOptions}
+ * @returns The {@link SimpleSpawnResult} with the command's stdout and stderr
+ */
+export async function dockerComposeExec(dockerComposePath: string | string[], serviceName: string, command: string[], options?: Partial<DockerComposeExecOptions>): Promise<SimpleSpawnResult> {
+  requireString('serviceName', serviceName)
+  if (command.length === 0) {
+    throw new Error('command must contain at least one element')
+  }
+  const mergedOptions = { throwOnNonZero: true, ...options }
+  if (mergedOptions.stdin) {
+    requireValidPath('stdin', mergedOptions.stdin)
+  }
+
+  const execArgs = ['exec', '-T']
+  if (mergedOptions.user) {
+    execArgs.push('--user', mergedOptions.user)
+  }
+  if (mergedOptions.workdir) {
+    execArgs.push('--workdir', mergedOptions.workdir)
+  }
+  for (const [key, value] of Object.entries(mergedOptions.env ?? {})) {
+    execArgs.push('--env', `${key}=${value}`)
+  }
+  execArgs.push(serviceName, ...command)
+
+  const spawnParams = getDockerComposeQuerySpawnParams(dockerComposePath, execArgs, mergedOptions)
+  // The file descriptor is passed as stdin so large files are streamed rather than read into memory
+  const stdinFd = mergedOptions.stdin && !isDryRun(mergedOptions.dryRun) ? fs.openSync(mergedOptions.stdin, 'r') : undefined
+  let result: SpawnResult
+  try {
+    result = await spawnAsync(spawnParams.command, spawnParams.args, {
+      cwd: spawnParams.cwd,
+      stdio: [stdinFd ?? 'ignore', 'pipe', 'pipe'],
+      throwOnNonZero: false,
+      dryRun: mergedOptions.dryRun
+    })
+  } finally {
+    if (stdinFd !== undefined) {
+      fs.closeSync(stdinFd)
+    }
+  }
+
+  const simpleResult: SimpleSpawnResult = { ...result, stdoutLines: stringToNonEmptyLines(result.stdout) }
+  if (mergedOptions.throwOnNonZero && simpleResult.code !== 0) {
+    throw new SimpleSpawnError(`docker compose exec failed with code ${simpleResult.code}`, simpleResult)
+  }
+  return simpleResult
+}
+
+
+/**
+ * Options for functions that query a docker compose project, such as {@link getDockerComposeServices}.
+ */
+export interface DockerComposeQueryOptions {
+  /** Optional. Passed to docker compose as `--project-name`. See {@link DockerComposeOptions.projectName}. */
+  projectName?: string
+  /** Defaults to `config.useWslPrefixForDockerCommandsOnWindows`. See {@link DockerComposeOptions.useWslPrefix}. */
+  useWslPrefix?: boolean
+  /** Optional. Profiles to enable (passed as `--profile`). See {@link DockerComposeOptions.profile}. */
+  profiles?: string[]
+}
+
+export type DockerContainerState = 'created' | 'running' | 'paused' | 'restarting' | 'removing' | 'exited' | 'dead'
+export type DockerContainerHealth = 'starting' | 'healthy' | 'unhealthy'
+
+export interface DockerPublishedPort {
+  /** The host IP the port is bound to, for example `0.0.0.0` or `::`. */
+  hostIp: string
+  hostPort: number
+  containerPort: number
+  /** For example `tcp` or `udp`. */
+  protocol: string
+}
+
+/**
+ * A docker compose service container returned by {@link getDockerComposeServices}.
+ */
+export interface DockerComposeService {
+  containerId: string
+  containerName: string
+  image: string
+  project: string
+  /** The service name as defined in the docker compose file. */
+  service: string
+  state: DockerContainerState
+  /** Undefined if the container doesn't have a healthcheck. */
+  health?: DockerContainerHealth
+  exitCode: number
+  publishedPorts: DockerPublishedPort[]
+}
+
+/**
+ * The state of a container returned by {@link getContainerStatus}.
+ */
+export interface DockerContainerStatus {
+  state: DockerContainerState
+  running: boolean
+  /** Undefined if the container doesn't have a healthcheck. */
+  health?: DockerContainerHealth
+  exitCode: number
+  startedAt?: string
+  finishedAt?: string
+}
+
+export interface DockerMount {
+  /** For example `volume` or `bind`. */
+  type: string
+  /** The volume name. Undefined for bind mounts. */
+  name?: string
+  source: string
+  destination: string
+  readOnly: boolean
+}
+
+/**
+ * Container details returned by {@link inspectContainer}.
+ */
+export interface DockerContainerInfo {
+  id: string
+  /** The container name without the leading slash. */
+  name: string
+  image: string
+  status: DockerContainerStatus
+  publishedPorts: DockerPublishedPort[]
+  mounts: DockerMount[]
+  labels: StringKeyedDictionary
+  networks: string[]
+}
+
+/**
+ * Get the containers for a docker compose project using `docker compose ps --all --format json`. Stopped containers are included.
+ * @param dockerComposePath Path to docker-compose.yml, or an array of paths to compose files (see {@link spawnDockerCompose})
+ * @param options See {@link DockerComposeQueryOptions}
+ * @returns One entry per container (a service that is scaled will have more than one)
+ */
+export async function getDockerComposeServices(dockerComposePath: string | string[], options?: DockerComposeQueryOptions): Promise<DockerComposeService[]> {
+  const result = await simpleSpawnDockerComposeQuery(dockerComposePath, ['ps', '--all', '--format', 'json'], options ?? {})
+  return parseDockerComposePsJson(result.stdout)
+}
+
+/**
+ * Get the state of a container using `docker container inspect`. See {@link inspectContainer} for more details about the container.
+ * @param containerName The container name or ID
+ * @returns The container status or `undefined` if the container doesn't exist
+ */
+export async function getContainerStatus(containerName: string): Promise<DockerContainerStatus | undefined> {
+  return (await inspectContainer(containerName))?.status
+}
+
+/**
+ * Get details about a container using `docker container inspect`. Respects the config value `useWslPrefixForDockerCommands`.
+ * @param containerName The container name or ID
+ * @returns The container details or `undefined` if the container doesn't exist
+ * @throws An {@link Error} if the inspect command fails for any reason other than the container not existing
+ */
+export async function inspectContainer(containerName: string): Promise<DockerContainerInfo | undefined> {
+  requireString('containerName', containerName)
+  const result = await simpleSpawnDockerAsync(['container', 'inspect', containerName], { throwOnNonZero: false, dryRun: false })
+  if (result.code !== 0) {
+    if (/no such (container|object)/i.test(result.stderr)) {
+      return undefined
+    }
+    throw new Error(`docker container inspect failed with code ${result.code}: ${result.stderr.trim()}`)
+  }
+  return parseDockerInspectJson(result.stdout)[0]
+}
+
+/**
+ * Parses the output of `docker compose ps --format json`. Supports both the JSON array output of older docker compose versions and
+ * the one object per line output of newer versions. Used by {@link getDockerComposeServices}.
+ */
+export function parseDockerComposePsJson(stdout: string): DockerComposeService[] {
+  return (parseJsonOrJsonLines(stdout) as RawDockerComposePsEntry[]).map(entry => ({
+    containerId: entry.ID ?? '',
+    containerName: entry.Name,
+    image: entry.Image ?? '',
+    project: entry.Project ?? '',
+    service: entry.Service,
+    state: entry.State.toLowerCase() as DockerContainerState,
+    health: entry.Health ? entry.Health as DockerContainerHealth : undefined,
+    exitCode: entry.ExitCode ?? 0,
+    publishedPorts: (entry.Publishers ?? []).filter(publisher => publisher.PublishedPort > 0).map(publisher => ({
+      hostIp: publisher.URL ?? '',
+      hostPort: publisher.PublishedPort,
+      containerPort: publisher.TargetPort,
+      protocol: publisher.Protocol
+    }))
+  }))
+}
+
+/**
+ * Parses the output of `docker container inspect`. Used by {@link inspectContainer}.
+ */
+export function parseDockerInspectJson(stdout: string): DockerContainerInfo[] {
+  return (JSON.parse(stdout) as RawDockerInspectEntry[]).map(entry => ({
+    id: entry.Id,
+    name: entry.Name.replace(/^\//, ''),
+    image: entry.Config?.Image ?? entry.Image,
+    status: {
+      state: entry.State.Status as DockerContainerState,
+      running: entry.State.Running,
+      health: entry.State.Health?.Status as DockerContainerHealth | undefined,
+      exitCode: entry.State.ExitCode,
+      startedAt: entry.State.StartedAt,
+      finishedAt: entry.State.FinishedAt
+    },
+    publishedPorts: Object.entries(entry.NetworkSettings?.Ports ?? {}).flatMap(([containerPortAndProtocol, bindings]) => {
+      const [containerPort, protocol] = containerPortAndProtocol.split('/')
+      return (bindings ?? []).map(binding => ({ hostIp: binding.HostIp, hostPort: parseInt(binding.HostPort), containerPort: parseInt(containerPort), protocol }))
+    }),
+    mounts: (entry.Mounts ?? []).map(mount => ({ type: mount.Type, name: mount.Name, source: mount.Source, destination: mount.Destination, readOnly: !mount.RW })),
+    labels: entry.Config?.Labels ?? {},
+    networks: Object.keys(entry.NetworkSettings?.Networks ?? {})
+  }))
+}
+
+export interface DockerComposePortConfig {
+  /** The port inside the container. */
+  target: number
+  /** The host port. Undefined if the port isn't published to a specific host port. */
+  published?: number
+  /** For example `tcp` or `udp`. Defaults to `tcp`. */
+  protocol: string
+  /** The host IP the port is bound to. Undefined if not specified, which means all interfaces. */
+  hostIp?: string
+}
+
+export interface DockerComposeServiceVolumeConfig {
+  /** For example `volume` or `bind`. */
+  type: string
+  /** The volume key for named volumes or the host path for bind mounts. */
+  source?: string
+  target: string
+  readOnly: boolean
+}
+
+export interface DockerComposeHealthcheckConfig {
+  test: string[]
+  interval?: string
+  timeout?: string
+  retries?: number
+  startPeriod?: string
+  disable: boolean
+}
+
+/** A service from the normalized docker compose config. See {@link DockerComposeConfig}. */
+export interface DockerComposeServiceConfig {
+  /** The service name (the key under `services`). */
+  name: string
+  image?: string
+  containerName?: string
+  ports: DockerComposePortConfig[]
+  volumes: DockerComposeServiceVolumeConfig[]
+  environment: StringKeyedDictionary
+  dependsOn: string[]
+  profiles: string[]
+  networks: string[]
+  labels: StringKeyedDictionary
+  /** Undefined if the service doesn't define a healthcheck (the image may still define one). */
+  healthcheck?: DockerComposeHealthcheckConfig
+}
+
+/** A volume or network from the normalized docker compose config. See {@link DockerComposeConfig}. */
+export interface DockerComposeResourceConfig {
+  /** The key as it's defined in the docker compose file. */
+  key: string
+  /** The actual name docker compose uses, which is usually prefixed with the project name. */
+  name: string
+  external: boolean
+  driver?: string
+}
+
+export interface DockerComposeValidationRules {
+  /** Defaults to `false`. If `true`, every service must define a healthcheck that isn't disabled. */
+  requireHealthchecks: boolean
+  /** Defaults to `true`. If `true`, no two services may publish the same host port (for the same host IP and protocol). */
+  noHostPortCollisions: boolean
+  /** Defaults to `[]`. Services that are skipped by the `requireHealthchecks` rule, for example one-off migration services. */
+  servicesWithoutHealthchecks: string[]
+}
+
+export interface DockerComposeValidationIssue {
+  /** The service the issue applies to. For port collisions this is the second service that publishes the port. */
+  service: string
+  message: string
+}
+
+/**
+ * Options for {@link DockerComposeConfig.load}.
+ */
+export interface DockerComposeConfigLoadOptions extends DockerComposeQueryOptions {
+  /** Optional. Profiles to enable (passed as `--profile`). Services with profiles that aren't enabled are not included in the config. */
+  profiles?: string[]
+}
+
+/**
+ * A typed model of the normalized docker compose config returned by `docker compose config --format json`. Docker compose does the work of
+ * merging multiple compose files, applying profiles and interpolating env values, so the model reflects what `docker compose up` will actually use.
+ * 
+ * Load it once with {@link DockerComposeConfig.load} and then look up services, volumes and networks or run {@link validate} before running `up`.
+ * 
+ * @example
+ * ```
+ * const composeConfig = await DockerComposeConfig.load(['docker-compose.yml', 'docker-compose.ci.yml'], { profiles: ['tools'] })
+ * composeConfig.throwIfInvalid({ requireHealthchecks: true })
+ * const dbVolumeName = composeConfig.getVolume('db_data')?.name
+ * ```
+ */
+export class DockerComposeConfig {
+  readonly projectName: string
+  readonly services: DockerComposeServiceConfig[]
+  readonly volumes: DockerComposeResourceConfig[]
+  readonly networks: DockerComposeResourceConfig[]
+
+  private constructor(projectName: string, services: DockerComposeServiceConfig[], volumes: DockerComposeResourceConfig[], networks: DockerComposeResourceConfig[]) {
+    this.projectName = projectName
+    this.services = services
+    this.volumes = volumes
+    this.networks = networks
+  }
+
+  /**
+   * Run `docker compose config --format json` for one or more compose files and parse the result. Respects the config value `useWslPrefixForDockerCommands`.
+   * @param dockerComposePaths One or more compose file paths. Later files override earlier ones, the same as passing multiple `-f` options to docker compose.
+   * @param options See {@link DockerComposeConfigLoadOptions}
+   */
+  static async load(dockerComposePaths: string | string[], options?: Partial<DockerComposeConfigLoadOptions>): Promise<DockerComposeConfig> {
+    const result = await simpleSpawnDockerComposeQuery(dockerComposePaths, ['config', '--format', 'json'], options ?? {})
+    return DockerComposeConfig.parse(result.stdout)
+  }
+
+  /**
+   * Parse the output of `docker compose config --format json`.
+   * @param json The normalized docker compose config json
+   */
+  static parse(json: string): DockerComposeConfig {
+    const raw = JSON.parse(json) as RawDockerComposeConfig
+    const services = Object.entries(raw.services ?? {}).map(([name, service]) => parseComposeServiceConfig(name, service))
+    return new DockerComposeConfig(raw.name ?? '', services, parseComposeResourceConfigs(raw.volumes), parseComposeResourceConfigs(raw.networks))
+  }
+
+  getService(name: string): DockerComposeServiceConfig | undefined {
+    return this.services.find(service => service.name === name)
+  }
+
+  /** Look up a volume by the key it's defined with in the compose file. Use the `name` property of the result for docker volume commands. */
+  getVolume(key: string): DockerComposeResourceConfig | undefined {
+    return this.volumes.find(volume => volume.key === key)
+  }
+
+  /** Look up a network by the key it's defined with in the compose file. */
+  getNetwork(key: string): DockerComposeResourceConfig | undefined {
+    return this.networks.find(network => network.key === key)
+  }
+
+  /**
+   * Check the config against a set of rules. See {@link DockerComposeValidationRules} for the available rules and their defaults.
+   * @returns The issues found, or an empty array if the config is valid
+   */
+  validate(rules?: Partial<DockerComposeValidationRules>): DockerComposeValidationIssue[] {
+    const defaultRules: DockerComposeValidationRules = { requireHealthchecks: false, noHostPortCollisions: true, servicesWithoutHealthchecks: [] }
+    const mergedRules = { ...defaultRules, ...rules }
+    const issues: DockerComposeValidationIssue[] = []
+
+    if (mergedRules.requireHealthchecks) {
+      for (const service of this.services) {
+        if (mergedRules.servicesWithoutHealthchecks.includes(service.name)) {
+          continue
+        }
+        if (!service.healthcheck || service.healthcheck.disable) {
+          issues.push({ service: service.name, message: 'no healthcheck defined' })
+        }
+      }
+    }
+
+    if (mergedRules.noHostPortCollisions) {
+      const portOwners = new Map<string, string>()
+      for (const service of this.services) {
+        for (const port of service.ports.filter(port => port.published !== undefined)) {
+          const portKey = `${port.hostIp ?? '0.0.0.0'}:${port.published}/${port.protocol}`
+          const owner = portOwners.get(portKey)
+          if (owner !== undefined && owner !== service.name) {
+            issues.push({ service: service.name, message: `host port ${portKey} is also published by service ${owner}` })
+          } else {
+            portOwners.set(portKey, service.name)
+          }
+        }
+      }
+    }
+
+    return issues
+  }
+
+  /**
+   * Same as {@link validate} but throws if there are any issues.
+   * @throws An {@link Error} listing every issue
+   */
+  throwIfInvalid(rules?: Partial<DockerComposeValidationRules>) {
+    const issues = this.validate(rules)
+    if (issues.length > 0) {
+      throw new Error(`Invalid docker compose config:\n${issues.map(issue => `- ${issue.service}: ${issue.message}`).join('\n')}`)
+    }
+  }
+}
+
+/**
+ * Options for {@link waitForDockerComposeServicesHealthy}.
+ */
+export interface WaitForServicesHealthyOptions extends DockerComposeQueryOptions, DryRunOptions {
+  /** Defaults to `60000`. How long to wait for all services to become healthy before throwing. */
+  timeoutMillis: number
+  /** Defaults to `1000`. How long to wait between checks. */
+  pollIntervalMillis: number
+  /** Defaults to `20`. The number of log lines from the failed service to include in the thrown error. */
+  logLineCount: number
+}
+
+/**
+ * Error thrown by {@link waitForDockerComposeServicesHealthy} when a service doesn't become healthy in time or its container exits.
+ * 
+ * Contains the name of the service, the reason and the last log lines from the service.
+ */
+export class DockerComposeServiceNotHealthyError extends Error {
+  serviceName: string
+  reason: string
+  logLines: string[]
+
+  constructor(serviceName: string, reason: string, logLines: string[]) {
+    const logMessage = logLines.length > 0 ? `\nLast ${logLines.length} log lines for service '${serviceName}':\n${logLines.join('\n')}` : ''
+    super(`Docker compose service '${serviceName}' is not healthy: ${reason}${logMessage}`)
+    this.serviceName = serviceName
+    this.reason = reason
+    this.logLines = logLines
+  }
+}
+
+/**
+ * Wait for docker compose services to be ready, for example after running `spawnDockerCompose(dockerComposePath, 'up')`, which returns as soon as the
+ * containers are started. Services are checked with `docker compose ps` on each poll:
+ * 
+ * - If the container has a healthcheck, the service is ready when the container is `healthy`
+ * - If the container doesn't have a healthcheck, the service is ready when something is listening on each of its published ports (see {@link isPortAvailable})
+ * - If the container exits with code 0, the service is treated as done (for example a one-off migration service)
+ * - If the container exits with a non-zero code or is dead, an error is thrown right away instead of waiting for the timeout
+ * 
+ * See {@link getDockerComposeServiceHealthProblem} for the checks performed for each service.
+ * 
+ * If `options.dryRun` (or `config.dryRun` if not specified) is `true`, a message is logged and no checks are performed.
+ * @param dockerComposePath Path to docker-compose.yml, or an array of paths to compose files (see {@link spawnDockerCompose})
+ * @param services Optional. The services to wait for. Defaults to all services that have a container.
+ * @param options See {@link WaitForServicesHealthyOptions}
+ * @throws A {@link DockerComposeServiceNotHealthyError} with the last log lines of the first service that isn't ready when the timeout is reached or its container exits.
+ */
+export async function waitForDockerComposeServicesHealthy(dockerComposePath: string | string[], services?: string[], options?: Partial<WaitForServicesHealthyOptions>): Promise<void> {
+  toArray(dockerComposePath).forEach(composePath => requireValidPath('dockerComposePath', composePath))
+  const defaultOptions: WaitForServicesHealthyOptions = { timeoutMillis: 60000, pollIntervalMillis: 1000, logLineCount: 20 }
+  const mergedOptions = { ...defaultOptions, ...options }
+
+  if (isDryRun(mergedOptions.dryRun)) {
+    logDryRun(`would wait for docker compose services to be healthy: ${services && services.length > 0 ? services.join(', ') : 'all services'}`)
+    return
+  }
+
+  const startTime = Date.now()
+
+  // eslint-disable-next-line no-constant-condition
+  while (true) {
+    const containers = await getDockerComposeServices(dockerComposePath, mergedOptions)
+    const serviceNames = services && services.length > 0 ? services : [...new Set(containers.map(container => container.service))]
+    const timedOut = Date.now() - startTime >= mergedOptions.timeoutMillis
+
+    if (serviceNames.length === 0 && timedOut) {
+      throw new Error(`No docker compose containers found within ${mergedOptions.timeoutMillis} ms for ${toArray(dockerComposePath).join(', ')}`)
+    }
+
+    let problem: DockerComposeServiceHealthProblem | undefined
+    for (const serviceName of serviceNames) {
+      problem = await getDockerComposeServiceHealthProblem(serviceName, containers.filter(container => container.service === serviceName))
+      if (problem) {
+        break
+      }
+    }
+
+    if (serviceNames.length > 0 && !problem) {
+      trace(`docker compose services are healthy: ${serviceNames.join(', ')}`)
+      return
+    }
+
+    if (problem && (problem.isFatal || timedOut)) {
+      const reason = problem.isFatal ? problem.reason : `${problem.reason} (timed out after ${mergedOptions.timeoutMillis} ms)`
+      const logLines = await getDockerComposeServiceLogLines(dockerComposePath, problem.serviceName, mergedOptions)
+      throw new DockerComposeServiceNotHealthyError(problem.serviceName, reason, logLines)
+    }
+
+    if (problem) {
+      trace(`waiting for docker compose service ${problem.serviceName}: ${problem.reason}`)
+    }
+    await sleep(mergedOptions.pollIntervalMillis)
+  }
+}
+
+// Subset of the fields from `docker compose ps --format json`
+interface RawDockerComposePsEntry {
+  ID?: string
+  Name: string
+  Image?: string
+  Project?: string
+  Service: string
+  State: string
+  Health?: string
+  ExitCode?: number
+  Publishers?: { URL?: string, TargetPort: number, PublishedPort: number, Protocol: string }[]
+}
+
+// Subset of the fields from `docker container inspect`
+interface RawDockerInspectEntry {
+  Id: string
+  Name: string
+  Image: string
+  Config?: { Image: string, Labels?: StringKeyedDictionary | null }
+  State: { Status: string, Running: boolean, ExitCode: number, StartedAt?: string, FinishedAt?: string, Health?: { Status: string } }
+  Mounts?: { Type: string, Name?: string, Source: string, Destination: string, RW: boolean }[]
+  NetworkSettings?: { Ports?: { [containerPortAndProtocol: string]: { HostIp: string, HostPort: string }[] | null } | null, Networks?: { [name: string]: unknown } | null }
+}
+
+/**
+ * The reason a docker compose service isn't ready, returned by {@link getDockerComposeServiceHealthProblem}.
+ */
+export interface DockerComposeServiceHealthProblem {
+  serviceName: string
+  reason: string
+  /** `true` if the service can't become ready without intervention, for example because its container exited with a non-zero code. */
+  isFatal: boolean
+}
+
+/**
+ * Check whether the containers of a docker compose service are ready. Used by {@link waitForDockerComposeServicesHealthy} on each poll.
+ * 
+ * - No containers means the service hasn't started yet (not fatal)
+ * - A container that exited with code 0 is treated as done
+ * - A container that exited with a non-zero code or is dead is fatal
+ * - A container with a healthcheck must be `healthy`
+ * - A running container without a healthcheck must have something listening on each of its published ports
+ * @param serviceName The service name as defined in the docker compose file
+ * @param containers The containers for the service, for example from {@link getDockerComposeServices}
+ * @returns The first problem found, or `undefined` if the service is ready
+ */
+export async function getDockerComposeServiceHealthProblem(serviceName: string, containers: DockerComposeService[]): Promise<DockerComposeServiceHealthProblem | undefined> {
+  if (containers.length === 0) {
+    return { serviceName, reason: 'no container found for service', isFatal: false }
+  }
+  for (const container of containers) {
+    if (container.state === 'exited' && container.exitCode === 0) {
+      continue
+    }
+    if (container.state === 'exited' || container.state === 'dead') {
+      return { serviceName, reason: `container ${container.containerName} ${container.state} with code ${container.exitCode}`, isFatal: true }
+    }
+    if (container.state !== 'running') {
+      return { serviceName, reason: `container ${container.containerName} is ${container.state}`, isFatal: false }
+    }
+    if (container.health) {
+      if (container.health !== 'healthy') {
+        return { serviceName, reason: `container ${container.containerName} health status is ${container.health}`, isFatal: false }
+      }
+      continue
+    }
+    // No healthcheck defined - fall back to checking whether anything is listening on the published ports
+    for (const port of container.publishedPorts) {
+      if (await isPortAvailable(port.hostPort)) {
+        return { serviceName, reason: `container ${container.containerName} is not listening on published port ${port.hostPort}`, isFatal: false }
+      }
+    }
+  }
+  return undefined
+}
+
+async function getDockerComposeServiceLogLines(dockerComposePath: string | string[], serviceName: string, options: DockerComposeQueryOptions & { logLineCount: number }): Promise<string[]> {
+  try {
+    const result = await simpleSpawnDockerComposeQuery(dockerComposePath, ['logs', '--no-color', '--tail', `${options.logLineCount}`, serviceName], options)
+    return result.stdoutLines
+  } catch (err) {
+    trace(`unable to get logs for docker compose service ${serviceName}`, err)
+    return []
+  }
+}
+
+// Runs a read-only docker compose command against specific compose files and returns the output
+async function simpleSpawnDockerComposeQuery(dockerComposePaths: string | string[], args: string[], options: DockerComposeQueryOptions): Promise<SimpleSpawnResult> {
+  const spawnParams = getDockerComposeQuerySpawnParams(dockerComposePaths, args, options)
+  return await simpleSpawnAsync(spawnParams.command, spawnParams.args, { cwd: spawnParams.cwd, dryRun: false })
+}
+
+function getDockerComposeQuerySpawnParams(dockerComposePaths: string | string[], args: string[], options: DockerComposeQueryOptions): { command: string, args: string[], cwd: string } {
+  const paths = toArray(dockerComposePaths)
+  if (paths.length === 0) {
+    throw new Error('At least one docker compose path is required')
+  }
+  paths.forEach(composePath => requireValidPath('dockerComposePath', composePath))
+  const useWslPrefix = options.useWslPrefix ?? config.useWslPrefixForDockerCommandsOnWindows
+  const composeArgs = ['compose', ...paths.flatMap(composePath => ['-f', useWslPrefix ? toWslPath(path.resolve(composePath)) : path.resolve(composePath)])]
+  if (options.projectName) {
+    composeArgs.push('--project-name', options.projectName)
+  }
+  for (const profile of options.profiles ?? []) {
+    composeArgs.push('--profile', profile)
+  }
+  const engine = getContainerEngine()
+  return {
+    command: useWslPrefix ? 'wsl' : engine,
+    args: useWslPrefix ? [engine, ...composeArgs, ...args] : [...composeArgs, ...args],
+    cwd: path.dirname(paths[0])
+  }
+}
+
+// Subset of the fields from `docker compose config --format json`
+interface RawDockerComposeConfig {
+  name?: string
+  services?: { [name: string]: RawDockerComposeServiceConfig }
+  volumes?: { [key: string]: RawDockerComposeResourceConfig | null }
+  networks?: { [key: string]: RawDockerComposeResourceConfig | null }
+}
+
+interface RawDockerComposeServiceConfig {
+  image?: string
+  container_name?: string
+  ports?: { target: number, published?: string | number, protocol?: string, host_ip?: string }[]
+  volumes?: { type: string, source?: string, target: string, read_only?: boolean }[]
+  environment?: { [key: string]: string | null }
+  depends_on?: { [service: string]: unknown }
+  profiles?: string[]
+  networks?: { [name: string]: unknown }
+  labels?: StringKeyedDictionary
+  healthcheck?: { test?: string[], interval?: string, timeout?: string, retries?: number, start_period?: string, disable?: boolean }
+}
+
+interface RawDockerComposeResourceConfig {
+  name?: string
+  external?: boolean
+  driver?: string
+}
+
+function parseComposeServiceConfig(name: string, raw: RawDockerComposeServiceConfig): DockerComposeServiceConfig {
+  const environment: StringKeyedDictionary = {}
+  for (const [key, value] of Object.entries(raw.environment ?? {})) {
+    environment[key] = value ?? ''
+  }
+  return {
+    name,
+    image: raw.image,
+    containerName: raw.container_name,
+    ports: (raw.ports ?? []).map(port => ({
+      target: port.target,
+      published: port.published === undefined || port.published === '' ? undefined : Number(port.published),
+      protocol: port.protocol ?? 'tcp',
+      hostIp: port.host_ip
+    })),
+    volumes: (raw.volumes ?? []).map(volume => ({ type: volume.type, source: volume.source, target: volume.target, readOnly: volume.read_only ?? false })),
+    environment,
+    dependsOn: Object.keys(raw.depends_on ?? {}),
+    profiles: raw.profiles ?? [],
+    networks: Object.keys(raw.networks ?? {}),
+    labels: raw.labels ?? {},
+    healthcheck: raw.healthcheck ? {
+      test: raw.healthcheck.test ?? [],
+      interval: raw.healthcheck.interval,
+      timeout: raw.healthcheck.timeout,
+      retries: raw.healthcheck.retries,
+      startPeriod: raw.healthcheck.start_period,
+      disable: raw.healthcheck.disable ?? false
+    } : undefined
+  }
+}
+
+function parseComposeResourceConfigs(raw?: { [key: string]: RawDockerComposeResourceConfig | null }): DockerComposeResourceConfig[] {
+  return Object.entries(raw ?? {}).map(([key, resource]) => ({
+    key,
+    name: resource?.name ?? key,
+    external: resource?.external ?? false,
+    driver: resource?.driver
+  }))
+}
+
+function toArray(value: string | string[] | undefined): string[] {
+  if (value === undefined) {
+    return []
+  }
+  return Array.isArray(value) ? value : [value]
+}
+
+// Older versions of docker compose output a JSON array and newer versions output one JSON object per line
+function parseJsonOrJsonLines(stdout: string): unknown[] {
+  const trimmed = stdout.trim()
+  if (trimmed === '') {
+    return []
+  }
+  if (trimmed.startsWith('[')) {
+    return JSON.parse(trimmed)
+  }
+  return trimmed.split('\n').filter(line => line.trim() !== '').map(line => JSON.parse(line))
+}
+
+interface RawDockerSystemDfRow {
+  Type?: string
+  TotalCount?: string | number
+  Active?: string | number
+  Size?: string
+  Reclaimable?: string
+}
+
+// Docker reports sizes with decimal units, for example `1.2GB`, `512kB` or `800MB (66%)`
+function parseDockerSize(size: string): number {
+  const match = /^([\d.]+)\s*([kKMGTP]?)B/.exec(size.trim())
+  if (!match) {
+    return 0
+  }
+  const exponent = ['', 'k', 'M', 'G', 'T', 'P'].indexOf(match[2] === 'K' ? 'k' : match[2])
+  return Math.round(Number(match[1]) * Math.pow(1000, exponent))
+}
@@ -0,0 +1,286 @@
+import fsp from 'node:fs/promises'
+import path from 'node:path'
+import { DryRunOptions, requireString, requireValidPath, trace } from './generalUtils.js'
+import { decodeXmlEntities, findFileInParentDirectories, isDryRun, logDryRunFileChange } from './generalUtilsInternal.js'
+
+/** `PackageReference` items are used in project files and `PackageVersion` items are used in `Directory.Packages.props` files. */
+export type NugetPackageItemType = 'PackageReference' | 'PackageVersion'
+
+/**
+ * A `PackageReference` or `PackageVersion` item from a project file or `Directory.Packages.props` file.
+ */
+export interface NugetPackageItem {
+  itemType: NugetPackageItemType
+  /** The `Include` attribute value. */
+  packageName: string
+  /**
+   * The `Version` attribute or child element value, for example `8.0.1`, `[8.0,9.0)` or `$(EfVersion)`. Undefined if the item doesn't have a version,
+   * for example a `PackageReference` in a project that uses central package management.
+   */
+  version?: string
+}
+
+interface NugetPackageItemMatch extends NugetPackageItem {
+  start: number
+  end: number
+  attributesStart: number
+  attributes: string
+  body?: string
+  bodyStart: number
+}
+
+interface ValueMatch {
+  value: string
+  start: number
+  end: number
+}
+
+const directoryPackagesPropsFileName = 'Directory.Packages.props'
+
+/**
+ * Get the `PackageReference` and `PackageVersion` items from a project file (for example `.csproj`) or `Directory.Packages.props` file.
+ * Commented out items are ignored.
+ */
+export async function getNugetPackageItems(filePath: string): Promise<NugetPackageItem[]> {
+  requireValidPath('filePath', filePath)
+  return getNugetPackageItemsFromXml(await fsp.readFile(filePath, 'utf-8'))
+}
+
+/**
+ * Add a package item to a project file or `Directory.Packages.props` file. A `PackageVersion` item is added to `Directory.Packages.props` files and a
+ * `PackageReference` item to other files. The item is added after the last item of the same type, or in a new `ItemGroup` at the end of the project
+ * if there aren't any. The rest of the file is left as-is.
+ * @param filePath The path to the project file or `Directory.Packages.props` file
+ * @param packageName The package name
+ * @param version The package version or version range. Required for `Directory.Packages.props` files. Leave undefined to add a `PackageReference`
+ * without a version to a project that uses central package management.
+ * @throws If the file already has an item for the package.
+ */
+export async function addNugetPackageItem(filePath: string, packageName: string, version?: string, options?: DryRunOptions): Promise<void> {
+  requireString('packageName', packageName)
+  const itemType = getNugetPackageItemType(filePath)
+  if (itemType === 'PackageVersion' && !version) {
+    throw new Error(`A version is required to add a package to ${directoryPackagesPropsFileName}: ${packageName}`)
+  }
+  await changeXmlFile(filePath, xml => addNugetPackageItemToXml(xml, itemType, packageName, version), options)
+}
+
+/**
+ * Update the version of a package item in a project file or `Directory.Packages.props` file. The `Version` attribute or child element is updated
+ * in place, or a `Version` attribute is added if the item doesn't have a version.
+ * @throws If the file doesn't have an item for the package.
+ */
+export async function updateNugetPackageItem(filePath: string, packageName: string, version: string, options?: DryRunOptions): Promise<void> {
+  requireString('packageName', packageName)
+  requireString('version', version)
+  await changeXmlFile(filePath, xml => updateNugetPackageItemInXml(xml, packageName, version), options)
+}
+
+/**
+ * Remove the package item from a project file or `Directory.Packages.props` file. If that leaves the `ItemGroup` empty, the `ItemGroup` is removed as well.
+ * @returns `true` if the item was removed, or `false` if the file doesn't have an item for the package
+ */
+export async function removeNugetPackageItem(filePath: string, packageName: string, options?: DryRunOptions): Promise<boolean> {
+  requireString('packageName', packageName)
+  let removed = false
+  await changeXmlFile(filePath, xml => {
+    const newXml = removeNugetPackageItemFromXml(xml, packageName)
+    removed = newXml !== xml
+    return newXml
+  }, options)
+  return removed
+}
+
+/**
+ * Search the directory and its parent directories for a `Directory.Packages.props` file, the same way MSBuild does for central package management.
+ * @param startDir The directory to start searching from, usually the directory of a project file.
+ * @returns The path to the closest `Directory.Packages.props` file, or undefined if none was found
+ */
+export function findDirectoryPackagesProps(startDir: string): string | undefined {
+  return findFileInParentDirectories(startDir, [directoryPackagesPropsFileName])
+}
+
+/**
+ * Get the target frameworks from the `TargetFramework` or `TargetFrameworks` property of a project file, for example `['net8.0']` or `['net6.0', 'net8.0']`.
+ * @throws If the project file doesn't have either property (for example if it's only set in a `Directory.Build.props` file).
+ */
+export async function getProjectTargetFrameworks(projectPath: string): Promise<string[]> {
+  requireValidPath('projectPath', projectPath)
+  const xml = maskXmlComments(await fsp.readFile(projectPath, 'utf-8'))
+  const match = /<(TargetFrameworks?)>([^<]*)<\/\1\s*>/.exec(xml)
+  const targetFrameworks = (match?.[2] ?? '').split(';').map(tfm => tfm.trim()).filter(tfm => tfm !== '')
+  if (targetFrameworks.length === 0) {
+    throw new Error(`Could not find the TargetFramework or TargetFrameworks property in project file: ${projectPath}`)
+  }
+  return targetFrameworks
+}
+
+export function getNugetPackageItemsFromXml(xml: string): NugetPackageItem[] {
+  return getItemMatches(xml).map(({ itemType, packageName, version }) => ({ itemType, packageName, version }))
+}
+
+export function addNugetPackageItemToXml(xml: string, itemType: NugetPackageItemType, packageName: string, version?: string): string {
+  const items = getItemMatches(xml)
+  if (items.some(item => item.itemType === itemType && isSamePackage(item.packageName, packageName))) {
+    throw new Error(`There is already a ${itemType} item for package ${packageName}`)
+  }
+  const eol = xml.includes('\r\n') ? '\r\n' : '\n'
+  const versionAttribute = version !== undefined ? ` Version="${escapeXmlAttribute(version)}"` : ''
+  const element = `<${itemType} Include="${escapeXmlAttribute(packageName)}"${versionAttribute} />`
+
+  const sameTypeItems = items.filter(item => item.itemType === itemType)
+  if (sameTypeItems.length > 0) {
+    const lastItem = sameTypeItems[sameTypeItems.length - 1]
+    return `${xml.substring(0, lastItem.end)}${eol}${getLineIndent(xml, lastItem.start)}${element}${xml.substring(lastItem.end)}`
+  }
+
+  const masked = maskXmlComments(xml)
+  const projectEnd = masked.lastIndexOf('</Project>')
+  if (projectEnd === -1) {
+    throw new Error('Invalid project file - the </Project> element is missing')
+  }
+  const indent = /^([ \t]+)</m.exec(masked)?.[1] ?? '  '
+  const itemGroup = `${indent}<ItemGroup>${eol}${indent}${indent}${element}${eol}${indent}</ItemGroup>${eol}`
+  const lineStart = xml.lastIndexOf('\n', projectEnd) + 1
+  if (xml.substring(lineStart, projectEnd).trim() !== '') {
+    return `${xml.substring(0, projectEnd)}${eol}${itemGroup}${xml.substring(projectEnd)}`
+  }
+  // Top level elements are usually separated by blank lines, so keep the blank line before </Project> if there is one
+  const hasBlankLineBefore = /\n[ \t]*\r?\n$/.test(xml.substring(0, lineStart))
+  return `${xml.substring(0, lineStart)}${itemGroup}${hasBlankLineBefore ? eol : ''}${xml.substring(lineStart)}`
+}
+
+export function updateNugetPackageItemInXml(xml: string, packageName: string, version: string): string {
+  const item = getItemMatches(xml).find(item => isSamePackage(item.packageName, packageName))
+  if (!item) {
+    throw new Error(`There is no PackageReference or PackageVersion item for package ${packageName}`)
+  }
+  const escapedVersion = escapeXmlAttribute(version)
+  const versionMatch = getVersionMatch(item)
+  if (versionMatch) {
+    return `${xml.substring(0, versionMatch.start)}${escapedVersion}${xml.substring(versionMatch.end)}`
+  }
+  const includeMatch = getAttributeMatch(item.attributes, item.attributesStart, 'Include')!
+  const quoteEnd = includeMatch.end + 1
+  return `${xml.substring(0, quoteEnd)} Version="${escapedVersion}"${xml.substring(quoteEnd)}`
+}
+
+export function removeNugetPackageItemFromXml(xml: string, packageName: string): string {
+  const item = getItemMatches(xml).find(item => isSamePackage(item.packageName, packageName))
+  if (!item) {
+    return xml
+  }
+  const removed = removeRangeWithLine(xml, item.start, item.end)
+  const emptyItemGroup = [...maskXmlComments(removed.xml).matchAll(/<ItemGroup\b[^>]*>\s*<\/ItemGroup\s*>/g)]
+    .find(match => match.index! <= removed.position && match.index! + match[0].length >= removed.position)
+  if (!emptyItemGroup) {
+    return removed.xml
+  }
+  const withoutItemGroup = removeRangeWithLine(removed.xml, emptyItemGroup.index!, emptyItemGroup.index! + emptyItemGroup[0].length)
+  // Avoid leaving two blank lines where the ItemGroup was
+  const blankLineAfter = /^[ \t]*\r?\n/.exec(withoutItemGroup.xml.substring(withoutItemGroup.position))
+  const hasBlankLineBefore = /(^|\n)[ \t]*\r?\n$/.test(withoutItemGroup.xml.substring(0, withoutItemGroup.position))
+  if (blankLineAfter && hasBlankLineBefore) {
+    return `${withoutItemGroup.xml.substring(0, withoutItemGroup.position)}${withoutItemGroup.xml.substring(withoutItemGroup.position + blankLineAfter[0].length)}`
+  }
+  return withoutItemGroup.xml
+}
+
+function getNugetPackageItemType(filePath: string): NugetPackageItemType {
+  return path.basename(filePath).toLowerCase() === directoryPackagesPropsFileName.toLowerCase() ? 'PackageVersion' : 'PackageReference'
+}
+
+async function changeXmlFile(filePath: string, change: (xml: string) => string, options?: DryRunOptions) {
+  requireValidPath('filePath', filePath)
+  const xml = await fsp.readFile(filePath, 'utf-8')
+  const newXml = change(xml)
+  if (newXml === xml) {
+    trace(`no changes to ${filePath}`)
+    return
+  }
+  if (isDryRun(options?.dryRun)) {
+    logDryRunFileChange(filePath, xml, newXml)
+    return
+  }
+  await fsp.writeFile(filePath, newXml)
+}
+
+// Replaces comments with spaces so commented out elements are ignored without changing the position of anything else
+function maskXmlComments(xml: string): string {
+  return xml.replace(/<!--[\s\S]*?-->/g, comment => ' '.repeat(comment.length))
+}
+
+function getItemMatches(xml: string): NugetPackageItemMatch[] {
+  const masked = maskXmlComments(xml)
+  const items: NugetPackageItemMatch[] = []
+  for (const match of masked.matchAll(/<(PackageReference|PackageVersion)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/\1\s*>)/g)) {
+    const [fullMatch, itemType, attributes, body] = match
+    const attributesStart = match.index! + 1 + itemType.length
+    const include = getAttributeMatch(attributes, attributesStart, 'Include')
+    if (!include) {
+      continue
+    }
+    const item: NugetPackageItemMatch = {
+      itemType: itemType as NugetPackageItemType,
+      packageName: decodeXmlEntities(include.value),
+      start: match.index!,
+      end: match.index! + fullMatch.length,
+      attributesStart,
+      attributes,
+      body,
+      bodyStart: attributesStart + attributes.length + 1
+    }
+    const version = getVersionMatch(item)
+    if (version) {
+      item.version = decodeXmlEntities(version.value)
+    }
+    items.push(item)
+  }
+  return items
+}
+
+function getVersionMatch(item: NugetPackageItemMatch): ValueMatch | undefined {
+  const attribute = getAttributeMatch(item.attributes, item.attributesStart, 'Version')
+  if (attribute || item.body === undefined) {
+    return attribute
+  }
+  const element = /<Version\s*>([^<]*)<\/Version\s*>/.exec(item.body)
+  if (!element) {
+    return undefined
+  }
+  const start = item.bodyStart + element.index + element[0].indexOf('>') + 1
+  return { value: element[1], start, end: start + element[1].length }
+}
+
+function getAttributeMatch(attributes: string, attributesStart: number, name: string): ValueMatch | undefined {
+  const match = new RegExp(`(^|\\s)${name}\\s*=\\s*(["'])(.*?)\\2`).exec(attributes)
+  if (!match) {
+    return undefined
+  }
+  const value = match[3]
+  const end = attributesStart + match.index + match[0].length - 1
+  return { value, start: end - value.length, end }
+}
+
+// Removes the range along with its line if there's nothing else on the line. Returns the new xml and the position where the range was.
+function removeRangeWithLine(xml: string, start: number, end: number): { xml: string, position: number } {
+  const lineStart = xml.lastIndexOf('\n', start - 1) + 1
+  const lineEndMatch = /^[ \t]*(\r?\n|$)/.exec(xml.substring(end))
+  if (xml.substring(lineStart, start).trim() === '' && lineEndMatch) {
+    return { xml: `${xml.substring(0, lineStart)}${xml.substring(end + lineEndMatch[0].length)}`, position: lineStart }
+  }
+  return { xml: `${xml.substring(0, start)}${xml.substring(end)}`, position: start }
+}
+
+function getLineIndent(xml: string, position: number): string {
+  const lineStart = xml.lastIndexOf('\n', position - 1) + 1
+  return /^[ \t]*/.exec(xml.substring(lineStart, position))![0]
+}
+
+function isSamePackage(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase()
+}
+
+function escapeXmlAttribute(value: string): string {
+  return value.replaceAll('&', '&amp;').replaceAll('<', '&lt;').replaceAll('"', '&quot;')
+}
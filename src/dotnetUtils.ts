@@ -1,8 +1,9 @@
 import fs from 'fs'
 import path from 'node:path'
 import { getInstalledSdkVersions } from './DotnetSdkUtility.js'
-import { getLatestNugetPackageVersion, validatePackageName } from './NugetUtility.js'
-import { Emoji, log, requireString, requireValidPath, simpleSpawnAsync, spawnAsync, trace } from './generalUtils.js'
+import { NugetFeed, readNugetConfigFeeds } from './NugetFeed.js'
+import { CachingNugetAccessor, NugetAccessor, NugetCacheOptions, NugetUtility, validatePackageName } from './NugetUtility.js'
+import { DryRunOptions, Emoji, log, requireString, requireValidPath, simpleSpawnAsync, spawnAsync, trace } from './generalUtils.js'
 
 const toolManifestPartialPath = '.config/dotnet-tools.json'
 
@@ -10,8 +11,24 @@ const toolManifestPartialPath = '.config/dotnet-tools.json'
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
 import type { SpawnError } from './generalUtils.js'
 
-export { getInstalledSdkVersions, isSdkMajorVersionInstalled, isSdkMajorVersionOrGreaterInstalled } from './DotnetSdkUtility.js'
-export { getLatestNugetPackageVersion, getLatestMajorNugetPackageVersion } from './NugetUtility.js'
+export { getInstalledSdkVersions, getLatestInstalledSdkVersion, isSdkMajorVersionInstalled, isSdkMajorVersionOrGreaterInstalled } from './DotnetSdkUtility.js'
+export { getHighestNugetPackageVersion, getLatestNugetPackageVersion, getLatestMajorNugetPackageVersion, updateNugetPackagesToLatestCompatible } from './NugetUtility.js'
+export type { NugetPackageUpdate, UpdateNugetPackagesOptions } from './NugetUtility.js'
+export {
+  addNugetPackageItem,
+  findDirectoryPackagesProps,
+  getNugetPackageItems,
+  getProjectTargetFrameworks,
+  removeNugetPackageItem,
+  updateNugetPackageItem
+} from './dotnetProjectUtils.js'
+export type { NugetPackageItem, NugetPackageItemType } from './dotnetProjectUtils.js'
+export { NugetSemanticVersion, NugetVersionRange, compareNugetVersions } from './NugetSemanticVersion.js'
+export type { NugetFloatBehavior } from './NugetSemanticVersion.js'
+export { findNugetConfig, nugetOrgFeed, readNugetConfigFeeds } from './NugetFeed.js'
+export type { NugetFeed, NugetFeedCredentials } from './NugetFeed.js'
+export { CachingNugetAccessor, defaultNugetCacheDir } from './NugetUtility.js'
+export type { CachingNugetAccessorOptions, NugetCacheOptions } from './NugetUtility.js'
 
 /**
  * Runs dotnet build on the specified project.
@@ -29,8 +46,9 @@ export async function dotnetBuild(projectPath: string) {
  * @param configuration Build configuration, such as 'Release'
  * @param outputDir The relative or absolute path for the build output
  * @param cwd Optionally run the command from another current working directory
+ * @param options Optional per-call override for `config.dryRun`. See {@link DryRunOptions}.
  */
-export async function dotnetPublish(projectPath: string = './', configuration: string = 'Release', outputDir: string = 'publish', cwd?: string) {
+export async function dotnetPublish(projectPath: string = './', configuration: string = 'Release', outputDir: string = 'publish', cwd?: string, options?: DryRunOptions) {
   requireValidPath('projectPath', projectPath)
   requireString('outputDir', outputDir)
   requireString('configuration', configuration)
@@ -41,10 +59,10 @@ export async function dotnetPublish(projectPath: string = './', configuration: s
   const traceMessage = `running dotnet ${args.join(' ')}`
   const traceAdditional = cwd ? ` in cwd ${cwd}` : ''
   trace(`${traceMessage}${traceAdditional}`)
-  await spawnAsync('dotnet', args, { cwd: cwd })
+  await spawnAsync('dotnet', args, { cwd: cwd, dryRun: options?.dryRun })
 }
 
-export interface EnsureDotnetToolOptions {
+export interface EnsureDotnetToolOptions extends DryRunOptions {
   /** Defaults to `false`. */
   global: boolean,
   /** Optionally specify a dotnet version instead of using the latest installed version. */
@@ -55,12 +73,28 @@ export interface EnsureDotnetToolOptions {
    * **Note:** this option is only relevant if the `global` option is `false`.
    * */
   cwd: string
+  /**
+   * Optional. Feeds to look up and install the tool from instead of nuget.org (see {@link NugetFeed}). Each feed url is passed to `dotnet tool install`
+   * with `--add-source`. The dotnet CLI can't use the credentials from this option, so for feeds that require credentials use {@link nugetConfigPath} instead.
+   */
+  feeds?: NugetFeed[]
+  /**
+   * Optional. Path to a `nuget.config` file. If the {@link feeds} option isn't set, the feeds from this file (see {@link readNugetConfigFeeds}) are used
+   * to look up the tool version. The file is passed to `dotnet tool install` with `--configfile`.
+   */
+  nugetConfigPath?: string
+  /**
+   * Defaults to `{}`. Options for caching NuGet responses on disk when looking up the tool version (see {@link CachingNugetAccessor}), or `false` to
+   * always query the feeds. Use `{ offline: true }` to only use cached responses.
+   */
+  nugetCache?: Partial<NugetCacheOptions> | false
 }
 
 /**
  * Installs or updates a dotnet CLI tool. Only supports dotnet 5+. Runs a combination of `dotnet --list-sdks`, `dotnet new tool-manifest`,
  * `dotnet tool uninstall` and `dotnet tool install`. Nuget.org will be queried to determine the latest compatible version of the tool for your
  * latest installed dotnet SDK version, or the dotnet SDK version specified in options (the version passed in options must also be installed).
+ * Responses are cached on disk by default (see {@link EnsureDotnetToolOptions.nugetCache}).
  * 
  * Defaults that can be overridden with options ({@link EnsureDotnetToolOptions}):
  * - Local install
@@ -91,6 +125,11 @@ export async function ensureDotnetTool(toolName: string, options?: Partial<Ensur
     cwd = process.cwd()
   }
 
+  if (options?.nugetConfigPath) {
+    requireValidPath('options.nugetConfigPath', options.nugetConfigPath)
+  }
+  const feeds = options?.feeds ?? (options?.nugetConfigPath ? readNugetConfigFeeds(options.nugetConfigPath) : undefined)
+
   const dotnetVersions = await getInstalledSdkVersions()
   if (dotnetVersions.length === 0) {
     throw new Error('dotnet is not installed')
@@ -117,8 +156,10 @@ export async function ensureDotnetTool(toolName: string, options?: Partial<Ensur
 
   log(`ensuring dotnet tool "${toolName}" is installed ${globalInstall ? 'global' : 'local'}ly with the latest compatible version for dotnet ${dotnetVersion}`)
 
-  log(`looking up latest compatible version in Nuget repository for tool "${toolName}"`)
-  const latestToolVersion = await getLatestNugetPackageVersion(toolName, tfm)
+  log(`looking up latest compatible version in Nuget repository for tool "${toolName}"${feeds ? ` using feeds: ${feeds.map(feed => feed.name).join(', ')}` : ''}`)
+  const nugetCache = options?.nugetCache ?? {}
+  const nugetAccessor = nugetCache === false ? new NugetAccessor({ feeds }) : new CachingNugetAccessor({ ...nugetCache, feeds })
+  const latestToolVersion = await new NugetUtility({ nugetAccessor }).getLatestNugetPackageVersion(toolName, tfm)
   if (latestToolVersion === null) {
     throw new Error(`No compatible version of ${toolName} was found for TFM ${tfm}`)
   }
@@ -129,14 +170,20 @@ export async function ensureDotnetTool(toolName: string, options?: Partial<Ensur
   const installedVersion = await getDotnetToolInstalledVersion(toolName, globalInstall, cwd)
 
   const commandLocalitySwitch = globalInstall ? '--global' : '--local'
+  const installArgs = ['tool', 'install', toolName, commandLocalitySwitch, '--version', latestToolVersion]
+  if (options?.nugetConfigPath) {
+    installArgs.push('--configfile', options.nugetConfigPath)
+  }
+  for (const feed of options?.feeds ?? []) {
+    installArgs.push('--add-source', feed.url)
+  }
   if (installedVersion === null) {
     log(`dotnet tool is not installed, attempting to install`)
     if (!globalInstall) {
-      await ensureDotnetToolManifest(cwd)
+      await ensureDotnetToolManifest(cwd, options)
     }
-    const command = `dotnet tool install ${toolName} ${commandLocalitySwitch} --version ${latestToolVersion}`
-    log(`installing with command: ${command}`)
-    await spawnAsync('dotnet', command.split(' '), { throwOnNonZero: true, cwd: cwd })
+    log(`installing with command: dotnet ${installArgs.join(' ')}`)
+    await spawnAsync('dotnet', installArgs, { throwOnNonZero: true, cwd: cwd, dryRun: options?.dryRun })
     log(`finished tool install`)
   } else {
     log(`found installed dotnet tool "${toolName}" version ${installedVersion}`)
@@ -146,14 +193,13 @@ export async function ensureDotnetTool(toolName: string, options?: Partial<Ensur
     }
     log(`latest version and installed version do not match - uninstalling the existing version before re-installing`)
     if (!globalInstall) {
-      await ensureDotnetToolManifest()
+      await ensureDotnetToolManifest(undefined, options)
     }
-    const uninstallCommand = `dotnet tool uninstall ${toolName} ${commandLocalitySwitch}`
-    log(`uninstalling with command: ${uninstallCommand}`)
-    await spawnAsync('dotnet', uninstallCommand.split(' '), { throwOnNonZero: true, cwd: cwd })
-    const command = `dotnet tool install ${toolName} ${commandLocalitySwitch} --version ${latestToolVersion}`
-    log(`installing with command: ${command}`)
-    await spawnAsync('dotnet', command.split(' '), { throwOnNonZero: true, cwd: cwd })
+    const uninstallArgs = ['tool', 'uninstall', toolName, commandLocalitySwitch]
+    log(`uninstalling with command: dotnet ${uninstallArgs.join(' ')}`)
+    await spawnAsync('dotnet', uninstallArgs, { throwOnNonZero: true, cwd: cwd, dryRun: options?.dryRun })
+    log(`installing with command: dotnet ${installArgs.join(' ')}`)
+    await spawnAsync('dotnet', installArgs, { throwOnNonZero: true, cwd: cwd, dryRun: options?.dryRun })
     log(`finished tool install`)
   }
 }
@@ -164,8 +210,10 @@ export async function ensureDotnetTool(toolName: string, options?: Partial<Ensur
  * The tool manifest is required when installing local dotnet tools. Note that dotnet searches up the directory tree
  * for a tool manifest, so tools can be installed in a solution root directory and be picked up by dotnet when run
  * in subdirectories.
+ * @param cwd The directory to check for and create the tool manifest in
+ * @param options Optional per-call override for `config.dryRun`. See {@link DryRunOptions}.
  */
-export async function ensureDotnetToolManifest(cwd: string = process.cwd()) {
+export async function ensureDotnetToolManifest(cwd: string = process.cwd(), options?: DryRunOptions) {
   requireValidPath('cwd', cwd)
   const toolsManifestPath = path.join(cwd, toolManifestPartialPath)
   log(`checking if tool manifest exists at ${toolsManifestPath}`)
@@ -174,7 +222,7 @@ export async function ensureDotnetToolManifest(cwd: string = process.cwd()) {
     log(`tool manifest already exists`)
   } else {
     log(`tool manifest does not exist, attempting to create with command: dotnet new tool-manifest`)
-    await spawnAsync('dotnet', ['new', 'tool-manifest'], { throwOnNonZero: true, cwd })
+    await spawnAsync('dotnet', ['new', 'tool-manifest'], { throwOnNonZero: true, cwd, dryRun: options?.dryRun })
     log(`created tool manifest at ${toolsManifestPath}`)
   }
 }
@@ -190,7 +238,7 @@ async function getDotnetToolInstalledVersion(toolName: string, globalInstall: bo
   validatePackageName(toolName)
   requireValidPath('cwd', cwd)
 
-  const result = await simpleSpawnAsync('dotnet', ['tool', 'list', globalInstall ? '--global' : '--local'], { cwd: cwd })
+  const result = await simpleSpawnAsync('dotnet', ['tool', 'list', globalInstall ? '--global' : '--local'], { cwd: cwd, dryRun: false })
 
   // The dotnet CLI can output an initial welcome message on first use - find the actual first line of output that we're looking for
   let lines = result.stdoutLines
@@ -0,0 +1,239 @@
+import fs from 'node:fs'
+import { config } from './NodeCliUtilsConfig.js'
+import { SecretRegistry, defaultSecretKeyPatterns } from './SecretRegistry.js'
+import { StringKeyedDictionary, requireValidPath } from './generalUtils.js'
+
+/**
+ * A single `KEY=value` entry parsed from a .env file by {@link parseEnvEntries}.
+ */
+export interface EnvEntry {
+  key: string
+  /** The parsed value with quotes removed, escapes processed and `${VAR}` references interpolated (unless disabled). */
+  value: string
+  /** The value exactly as it was written in the file, including any quotes. */
+  rawValue: string
+  /** The 1-based line number that the entry starts on. */
+  lineNumber: number
+  /** Index in the parsed contents of the first character of the entry (the `export` prefix or the key). */
+  startIndex: number
+  /** Index in the parsed contents of the first character of {@link rawValue}. */
+  valueStartIndex: number
+  /** Index in the parsed contents just past the last character of {@link rawValue}. */
+  valueEndIndex: number
+}
+
+export interface ParseEnvOptions {
+  /** Defaults to `true`. If `false`, `${VAR}` references are left in values as-is. */
+  interpolate: boolean
+  /** Defaults to `true`. If `true`, `${VAR}` references to keys not defined earlier in the file are resolved from `process.env`. */
+  processEnvFallback: boolean
+}
+
+const defaultParseEnvOptions: ParseEnvOptions = {
+  interpolate: true,
+  processEnvFallback: true
+}
+
+// Optional export prefix, key, and equals sign with surrounding whitespace
+const entryStartRegex = /(?:export[ \t]+)?([A-Za-z_][A-Za-z0-9_.-]*)[ \t]*=[ \t]*/y
+
+/**
+ * Parses the contents of a .env file into a list of entries in the order they appear. Supports:
+ * - Blank lines and `#` comment lines
+ * - Optional `export ` prefix (`export KEY=value`)
+ * - Unquoted values (surrounding whitespace is trimmed and a `#` preceded by whitespace starts an inline comment)
+ * - Double quoted values with escapes (`\n`, `\r`, `\t`, `\"`, `\\` and `\$` for a literal `$`)
+ * - Single quoted and backtick quoted values, which are taken literally (no escapes or interpolation)
+ * - Multiline values using any of the quote types
+ * - `${VAR}` and `${VAR:-default}` interpolation in unquoted and double quoted values, using keys defined earlier in the file and then `process.env`
+ *
+ * Lines that aren't comments and don't look like `KEY=value` are ignored.
+ * @param contents The contents of a .env file
+ * @param options See {@link ParseEnvOptions}
+ * @returns The entries in the order they appear. If a key appears more than once, each occurrence is returned.
+ * @throws An {@link Error} if a quoted value is never closed
+ */
+export function parseEnvEntries(contents: string, options?: Partial<ParseEnvOptions>): EnvEntry[] {
+  const mergedOptions = { ...defaultParseEnvOptions, ...options }
+  const entries: EnvEntry[] = []
+  const definedValues: StringKeyedDictionary = {}
+  const lookup = (name: string): string | undefined => {
+    if (name in definedValues) {
+      return definedValues[name]
+    }
+    return mergedOptions.processEnvFallback ? process.env[name] : undefined
+  }
+
+  let pos = 0
+  let lineNumber = 1
+
+  const skipToNextLine = () => {
+    const newlineIndex = contents.indexOf('\n', pos)
+    pos = newlineIndex === -1 ? contents.length : newlineIndex
+  }
+
+  while (pos < contents.length) {
+    const char = contents[pos]
+    if (char === '\n') {
+      lineNumber++
+      pos++
+      continue
+    }
+    if (char === ' ' || char === '\t' || char === '\r') {
+      pos++
+      continue
+    }
+    if (char === '#') {
+      skipToNextLine()
+      continue
+    }
+
+    entryStartRegex.lastIndex = pos
+    const match = entryStartRegex.exec(contents)
+    if (!match) {
+      skipToNextLine()
+      continue
+    }
+
+    const key = match[1]
+    const entryLineNumber = lineNumber
+    const startIndex = pos
+    pos += match[0].length
+    const valueStartIndex = pos
+
+    const quote = contents[pos]
+    let rawValue: string
+    let value: string
+
+    if (quote === '"' || quote === `'` || quote === '`') {
+      const closingIndex = findClosingQuote(contents, pos, quote)
+      if (closingIndex === -1) {
+        throw new Error(`Unterminated ${quote} quoted value for key '${key}' starting on line ${entryLineNumber}`)
+      }
+      rawValue = contents.substring(pos, closingIndex + 1)
+      const inner = rawValue.substring(1, rawValue.length - 1).replace(/\r\n/g, '\n')
+      lineNumber += countNewlines(rawValue)
+      pos = closingIndex + 1
+      skipToNextLine()
+      value = quote === '"' ? resolveDoubleQuotedValue(inner, mergedOptions.interpolate, lookup) : inner
+    } else {
+      const newlineIndex = contents.indexOf('\n', pos)
+      const restOfLine = contents.substring(pos, newlineIndex === -1 ? contents.length : newlineIndex)
+      const commentMatch = /(^|\s)#/.exec(restOfLine)
+      rawValue = (commentMatch ? restOfLine.substring(0, commentMatch.index) : restOfLine).trim()
+      skipToNextLine()
+      value = mergedOptions.interpolate ? interpolate(rawValue, lookup) : rawValue
+    }
+
+    definedValues[key] = value
+    entries.push({ key, value, rawValue, lineNumber: entryLineNumber, startIndex, valueStartIndex, valueEndIndex: valueStartIndex + rawValue.length })
+  }
+
+  return entries
+}
+
+/**
+ * Parses the contents of a .env file into a dictionary. See {@link parseEnvEntries} for supported syntax. If a key appears more than once, the last value wins.
+ * @param contents The contents of a .env file
+ * @param options See {@link ParseEnvOptions}
+ */
+export function parseEnvString(contents: string, options?: Partial<ParseEnvOptions>): StringKeyedDictionary {
+  const dict: StringKeyedDictionary = {}
+  for (const entry of parseEnvEntries(contents, options)) {
+    dict[entry.key] = entry.value
+  }
+  return dict
+}
+
+/**
+ * Reads and parses a .env file into a dictionary. See {@link parseEnvEntries} for supported syntax. If a key appears more than once, the last value wins.
+ * @param envPath The path to the .env file
+ * @param options See {@link ParseEnvOptions}
+ */
+export function parseEnvFile(envPath: string, options?: Partial<ParseEnvOptions>): StringKeyedDictionary {
+  requireValidPath('envPath', envPath)
+  return parseEnvString(fs.readFileSync(envPath, 'utf-8'), options)
+}
+
+/**
+ * Parse a .env file (see {@link parseEnvFile}) and register the values of keys that match one of the patterns as secrets.
+ * @param envPath The path to the .env file
+ * @param keyPatterns Defaults to {@link defaultSecretKeyPatterns}.
+ * @param registry Defaults to `config.secrets`.
+ * @returns The keys that matched
+ */
+export function addSecretsFromEnvFile(envPath: string, keyPatterns: RegExp[] = defaultSecretKeyPatterns, registry: SecretRegistry = config.secrets): string[] {
+  return registry.addSecretsFromEnv(parseEnvFile(envPath), keyPatterns)
+}
+
+/**
+ * Formats a value for writing to a .env file so that {@link parseEnvEntries} will read back the same value. Values are only quoted when necessary.
+ * Single quotes are preferred so that values containing `$` aren't interpolated, falling back to double quotes with escapes if the value contains a single quote.
+ * @param value The value to format
+ * @returns The value as it should be written after `KEY=`
+ */
+export function formatEnvValue(value: string): string {
+  if (!/[\s'"`#\\$]/.test(value)) {
+    return value
+  }
+  if (!value.includes(`'`)) {
+    return `'${value}'`
+  }
+  const escaped = value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\$/g, '\\$')
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r')
+    .replace(/\t/g, '\\t')
+  return `"${escaped}"`
+}
+
+// Returns the index of the closing quote, skipping escaped characters in double quoted values
+function findClosingQuote(contents: string, openingIndex: number, quote: string): number {
+  if (quote !== '"') {
+    return contents.indexOf(quote, openingIndex + 1)
+  }
+  for (let i = openingIndex + 1; i < contents.length; i++) {
+    if (contents[i] === '\\') {
+      i++
+    } else if (contents[i] === '"') {
+      return i
+    }
+  }
+  return -1
+}
+
+function resolveDoubleQuotedValue(inner: string, shouldInterpolate: boolean, lookup: (name: string) => string | undefined): string {
+  const escapes: StringKeyedDictionary = { n: '\n', r: '\r', t: '\t', '"': '"', '\\': '\\', '$': '$' }
+  let result = ''
+  let pendingUnescaped = ''
+  const flushUnescaped = () => {
+    result += shouldInterpolate ? interpolate(pendingUnescaped, lookup) : pendingUnescaped
+    pendingUnescaped = ''
+  }
+  for (let i = 0; i < inner.length; i++) {
+    const escaped = inner[i] === '\\' ? escapes[inner[i + 1]] : undefined
+    if (escaped === undefined) {
+      pendingUnescaped += inner[i]
+      continue
+    }
+    // Escaped characters are added directly so that an escaped `$` is never treated as the start of a reference
+    flushUnescaped()
+    result += escaped
+    i++
+  }
+  flushUnescaped()
+  return result
+}
+
+function interpolate(value: string, lookup: (name: string) => string | undefined): string {
+  return value.replace(/\$\{([A-Za-z_][A-Za-z0-9_.-]*)(?::-([^}]*))?\}/g, (_match, name: string, defaultValue: string | undefined) => {
+    const resolved = lookup(name)
+    return resolved !== undefined && resolved !== '' ? resolved : defaultValue ?? ''
+  })
+}
+
+function countNewlines(str: string): number {
+  return str.split('\n').length - 1
+}
@@ -0,0 +1,150 @@
+import { green, red } from './colors.js'
+import { parseEnvFile } from './envParser.js'
+import { StringKeyedDictionary, requireValidPath } from './generalUtils.js'
+
+export type EnvVarType = 'string' | 'int' | 'port' | 'url' | 'bool'
+
+/** Rules for a single env var. All rules except {@link required} are only checked when the value is present and non-empty. */
+export interface EnvVarRule {
+  /** Defaults to `'string'`. */
+  type?: EnvVarType
+  /** Defaults to `true`. If `true`, the key must exist and have a non-empty value. */
+  required?: boolean
+  /** If set, the value must be one of these. */
+  allowedValues?: string[]
+  /** If set, the value must match this regex. */
+  pattern?: RegExp
+}
+
+/** Env var names mapped to the rules their values must follow. */
+export type EnvSchema = { [key: string]: EnvVarRule }
+
+export interface EnvValidationResult {
+  key: string
+  valid: boolean
+  /** The reason the value is invalid. Undefined if the value is valid. */
+  message?: string
+}
+
+const boolTrueValues = ['true', '1', 'yes']
+const boolFalseValues = ['false', '0', 'no']
+
+/**
+ * Validates env values against a schema. Values are checked in the order the keys appear in the schema.
+ * Use {@link getFormattedEnvValidationReport} to display the results or {@link throwIfEnvInvalid} to fail fast.
+ * @param schema See {@link EnvSchema}
+ * @param env Defaults to `process.env`. The values to validate.
+ * @returns One result per key in the schema
+ */
+export function validateEnv(schema: EnvSchema, env: StringKeyedDictionary | NodeJS.ProcessEnv = process.env): EnvValidationResult[] {
+  return Object.entries(schema).map(([key, rule]) => {
+    const message = getEnvValueError(env[key], rule)
+    return message ? { key, valid: false, message } : { key, valid: true }
+  })
+}
+
+/**
+ * Parses a .env file (see {@link parseEnvFile}) and validates its values against a schema. See {@link validateEnv}.
+ * @param schema See {@link EnvSchema}
+ * @param envPath The path to the .env file
+ */
+export function validateEnvFile(schema: EnvSchema, envPath: string): EnvValidationResult[] {
+  requireValidPath('envPath', envPath)
+  return validateEnv(schema, parseEnvFile(envPath))
+}
+
+export function isEnvValid(results: EnvValidationResult[]): boolean {
+  return results.every(result => result.valid)
+}
+
+/**
+ * Formats validation results as aligned `KEY: result` lines, similar to {@link DependencyChecker.getFormattedReport}.
+ * @param results The results from {@link validateEnv} or {@link validateEnvFile}
+ * @param omitValid Defaults to `false`. If `true`, only invalid entries are included.
+ */
+export function getFormattedEnvValidationReport(results: EnvValidationResult[], omitValid = false): string {
+  return formatEnvValidationReport(results, omitValid, true)
+}
+
+/**
+ * Validates env values against a schema and throws if any are invalid.
+ * @param schema See {@link EnvSchema}
+ * @param env Defaults to `process.env`. The values to validate.
+ * @throws An {@link Error} with a report of the invalid entries (see {@link getFormattedEnvValidationReport})
+ */
+export function throwIfEnvInvalid(schema: EnvSchema, env: StringKeyedDictionary | NodeJS.ProcessEnv = process.env) {
+  const results = validateEnv(schema, env)
+  if (!isEnvValid(results)) {
+    throw new Error(`Invalid env values:${formatEnvValidationReport(results, true, false)}`)
+  }
+}
+
+/**
+ * Returns a description of why the value doesn't match the type, or undefined if it does. Used by {@link validateEnv} and the typed
+ * `getRequiredEnv*` helpers such as {@link getRequiredEnvInt}.
+ */
+export function getEnvTypeError(value: string, type: EnvVarType): string | undefined {
+  switch (type) {
+    case 'int':
+      return /^-?\d+$/.test(value.trim()) ? undefined : `expected an integer but got '${value}'`
+    case 'port': {
+      const port = Number(value.trim())
+      return /^\d+$/.test(value.trim()) && port >= 1 && port <= 65535 ? undefined : `expected a port number (1-65535) but got '${value}'`
+    }
+    case 'url':
+      try {
+        new URL(value)
+        return undefined
+      } catch {
+        return `expected a url but got '${value}'`
+      }
+    case 'bool':
+      return parseEnvBool(value) === undefined ? `expected one of ${[...boolTrueValues, ...boolFalseValues].join(', ')} but got '${value}'` : undefined
+    default:
+      return undefined
+  }
+}
+
+/** Returns `true` or `false` for supported boolean strings (case-insensitive `true`/`false`, `1`/`0` or `yes`/`no`), otherwise undefined. */
+export function parseEnvBool(value: string): boolean | undefined {
+  const normalized = value.trim().toLowerCase()
+  if (boolTrueValues.includes(normalized)) {
+    return true
+  }
+  if (boolFalseValues.includes(normalized)) {
+    return false
+  }
+  return undefined
+}
+
+function getEnvValueError(value: string | undefined, rule: EnvVarRule): string | undefined {
+  if (value === undefined || value.trim() === '') {
+    return rule.required ?? true ? (value === undefined ? 'missing' : 'empty') : undefined
+  }
+  const typeError = getEnvTypeError(value, rule.type ?? 'string')
+  if (typeError) {
+    return typeError
+  }
+  if (rule.allowedValues && !rule.allowedValues.includes(value)) {
+    return `expected one of ${rule.allowedValues.join(', ')} but got '${value}'`
+  }
+  if (rule.pattern && !rule.pattern.test(value)) {
+    return `expected a value matching ${rule.pattern} but got '${value}'`
+  }
+  return undefined
+}
+
+function formatEnvValidationReport(results: EnvValidationResult[], omitValid: boolean, useColor: boolean): string {
+  const filteredResults = omitValid ? results.filter(result => !result.valid) : results
+  const longestKeyLength = Math.max(...filteredResults.map(result => result.key.length), 0)
+
+  let reportString = '\n'
+
+  for (const { key, valid, message } of filteredResults) {
+    const padding = ' '.repeat(longestKeyLength - key.length)
+    const resultString = valid ? 'valid' : `invalid - ${message}`
+    reportString += `${key}${padding}: ${useColor ? (valid ? green(resultString) : red(resultString)) : resultString}\n`
+  }
+
+  return reportString
+}
@@ -1,13 +1,15 @@
 import { randomInt } from 'crypto'
 import * as net from 'net'
-import { SpawnOptions } from 'node:child_process'
+import { ChildProcess, SpawnOptions } from 'node:child_process'
 import fs from 'node:fs'
 import fsp from 'node:fs/promises'
 import { platform } from 'node:os'
 import path, { resolve } from 'node:path'
 import * as readline from 'readline'
 import { config } from './NodeCliUtilsConfig.js'
-import { copyEnv, dictionaryToEnvFileString, getEnvAsDictionary, simpleSpawnAsyncInternal, simpleSpawnSyncInternal, spawnAsyncInternal, validateFindFilesRecursivelyParams, whichInternal } from './generalUtilsInternal.js'
+import { EnvDocument } from './EnvDocument.js'
+import { EnvVarType, getEnvTypeError, parseEnvBool } from './envSchema.js'
+import { copyEnv, isDryRun, logDryRun, logDryRunFileChange, simpleSpawnAsyncInternal, simpleSpawnSyncInternal, spawnAsyncInternal, spawnUntilReadyInternal, validateFindFilesRecursivelyParams, whichInternal } from './generalUtilsInternal.js'
 
 // For JSDoc links
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
@@ -20,12 +22,12 @@ export type FuncOrAsyncFunc<T> = Func<T> | AsyncFunc<T>
 export type AsyncBooleanFunc = AsyncFunc<boolean>
 
 /**
- * Just a wrapper for console.log() to type less.
+ * Log at the info level using `config.logger` (which is a wrapper for console.log() by default).
  * @param data The data to log
  * @param moreData More data to log
  */
 export function log(data: unknown, ...moreData: unknown[]) {
-  console.log(data, ...moreData)
+  config.logger.info(...config.secrets.redactLogData([data, ...moreData]))
 }
 
 /**
@@ -35,22 +37,42 @@ export function log(data: unknown, ...moreData: unknown[]) {
  */
 export function logIf(shouldLog: boolean, data: unknown, ...moreData: unknown[]) {
   if (shouldLog) {
-    console.log(data, ...moreData)
+    log(data, ...moreData)
   }
 }
 
 /**
- * Wrapper for console.log() that is suppressed if NodeCliUtilsConfig.logEnabled is false.
+ * Log at the debug level using `config.logger`. Suppressed unless NodeCliUtilsConfig.traceEnabled is true.
  * @param data The data to log
  * @param moreData More data to log
  */
 export function trace(data?: unknown, ...moreData: unknown[]) {
   if (config.traceEnabled) {
-    const prefix = `[TRACE]`
-    console.log(prefix, data, ...moreData)
+    config.logger.debug(...config.secrets.redactLogData([data, ...moreData]))
   }
 }
 
+/**
+ * Log at the debug level using `config.logger` if `shouldTrace` is true. Useful for methods that have an option to show trace
+ * messages regardless of NodeCliUtilsConfig.traceEnabled.
+ * @param data The data to log
+ * @param moreData More data to log
+ */
+export function traceIf(shouldTrace: boolean, data?: unknown, ...moreData: unknown[]) {
+  if (shouldTrace) {
+    config.logger.debug(...config.secrets.redactLogData([data, ...moreData]))
+  }
+}
+
+/**
+ * Log at the error level using `config.logger` (which is a wrapper for console.error() by default).
+ * @param data The data to log
+ * @param moreData More data to log
+ */
+export function logError(data: unknown, ...moreData: unknown[]) {
+  config.logger.error(...config.secrets.redactLogData([data, ...moreData]))
+}
+
 /**
  * Type guard for a string keyed dictionary.
  */
@@ -80,19 +102,50 @@ export interface SpawnResult {
    * The current working directory of the spawned process. Not changed by method, so just repeating your SpawnOptions.cwd back to you, but helpful for debugging.
    */
   cwd?: string
+  /**
+   * The number of milliseconds between spawning the process and the process exiting.
+   */
+  elapsedMillis?: number
+  /**
+   * Only set if the process was killed because the `timeoutMillis` option was exceeded (`timeout`) or the `signal` option was aborted (`abort`).
+   */
+  cancelReason?: SpawnCancelReason
 }
 
 /**
  * Error thrown by {@link spawnAsync} when the spawned process exits with a non-zero exit code and options.throwOnNonZero is true.
  * 
- * Contains a {@link SpawnResult} with the exit code, stdout, stderr, and error (if any).
+ * Contains a {@link SpawnResult} with the exit code, stdout, stderr, and error (if any). Secrets in `config.secrets` are redacted from the message
+ * and from the stdout and stderr of the result.
  */
 export class SpawnError extends Error {
   result: SpawnResult
 
   constructor(message: string, result: SpawnResult) {
-    super(message)
-    this.result = result
+    super(config.secrets.redact(message))
+    this.result = getRedactedSpawnResult(result)
+  }
+}
+
+/**
+ * The reason a spawned process was killed early. See {@link SpawnCancellationOptions}.
+ */
+export type SpawnCancelReason = 'timeout' | 'abort'
+
+/**
+ * Error thrown by {@link spawnAsync}, {@link simpleSpawnAsync} and {@link simpleCmdAsync} when the spawned process tree is killed because the
+ * `timeoutMillis` option was exceeded or the `signal` option was aborted, and the `throwOnNonZero` option is `true` (the default for these functions).
+ * 
+ * {@link spawnAsyncLongRunning} doesn't throw on non-zero, so it resolves with `cancelReason` set on the result instead of throwing this error.
+ * 
+ * Check the `reason` property to determine which one happened.
+ */
+export class SpawnTimeoutError extends SpawnError {
+  reason: SpawnCancelReason
+
+  constructor(message: string, result: SpawnResult, reason: SpawnCancelReason) {
+    super(message, result)
+    this.reason = reason
   }
 }
 
@@ -109,16 +162,26 @@ export interface SimpleSpawnResult extends SpawnResult {
  * Error thrown by {@link simpleSpawnSync} and {@link simpleCmdSync} when the spawned process exits with a non-zero exit code and throwOnNonZero param is true.
  * 
  * Contains a {@link SimpleSpawnResult} with the exit code, stdout, stderr, and error (if any) in addition to stdoutLines, which is stdout split into lines from stdout that weren't empty.
+ * Secrets in `config.secrets` are redacted from the message and from the stdout, stderr and stdoutLines of the result.
  */
 export class SimpleSpawnError extends Error {
   result: SimpleSpawnResult
 
   constructor(message: string, result: SimpleSpawnResult) {
-    super(message)
-    this.result = result
+    super(config.secrets.redact(message))
+    this.result = getRedactedSpawnResult(result)
   }
 }
 
+// Returns a copy so the caller's result isn't modified
+function getRedactedSpawnResult<T extends SpawnResult & { stdoutLines?: string[] }>(result: T): T {
+  const redacted = { ...result, stdout: config.secrets.redact(result.stdout ?? ''), stderr: config.secrets.redact(result.stderr ?? '') }
+  if (result.stdoutLines) {
+    redacted.stdoutLines = result.stdoutLines.map(line => config.secrets.redact(line))
+  }
+  return redacted
+}
+
 /**
  * The result type for {@link whichSync}. Contains the location of the command, any additional locations, and an error if one occurred.
  */
@@ -139,19 +202,62 @@ export async function sleep(ms: number): Promise<void> {
   })
 }
 
+/**
+ * Options for killing a spawned process tree early. Used by {@link spawnAsync}, {@link spawnAsyncLongRunning}, {@link simpleSpawnAsync} and {@link simpleCmdAsync}.
+ */
+export interface SpawnCancellationOptions {
+  /**
+   * Optional. If the process has not exited after this many milliseconds, the process tree will be killed and a {@link SpawnTimeoutError} will be thrown.
+   * If `throwOnNonZero` is `false`, the result will be returned instead with `cancelReason` set to `timeout`.
+   */
+  timeoutMillis?: number
+  /**
+   * Optional. If aborted, the process tree will be killed and a {@link SpawnTimeoutError} will be thrown. If `throwOnNonZero` is
+   * `false`, the result will be returned instead with `cancelReason` set to `abort`.
+   */
+  signal?: AbortSignal
+}
+
+/**
+ * Per-call override for the global `config.dryRun` setting. Used by spawn helpers and filesystem-mutating helpers.
+ */
+export interface DryRunOptions {
+  /**
+   * Optional. Defaults to `config.dryRun`. If `true`, the command (with args and cwd) or file change that would have been performed
+   * is logged and a synthetic successful result is returned instead.
+   */
+  dryRun?: boolean
+}
+
 /**
  * An extension of the built-in SpawnOptions with an extra option to specify whether a non-zero exit code should throw an error.
  * Used with method {@link spawnAsync}.
  */
-export interface SpawnOptionsWithThrow extends SpawnOptions {
+export interface SpawnOptionsWithThrow extends SpawnOptions, SpawnCancellationOptions, DryRunOptions {
   throwOnNonZero: boolean
   simpleErrorMsg?: string
+  /**
+   * Called for each line of stdout as it is received (without the trailing `\n` or `\r\n`). Only called if stdout
+   * is piped, either by passing stdio `pipe` or by setting the {@link tee} option to `true`.
+   */
+  onStdoutLine?: (line: string) => void
+  /**
+   * Called for each line of stderr as it is received (without the trailing `\n` or `\r\n`). Only called if stderr
+   * is piped, either by passing stdio `pipe` or by setting the {@link tee} option to `true`.
+   */
+  onStderrLine?: (line: string) => void
+  /**
+   * Defaults to `false`. If `true`, stdout and stderr are piped so they can be captured in the {@link SpawnResult} and passed to
+   * {@link onStdoutLine} and {@link onStderrLine}, but are also written to the parent process's stdout and stderr so that output is
+   * still visible in the console. Overrides the stdio option for stdout and stderr.
+   */
+  tee?: boolean
 }
 
 /**
  * Options interface for methods {@link simpleSpawnSync}, {@link simpleSpawnAsync}, {@link simpleCmdSync} and {@link simpleCmdAsync}.
  */
-export interface SimpleSpawnOptions {
+export interface SimpleSpawnOptions extends SpawnCancellationOptions, DryRunOptions {
   /** Defaults to `true`. */
   throwOnNonZero: boolean
   /** Optional current working directory. Defaults to `process.cwd()`. */
@@ -164,7 +270,7 @@ export interface SimpleSpawnOptions {
  * from the console but collect the stdout and stderr in the SpawnResult, use stdio: 'pipe'.
  * 
  * When spawning long-running processes, use {@link spawnAsyncLongRunning} instead so that unexpected
- * termination of the parent process will not orphan the child process tree on windows.
+ * termination of the parent process will not orphan the child process tree.
  * 
  * **Warning:** Do NOT use this for generating commands dynamically from user input as it could be used to execute arbitrary code.
  * This is meant solely for building up known commands that are not made up of unsanitized user input, and only at compile time.
@@ -180,7 +286,9 @@ export async function spawnAsync(command: string, args?: string[], options?: Par
 
 /**
  * Use this alternate spawn wrapper instead of {@link spawnAsync} when spawning long-running processes to
- * avoid orphaned child process trees on Windows.
+ * avoid orphaned child process trees if the parent process is terminated unexpectedly (including with `SIGKILL`). This works by spawning a "middle"
+ * process that polls whether the parent process is still alive and kills the child process tree if it isn't. On Windows this uses `tasklist` and `taskkill`.
+ * On Linux and Mac this uses `process.kill(pid, 0)` polling and kills the child's process group.
  * 
  * **Warning:** Do NOT use this for generating commands dynamically from user input as it could be used to execute arbitrary code.
  * This is meant solely for building up known commands that are not made up of unsanitized user input, and only at compile time.
@@ -188,10 +296,70 @@ export async function spawnAsync(command: string, args?: string[], options?: Par
  * @param command The command to spawn
  * @param args The arguments to pass to the command
  * @param cwd The current working directory to run the command from - defaults to process.cwd()
- * @returns A Promise that resolves to a {@link SpawnResult}
+ * @param options Optional timeout, abort signal and dry run override. See {@link SpawnCancellationOptions} and {@link DryRunOptions}.
+ * @returns A Promise that resolves to a {@link SpawnResult}, including when the process exits with a non-zero code or is killed because of the
+ * timeout or abort signal (check `cancelReason`)
  */
-export async function spawnAsyncLongRunning(command: string, args?: string[], cwd?: string): Promise<SpawnResult> {
-  return spawnAsyncInternal(command, args ?? [], { cwd: cwd, isLongRunning: true })
+export async function spawnAsyncLongRunning(command: string, args?: string[], cwd?: string, options?: SpawnCancellationOptions & DryRunOptions): Promise<SpawnResult> {
+  return spawnAsyncInternal(command, args ?? [], { cwd: cwd, isLongRunning: true, ...options })
+}
+
+/**
+ * Options for {@link spawnUntilReady}.
+ */
+export interface SpawnUntilReadyOptions extends DryRunOptions {
+  /** Each line of stdout and stderr will be tested against this pattern. The process is considered ready on the first match. */
+  readyPattern: RegExp
+  /**
+   * Optional. If the output has not matched {@link readyPattern} after this many milliseconds, the process tree will be killed and a {@link SpawnTimeoutError}
+   * will be thrown. This only applies to waiting for readiness - the process is allowed to run indefinitely once it's ready.
+   */
+  timeoutMillis?: number
+  /** Optional current working directory. Defaults to `process.cwd()`. */
+  cwd?: string
+  /** Optional. If aborted, the process tree will be killed. If the process isn't ready yet, a {@link SpawnTimeoutError} will be thrown. */
+  signal?: AbortSignal
+}
+
+/**
+ * Handle returned by {@link spawnUntilReady} once the process output has matched the ready pattern.
+ */
+export interface ReadyProcessHandle {
+  /** The still-running ChildProcess. This will be the orphan protection middle process if it's in use (see {@link spawnAsyncLongRunning}). */
+  child: ChildProcess
+  /** The first line of output that matched the ready pattern. */
+  readyLine: string
+  /** Kills the process tree and returns the final {@link SpawnResult}. */
+  stop: () => Promise<SpawnResult>
+  /** Resolves with the final {@link SpawnResult} when the process exits (whether from calling {@link stop} or on its own). */
+  result: Promise<SpawnResult>
+}
+
+/**
+ * Spawns a long-running process (see {@link spawnAsyncLongRunning}) and waits until a line of its output matches `options.readyPattern`, then returns a
+ * {@link ReadyProcessHandle} while the process keeps running. Output is still written to the console while it's also being checked.
+ * 
+ * Useful for starting something like a dev server before running the next task that depends on it.
+ * 
+ * **Warning:** Do NOT use this for generating commands dynamically from user input as it could be used to execute arbitrary code.
+ * This is meant solely for building up known commands that are not made up of unsanitized user input, and only at compile time.
+ * See {@link winInstallCert} and {@link winUninstallCert} for examples of taking user input and inserting it safely into known commands.
+ * @example
+ * ```
+ * const server = await spawnUntilReady('dotnet', ['watch'], { readyPattern: /Now listening on/, timeoutMillis: 60000 })
+ * await runIntegrationTests()
+ * await server.stop()
+ * ```
+ * @param command The command to spawn
+ * @param args The arguments to pass to the command
+ * @param options See {@link SpawnUntilReadyOptions}
+ * @returns A Promise that resolves to a {@link ReadyProcessHandle} once the output matches the ready pattern
+ * @throws {@link SpawnTimeoutError} if the output doesn't match the ready pattern within `options.timeoutMillis` or `options.signal` is aborted before it's ready
+ * @throws {@link SpawnError} if the process exits before the output matches the ready pattern
+ * @throws {@link Error} in dry run mode (`config.dryRun` or the `dryRun` option), since there is no way to return a running process without running it
+ */
+export async function spawnUntilReady(command: string, args: string[], options: SpawnUntilReadyOptions): Promise<ReadyProcessHandle> {
+  return spawnUntilReadyInternal(command, args, options)
 }
 
 /**
@@ -226,7 +394,7 @@ export async function mkdirpSync(dir: string) {
   fs.mkdirSync(dir, { recursive: true })
 }
 
-export interface EmptyDirectoryOptions {
+export interface EmptyDirectoryOptions extends DryRunOptions {
   /** An optional array of file and directory names to skip, but only at the top level of the directoryToEmpty. */
   fileAndDirectoryNamesToSkip: string[]
   force: boolean
@@ -250,6 +418,10 @@ export async function emptyDirectory(directoryToEmpty: string, options?: Partial
       throw new Error('Directory does not exist and throwIfNotExists was set to true')
     }
     trace(`directoryToEmpty does not exist - creating directory ${directoryToEmpty}`)
+    if (isDryRun(mergedOptions.dryRun)) {
+      logDryRun(`would create directory: ${directoryToEmpty}`)
+      return
+    }
     await mkdirp(directoryToEmpty)
     return
   }
@@ -285,7 +457,9 @@ export async function emptyDirectory(directoryToEmpty: string, options?: Partial
 
     const direntPath = path.join(directoryToEmpty, dirEntry.name)
 
-    if (dirEntry.isDirectory()) {
+    if (isDryRun(mergedOptions.dryRun)) {
+      logDryRun(`would delete ${dirEntry.isDirectory() ? 'directory' : 'file'}: ${direntPath}`)
+    } else if (dirEntry.isDirectory()) {
       await fsp.rm(direntPath, { recursive: true, force: mergedOptions.force })
     } else {
       await fsp.rm(direntPath, { force: mergedOptions.force })
@@ -297,7 +471,7 @@ export async function emptyDirectory(directoryToEmpty: string, options?: Partial
   await dir.close()
 }
 
-export interface CopyDirectoryOptions {
+export interface CopyDirectoryOptions extends DryRunOptions {
   exclusions?: string[]
 }
 
@@ -314,6 +488,7 @@ export async function copyDirectoryContents(sourceDirectory: string, destination
   requireString('destinationDirectory', destinationDirectory)
 
   const exclusions = options?.exclusions ?? []
+  const dryRun = isDryRun(options?.dryRun)
 
   if (!fs.existsSync(sourceDirectory)) {
     throw new Error(`sourceDirectory directory does not exist: ${sourceDirectory}`)
@@ -323,11 +498,14 @@ export async function copyDirectoryContents(sourceDirectory: string, destination
     throw new Error(`sourceDirectory is not a directory: ${sourceDirectory}`)
   }
 
-  if (!fs.existsSync(destinationDirectory)) {
+  const destinationExists = fs.existsSync(destinationDirectory)
+  if (!destinationExists && dryRun) {
+    logDryRun(`would create directory: ${destinationDirectory}`)
+  } else if (!destinationExists) {
     await mkdirp(destinationDirectory)
   }
 
-  if (!fs.lstatSync(destinationDirectory).isDirectory()) {
+  if (destinationExists && !fs.lstatSync(destinationDirectory).isDirectory()) {
     throw new Error(`destinationDirectory is not a directory: ${destinationDirectory}`)
   }
 
@@ -342,7 +520,9 @@ export async function copyDirectoryContents(sourceDirectory: string, destination
 
     if (!exclusions.some(exclusion => destPath.endsWith(exclusion))) {
       if (dirEntry.isDirectory()) {
-        await copyDirectoryContents(sourcePath, destPath, { exclusions })
+        await copyDirectoryContents(sourcePath, destPath, { exclusions, dryRun })
+      } else if (dryRun) {
+        logDryRun(`would copy file: ${sourcePath} -> ${destPath}`)
       } else {
         await fsp.copyFile(sourcePath, destPath)
       }
@@ -421,7 +601,7 @@ export function simpleCmdSync(command: string, args?: string[], options?: Partia
   const cwd = options?.cwd ? options.cwd : process.cwd()
 
   // Was previously spawning 'cmd' directly with params '/D', '/S', '/C' - but we may as well let NodeJS do the work of escaping args to work correctly with cmd
-  return simpleSpawnSyncInternal(command, args, throwOnNonZero, cwd, true)
+  return simpleSpawnSyncInternal(command, args, throwOnNonZero, cwd, true, options?.dryRun)
 }
 
 /**
@@ -439,6 +619,7 @@ export function simpleCmdSync(command: string, args?: string[], options?: Partia
  * @param options Optional {@link SimpleSpawnOptions} options
  * @returns An object with the status code, stdout, stderr, and error (if any)
  * @throws {@link SimpleSpawnError} if the command fails and throwOnNonZero option is `true`
+ * @throws {@link SpawnTimeoutError} if the `timeoutMillis` option is exceeded or the `signal` option is aborted and throwOnNonZero option is `true`
  */
 export async function simpleCmdAsync(command: string, args?: string[], options?: Partial<SimpleSpawnOptions>): Promise<SimpleSpawnResult> {
   if (!isPlatformWindows()) {
@@ -449,7 +630,7 @@ export async function simpleCmdAsync(command: string, args?: string[], options?:
   const cwd = options?.cwd ? options.cwd : process.cwd()
 
   // Was previously spawning 'cmd' directly with params '/D', '/S', '/C' - but we may as well let NodeJS do the work of escaping args to work correctly with cmd
-  return await simpleSpawnAsyncInternal(command, args, throwOnNonZero, cwd, true)
+  return await simpleSpawnAsyncInternal(command, args, throwOnNonZero, cwd, true, options)
 }
 
 /**
@@ -471,7 +652,7 @@ export async function simpleCmdAsync(command: string, args?: string[], options?:
 export function simpleSpawnSync(command: string, args?: string[], options?: Partial<SimpleSpawnOptions>): SimpleSpawnResult {
   const throwOnNonZero = options?.throwOnNonZero !== undefined ? options?.throwOnNonZero : true
   const cwd = options?.cwd ? options.cwd : process.cwd()
-  return simpleSpawnSyncInternal(command, args, throwOnNonZero, cwd)
+  return simpleSpawnSyncInternal(command, args, throwOnNonZero, cwd, false, options?.dryRun)
 }
 
 /**
@@ -489,11 +670,12 @@ export function simpleSpawnSync(command: string, args?: string[], options?: Part
  * @param options Optional {@link SimpleSpawnOptions} options
  * @returns An object with the status code, stdout, stderr, and error (if any)
  * @throws {@link SimpleSpawnError} if the command fails and throwOnNonZero option is `true`
+ * @throws {@link SpawnTimeoutError} if the `timeoutMillis` option is exceeded or the `signal` option is aborted and throwOnNonZero option is `true`
  */
 export async function simpleSpawnAsync(command: string, args?: string[], options?: Partial<SimpleSpawnOptions>): Promise<SimpleSpawnResult> {
   const throwOnNonZero = options?.throwOnNonZero !== undefined ? options.throwOnNonZero : true
   const cwd = options?.cwd ? options.cwd : process.cwd()
-  return await simpleSpawnAsyncInternal(command, args, throwOnNonZero, cwd)
+  return await simpleSpawnAsyncInternal(command, args, throwOnNonZero, cwd, false, options)
 }
 
 /**
@@ -601,7 +783,7 @@ export async function getConfirmationExample() {
   }
 }
 
-export interface CopyEnvOptions {
+export interface CopyEnvOptions extends DryRunOptions {
   /**  Defaults to `false`. If `true`, messages about adding missing keys will not be logged (useful if you're always calling {@link copyModifiedEnv} after this call). */
   suppressAddKeysMessages: boolean
   /** Defaults to `false`. If `true`, an error will be thrown if the destinationPath does not exist. If `false`, a message will be logged and no error will be thrown. */
@@ -618,13 +800,16 @@ export interface CopyEnvOptions {
  * 
  * This is useful for copying values from a .env.template file to a root .env file.
  * 
+ * Comments, blank lines and ordering in the destination .env file are preserved. Missing keys are appended at the end of the file below a
+ * marker comment (see {@link EnvDocument}).
+ * 
  * For copying root .env files to other locations, use {@link overwriteEnvFile}.
  * @param sourcePath The path to the source .env file such as a `.env.template` file (use {@link overwriteEnvFile} for copying root .env files to other locations)
  * @param destinationPath The path to the destination .env file, such as the root .env file
  * @param options Optional {@link CopyEnvOptions} options.
  */
 export async function copyNewEnvValues(sourcePath: string, destinationPath: string, options?: Partial<CopyEnvOptions>) {
-  await copyEnv(sourcePath, destinationPath, false, options?.suppressAddKeysMessages, options?.throwIfDestinationDirectoryMissing)
+  await copyEnv(sourcePath, destinationPath, false, options?.suppressAddKeysMessages, options?.throwIfDestinationDirectoryMissing, options?.dryRun)
 }
 
 /**
@@ -639,7 +824,8 @@ export async function copyNewEnvValues(sourcePath: string, destinationPath: stri
  * throughout your solution so you only have to manage one .env file.
  * 
  * Note that this does not delete any existing entries in the destination .env file, which is useful if you have additional entries in
- * the destination .env file that you don't want to overwrite.
+ * the destination .env file that you don't want to overwrite. Existing values are replaced in place so comments, blank lines and ordering
+ * in the destination .env file are preserved. Missing keys are appended at the end of the file below a marker comment (see {@link EnvDocument}).
  * 
  * For copying .env.template files to root .env files, use {@link copyNewEnvValues}.
  * @param sourcePath The path to the source .env file such as a root .env file (use {@link copyNewEnvValues} for .env.template files)
@@ -647,35 +833,60 @@ export async function copyNewEnvValues(sourcePath: string, destinationPath: stri
  * @param options Optional {@link CopyEnvOptions} options.
  */
 export async function overwriteEnvFile(sourcePath: string, destinationPath: string, options?: Partial<CopyEnvOptions>) {
-  await copyEnv(sourcePath, destinationPath, true, options?.suppressAddKeysMessages, options?.throwIfDestinationDirectoryMissing)
+  await copyEnv(sourcePath, destinationPath, true, options?.suppressAddKeysMessages, options?.throwIfDestinationDirectoryMissing, options?.dryRun)
 }
 
 /**
  * Copy entries from a source .env file to a destination .env file, but only for the keys specified in keepKeys.
  * Will also modify entries in the destination .env file as specified in modifyEntries.
+ * 
+ * If the destination .env file already exists, its comments, blank lines and ordering are preserved and only entries that aren't in keepKeys
+ * or modifyEntries are removed. Otherwise the source .env file is used as the starting point.
+ * 
+ * In dry run mode (see {@link DryRunOptions}), the changes are logged instead of written.
  * @param sourcePath The path to the source .env file
  * @param destinationPath The path to the destination .env file
  * @param keepKeys The keys to keep from the source .env file
- * @param modifyEntries The entries to modify in the destination .env file
+ * @param modifyEntries The entries to modify in the destination .env file (values are quoted as needed with {@link formatEnvValue})
+ * @param options See {@link DryRunOptions}
  */
-export async function copyModifiedEnv(sourcePath: string, destinationPath: string, keepKeys: string[], modifyEntries?: StringKeyedDictionary) {
+export async function copyModifiedEnv(sourcePath: string, destinationPath: string, keepKeys: string[], modifyEntries?: StringKeyedDictionary, options?: DryRunOptions) {
   requireValidPath('sourcePath', sourcePath)
+  const dryRun = isDryRun(options?.dryRun)
   const destPathDir = path.dirname(destinationPath)
   if (!fs.existsSync(destPathDir)) {
-    await ensureDirectory(destPathDir)
+    if (dryRun) {
+      logDryRun(`would create directory: ${destPathDir}`)
+    } else {
+      await ensureDirectory(destPathDir)
+    }
   }
 
-  const sourceDict = getEnvAsDictionary(sourcePath)
-  const newDict: StringKeyedDictionary = filterDictionary(sourceDict, key => keepKeys.includes(key))
+  // Start from the existing destination so its comments and ordering are kept, otherwise start from the source
+  const sourceDoc = EnvDocument.load(sourcePath)
+  const existingContent = fs.existsSync(destinationPath) ? fs.readFileSync(destinationPath, 'utf-8') : undefined
+  const newDoc = existingContent !== undefined ? EnvDocument.parse(existingContent) : EnvDocument.load(sourcePath)
+  const modifyKeys = Object.keys(modifyEntries ?? {})
 
-  if (modifyEntries && Object.keys(modifyEntries).length > 0) {
-    for (const [key, value] of Object.entries(modifyEntries)) {
-      newDict[key] = value
+  for (const key of newDoc.keys()) {
+    if (!keepKeys.includes(key) && !modifyKeys.includes(key)) {
+      newDoc.remove(key)
     }
   }
 
-  const newSortedDict = sortDictionaryByKeyAsc(newDict)
-  const newEnvFileContent = dictionaryToEnvFileString(newSortedDict)
+  for (const key of sourceDoc.keys().filter(key => keepKeys.includes(key))) {
+    newDoc.setRawValue(key, sourceDoc.getRawValue(key)!)
+  }
+
+  for (const [key, value] of Object.entries(modifyEntries ?? {})) {
+    newDoc.set(key, value)
+  }
+
+  const newEnvFileContent = newDoc.toString()
+  if (dryRun) {
+    logDryRunFileChange(destinationPath, existingContent, newEnvFileContent)
+    return
+  }
   await fsp.writeFile(destinationPath, newEnvFileContent)
 }
 
@@ -718,16 +929,21 @@ export function sortDictionaryByKeyAsc(dict: StringKeyedDictionary): StringKeyed
 }
 
 /**
- * Helper method to delete a .env file if it exists.
+ * Helper method to delete a .env file if it exists. In dry run mode (see {@link DryRunOptions}), the deletion is logged instead of performed.
  * @param envPath The path to the .env file to delete
+ * @param options See {@link DryRunOptions}
  */
-export async function deleteEnvIfExists(envPath: string) {
+export async function deleteEnvIfExists(envPath: string, options?: DryRunOptions) {
   // Just protecting ourselves from accidentally deleting something we didn't mean to
   if (envPath.endsWith('.env') === false) {
     throw new Error(`envPath must end with '.env': ${envPath}`)
   }
   // Using fsp.unlink will throw an error if it's a directory
   if (fs.existsSync(envPath)) {
+    if (isDryRun(options?.dryRun)) {
+      logDryRunFileChange(envPath, undefined, undefined)
+      return
+    }
     await fsp.unlink(envPath)
   }
 }
@@ -989,6 +1205,48 @@ export function getRequiredEnvVar(varName: string, throwOnEmpty = true): string
   return val
 }
 
+/**
+ * Returns the value for an environment variable parsed as an integer. Throws if it's missing, empty or not an integer.
+ * @param varName The name of the environment variable to get.
+ */
+export function getRequiredEnvInt(varName: string): number {
+  return parseInt(getRequiredEnvVarOfType(varName, 'int'))
+}
+
+/**
+ * Returns the value for an environment variable parsed as a port number. Throws if it's missing, empty or not an integer from 1 to 65535.
+ * @param varName The name of the environment variable to get.
+ */
+export function getRequiredEnvPort(varName: string): number {
+  return parseInt(getRequiredEnvVarOfType(varName, 'port'))
+}
+
+/**
+ * Returns the value for an environment variable parsed as a {@link URL}. Throws if it's missing, empty or not a valid absolute url.
+ * @param varName The name of the environment variable to get.
+ */
+export function getRequiredEnvUrl(varName: string): URL {
+  return new URL(getRequiredEnvVarOfType(varName, 'url'))
+}
+
+/**
+ * Returns the value for an environment variable parsed as a boolean. Throws if it's missing, empty or not one of (case-insensitive)
+ * `true`, `1`, `yes`, `false`, `0` or `no`.
+ * @param varName The name of the environment variable to get.
+ */
+export function getRequiredEnvBool(varName: string): boolean {
+  return parseEnvBool(getRequiredEnvVarOfType(varName, 'bool'))!
+}
+
+function getRequiredEnvVarOfType(varName: string, type: EnvVarType): string {
+  const val = getRequiredEnvVar(varName)
+  const typeError = getEnvTypeError(val, type)
+  if (typeError) {
+    throw new Error(`Invalid value for environment variable ${varName}: ${typeError}`)
+  }
+  return val
+}
+
 export function getNormalizedError(err: unknown): Error {
   if (err instanceof Error) {
     return err
@@ -1070,7 +1328,7 @@ export async function withRetryAsync(func: () => Promise<void>, maxCalls: number
       break
     } catch (err) {
       if (mergedOptions.logIntermediateErrors || shouldLog) {
-        console.error(err)
+        logError(err)
       }
       lastError = err
     }
@@ -1228,7 +1486,7 @@ export function wslPathExists(wslPath: string): boolean {
 
   const pathWithoutDoubleQuotes = wslPath.replaceAll('"', '')
 
-  return simpleSpawnSync('wsl', ['test', '-e', pathWithoutDoubleQuotes], { throwOnNonZero: false }).code === 0
+  return simpleSpawnSync('wsl', ['test', '-e', pathWithoutDoubleQuotes], { throwOnNonZero: false, dryRun: false }).code === 0
 }
 
 /**
@@ -1456,7 +1714,7 @@ export async function winUninstallPnpmFromVolta() {
     throw new Error('This script is only supported on Windows')
   }
 
-  console.log('- uninstalling pnpm from volta')
+  log('- uninstalling pnpm from volta')
 
   const voltaAppDir = getVoltaAppDir()
 
@@ -5,14 +5,16 @@ import http from 'node:http'
 import https from 'node:https'
 import path from 'node:path'
 import { config } from './NodeCliUtilsConfig.js'
-import { ExtendedError, SimpleSpawnError, SimpleSpawnResult, SpawnError, SpawnOptionsWithThrow, SpawnResult, StringKeyedDictionary, WhichResult, isErrorEnoent, isPlatformWindows, log, requireString, requireValidPath, simpleSpawnAsync, sortDictionaryByKeyAsc, spawnAsync, stringToNonEmptyLines, stripShellMetaCharacters, trace } from './generalUtils.js'
+import { EnvDocument } from './EnvDocument.js'
+import { DryRunOptions, ExtendedError, SimpleSpawnError, SimpleSpawnResult, ReadyProcessHandle, SpawnCancelReason, SpawnCancellationOptions, SpawnError, SpawnOptionsWithThrow, SpawnResult, SpawnTimeoutError, SpawnUntilReadyOptions, StringKeyedDictionary, WhichResult, isErrorEnoent, isPlatformWindows, log, requireString, requireValidPath, spawnAsync, stringToLines, stringToNonEmptyLines, stripShellMetaCharacters, trace } from './generalUtils.js'
+import { getDescendantPids } from './processTree.js'
 
 const isCommonJS = typeof require === "function" && typeof module === "object" && module.exports
 const isEsm = !isCommonJS
 const spawnWorkaroundScriptName = 'runWhileParentAlive.js'
 const currentModuleDir: string = '' // Lazy loaded in getCurrentModuleDir
 
-export async function copyEnv(sourcePath: string, destinationPath: string, overrideExistingDestinationValues = true, suppressAddKeysMessages = false, throwIfDestinationDirectoryMissing = false) {
+export async function copyEnv(sourcePath: string, destinationPath: string, overrideExistingDestinationValues = true, suppressAddKeysMessages = false, throwIfDestinationDirectoryMissing = false, dryRun?: boolean) {
   requireValidPath('sourcePath', sourcePath)
   requireString('destinationPath', destinationPath)
 
@@ -29,17 +31,21 @@ export async function copyEnv(sourcePath: string, destinationPath: string, overr
   // If the destination .env file doesn't exist, just copy it over
   if (!fs.existsSync(destinationPath)) {
     log(`creating ${destinationPath} from ${sourcePath}`)
+    if (isDryRun(dryRun)) {
+      logDryRunFileChange(destinationPath, undefined, fs.readFileSync(sourcePath, 'utf-8'))
+      return
+    }
     await fsp.copyFile(sourcePath, destinationPath)
     return
   }
 
-  const sourceDict = getEnvAsDictionary(sourcePath)
-  const destinationDict = getEnvAsDictionary(destinationPath)
+  // Raw values are copied so that quoting, escapes and ${VAR} references are written back exactly as they were.
+  // The destination document keeps its comments, blank lines and ordering and new keys are appended in a marked section.
+  const sourceDoc = EnvDocument.load(sourcePath)
+  const destinationDoc = EnvDocument.load(destinationPath)
 
   // Determine what keys are missing from destinationPath .env that are in sourcePath .env or .env.template
-  const templateKeys = Object.keys(sourceDict)
-  const destinationKeysBeforeChanging = Object.keys(destinationDict)
-  const keysMissingInDestination = templateKeys.filter(envKey => !destinationKeysBeforeChanging.includes(envKey))
+  const keysMissingInDestination = sourceDoc.keys().filter(envKey => !destinationDoc.has(envKey))
 
   if (keysMissingInDestination.length > 0) {
     if (!suppressAddKeysMessages) {
@@ -49,47 +55,77 @@ export async function copyEnv(sourcePath: string, destinationPath: string, overr
 
   // For instances where both .env files have the same key, use the value from the source if
   // overrideExistingDestinationValues param is true, otherwise leave the value from the destination intact.
-  const newDict: StringKeyedDictionary = {}
-  for (const [key, value] of Object.entries(overrideExistingDestinationValues ? sourceDict : destinationDict)) {
-    newDict[key] = value
+  for (const key of sourceDoc.keys()) {
+    if (overrideExistingDestinationValues || keysMissingInDestination.includes(key)) {
+      destinationDoc.setRawValue(key, sourceDoc.getRawValue(key)!)
+    }
   }
 
-  // Add entries that the destination doesn't have yet
-  for (const key of keysMissingInDestination) {
-    newDict[key] = sourceDict[key]
+  const newEnvFileContent = destinationDoc.toString()
+  if (isDryRun(dryRun)) {
+    logDryRunFileChange(destinationPath, fs.readFileSync(destinationPath, 'utf-8'), newEnvFileContent)
+    return
   }
-
-  const newSortedDict: StringKeyedDictionary = sortDictionaryByKeyAsc(newDict)
-  const newEnvFileContent = dictionaryToEnvFileString(newSortedDict)
   await fsp.writeFile(destinationPath, newEnvFileContent)
 }
 
-export function getEnvAsDictionary(envPath: string): StringKeyedDictionary {
-  const dict: StringKeyedDictionary = {}
-  const lines = stringToNonEmptyLines(fs.readFileSync(envPath).toString())
-  for (const line of lines) {
-    if (line && line.indexOf('=') !== -1) {
-      const parts = line.split('=')
-      dict[parts[0].trim()] = parts[1].trim()
-    }
-  }
-  return dict
+/** Returns the per-call override if one was passed, otherwise the global `config.dryRun` setting. */
+export function isDryRun(dryRunOverride?: boolean): boolean {
+  return dryRunOverride ?? config.dryRun
+}
+
+export function logDryRun(message: string) {
+  log(`[DRY RUN] ${message}`)
 }
 
-export function dictionaryToEnvFileString(dict: StringKeyedDictionary): string {
-  return Object.entries(dict).map(kvp => `${kvp[0]}=${kvp[1]}`).join('\n') + '\n'
+export function logDryRunSpawn(command: string, args: string[], cwd?: string) {
+  logDryRun(`would run: ${[command, ...args].join(' ')} (cwd: ${cwd ?? process.cwd()})`)
+}
+
+/**
+ * Logs the lines that would be removed (`-`) and added (`+`) by a file change. Pass `undefined` for `before` if the file would
+ * be created or `undefined` for `after` if the file would be deleted.
+ */
+export function logDryRunFileChange(filePath: string, before: string | undefined, after: string | undefined) {
+  if (after === undefined) {
+    logDryRun(`would delete file: ${filePath}`)
+    return
+  }
+  const beforeLines = before === undefined ? [] : stringToLines(before)
+  const afterLines = stringToLines(after)
+  const removedLines = beforeLines.filter(line => line.trim() && !afterLines.includes(line)).map(line => `- ${line}`)
+  const addedLines = afterLines.filter(line => line.trim() && !beforeLines.includes(line)).map(line => `+ ${line}`)
+  const changedLines = [...removedLines, ...addedLines]
+  const action = before === undefined ? 'create' : 'modify'
+  logDryRun(`would ${action} file: ${filePath}${changedLines.length === 0 ? ' (no changes)' : ''}`)
+  if (changedLines.length > 0) {
+    log(changedLines.join('\n'))
+  }
 }
 
 export interface SpawnOptionsInternal extends SpawnOptionsWithThrow {
   isLongRunning: boolean
+  /** Called with the ChildProcess handle immediately after spawning, for callers that need to interact with the process while it runs. */
+  onSpawn?: (child: ChildProcess) => void
+  /**
+   * Overrides the prefix of trace messages. The long running workaround uses this so that the middle process is traced with the original command
+   * and args (which are redacted by {@link trace}) rather than the base64 encoded args that are passed to it.
+   */
+  logPrefix?: string
 }
 
 export async function spawnAsyncInternal(command: string, args: string[], options?: Partial<SpawnOptionsInternal>): Promise<SpawnResult> {
   const mergedOptions = setDefaultsAndMergeOptions(options)
-  const logPrefix = `[${command} ${args.join(' ')}] `
+  const logPrefix = mergedOptions.logPrefix ?? `[${command} ${args.join(' ')}] `
 
-  // Windows has an issue where child processes are orphaned when using the shell option. This workaround will spawn
-  // a "middle" process using the shell option to check whether parent process is still running at intervals and if not, kill the child process tree.
+  if (isDryRun(mergedOptions.dryRun)) {
+    const result = getInitialSpawnResult(mergedOptions)
+    logDryRunSpawn(command, args, result.cwd)
+    return { ...result, code: 0, elapsedMillis: 0 }
+  }
+
+  // Child processes can be orphaned if this process is killed unexpectedly (and on Windows, whenever the shell option is used). This workaround will spawn
+  // a "middle" process to check whether parent process is still running at intervals and if not, kill the child process tree.
   const workaroundScriptPath = await getWorkaroundScriptPath(command, args, options)
   if (workaroundScriptPath) {
     return await spawnWithKeepaliveWorkaround(logPrefix, workaroundScriptPath, command, args, mergedOptions)
@@ -98,21 +134,64 @@ export async function spawnAsyncInternal(command: string, args: string[], option
   return new Promise((resolve, reject) => {
     try {
       const result: SpawnResult = getInitialSpawnResult(mergedOptions)
+      const { signal: abortSignal, timeoutMillis } = mergedOptions
+
+      if (abortSignal?.aborted) {
+        result.cancelReason = 'abort'
+        result.code = 1
+        if (mergedOptions.throwOnNonZero) {
+          reject(getSpawnTimeoutError(result))
+          return
+        }
+        resolve(result)
+        return
+      }
 
-      const child = spawn(command, args, mergedOptions)
+      const startTime = Date.now()
+
+      // The signal option is handled below instead of by NodeJS spawn so that the entire process tree is killed
+      const child = spawn(command, args, { ...mergedOptions, signal: undefined })
       const childId: number | undefined = child.pid
       if (childId === undefined) {
         trace(`${logPrefix}ChildProcess pid is undefined - spawn failed - an error event should be emitted shortly`)
       }
+      mergedOptions.onSpawn?.(child)
+
+      const cancel = (reason: SpawnCancelReason) => {
+        if (result.cancelReason) {
+          return
+        }
+        result.cancelReason = reason
+        trace(`${logPrefix}Killing ChildProcess tree with ID ${childId} - cancel reason: ${reason}`)
+        if (childId !== undefined) {
+          killProcessTree(childId)
+        }
+      }
+      const timeout = timeoutMillis !== undefined ? setTimeout(() => cancel('timeout'), timeoutMillis) : undefined
+      const abortHandler = () => cancel('abort')
+      abortSignal?.addEventListener('abort', abortHandler, { once: true })
+
+      const stdoutLineBuffer = new LineBuffer(mergedOptions.onStdoutLine)
+      const stderrLineBuffer = new LineBuffer(mergedOptions.onStderrLine)
 
       // This event will only be emitted when stdio is NOT set to 'inherit'
       child.stdout?.on('data', (data) => {
-        result.stdout += data.toString()
+        const chunk = data.toString()
+        result.stdout += chunk
+        if (mergedOptions.tee) {
+          process.stdout.write(chunk)
+        }
+        stdoutLineBuffer.push(chunk)
       })
 
       // This event will only be emitted when stdio is NOT set to 'inherit'
       child.stderr?.on('data', (data) => {
-        result.stderr += data.toString()
+        const chunk = data.toString()
+        result.stderr += chunk
+        if (mergedOptions.tee) {
+          process.stderr.write(chunk)
+        }
+        stderrLineBuffer.push(chunk)
       })
 
       const listener = new SignalListener(child, logPrefix)
@@ -120,9 +199,18 @@ export async function spawnAsyncInternal(command: string, args: string[], option
       child.on('exit', (code, signal) => {
         const signalMessage = signal ? ` with signal ${signal}` : ''
         trace(`${logPrefix}ChildProcess exited with code ${code}${signalMessage}`)
-        result.code = getResultCode(code, mergedOptions.isLongRunning)
+        stdoutLineBuffer.flush()
+        stderrLineBuffer.flush()
+        clearTimeout(timeout)
+        abortSignal?.removeEventListener('abort', abortHandler)
+        result.elapsedMillis = Date.now() - startTime
+        result.code = result.cancelReason ? code ?? 1 : getResultCode(code, mergedOptions.isLongRunning)
         child.removeAllListeners()
         listener.detach()
+        if (mergedOptions.throwOnNonZero && result.cancelReason) {
+          reject(getSpawnTimeoutError(result))
+          return
+        }
         if (mergedOptions.throwOnNonZero && result.code !== 0) {
           reject(getSpawnError(result.code, result, mergedOptions))
           return
@@ -130,11 +218,17 @@ export async function spawnAsyncInternal(command: string, args: string[], option
         resolve(result)
       })
 
+      // Emitted instead of exit if the process couldn't be spawned (for example if the command isn't found)
       child.on('error', (error) => {
+        trace(`${logPrefix}ChildProcess emitted an error event`, error)
+        clearTimeout(timeout)
+        abortSignal?.removeEventListener('abort', abortHandler)
+        listener.detach()
         if (isErrorEnoent(error)) {
-          throw new ExtendedError(`Command or path not found: ${command}`, error)
+          reject(new ExtendedError(`Command or path not found: ${command}`, error))
+          return
         }
-        throw new ExtendedError('ChildProcess emitted an error event - see innerError', error)
+        reject(new ExtendedError('ChildProcess emitted an error event - see innerError', error))
       })
     } catch (err) {
       reject(err)
@@ -142,28 +236,118 @@ export async function spawnAsyncInternal(command: string, args: string[], option
   })
 }
 
+export async function spawnUntilReadyInternal(command: string, args: string[], options: SpawnUntilReadyOptions): Promise<ReadyProcessHandle> {
+  if (!(options?.readyPattern instanceof RegExp)) {
+    throw new Error('The readyPattern option must be a RegExp')
+  }
+  if (options.timeoutMillis !== undefined && (typeof options.timeoutMillis !== 'number' || Number.isNaN(options.timeoutMillis) || options.timeoutMillis <= 0)) {
+    throw new Error(`The timeoutMillis option must be a number greater than 0: ${options.timeoutMillis}`)
+  }
+
+  if (isDryRun(options.dryRun)) {
+    throw new Error('spawnUntilReady cannot be used in dry run mode because it requires a running process')
+  }
+
+  const logPrefix = `[${command} ${args.join(' ')}] `
+  let child: ChildProcess | undefined
+  let isReady = false
+
+  return new Promise((resolve, reject) => {
+    let readinessTimeout: NodeJS.Timeout | undefined = undefined
+    let timedOut = false
+
+    const stop = async (): Promise<SpawnResult> => {
+      if (child?.pid !== undefined && child.exitCode === null && child.signalCode === null) {
+        trace(`${logPrefix}Stopping ready process - killing ChildProcess tree with ID ${child.pid}`)
+        killProcessTree(child.pid)
+      }
+      return await resultPromise
+    }
+
+    const checkLine = (line: string) => {
+      if (isReady || !options.readyPattern.test(line)) {
+        return
+      }
+      isReady = true
+      clearTimeout(readinessTimeout)
+      trace(`${logPrefix}Output matched readyPattern: ${line}`)
+      resolve({ child: child!, readyLine: line, stop, result: resultPromise })
+    }
+
+    const resultPromise = spawnAsyncInternal(command, args, {
+      cwd: options.cwd,
+      signal: options.signal,
+      dryRun: false,
+      isLongRunning: true,
+      tee: true,
+      onSpawn: c => child = c,
+      onStdoutLine: checkLine,
+      onStderrLine: checkLine
+    })
+
+    if (options.timeoutMillis !== undefined) {
+      readinessTimeout = setTimeout(() => {
+        timedOut = true
+        trace(`${logPrefix}Output did not match readyPattern within ${options.timeoutMillis} ms - killing ChildProcess tree`)
+        stop().catch(() => { })
+      }, options.timeoutMillis)
+    }
+
+    resultPromise.then(result => {
+      if (isReady) {
+        return
+      }
+      clearTimeout(readinessTimeout)
+      if (timedOut) {
+        reject(new SpawnTimeoutError(`Output did not match the readyPattern ${options.readyPattern} within ${options.timeoutMillis} ms and the process tree was killed`, result, 'timeout'))
+      } else if (result.cancelReason) {
+        reject(getSpawnTimeoutError(result))
+      } else {
+        reject(new SpawnError(`Process exited with code ${result.code} before output matched the readyPattern ${options.readyPattern}`, result))
+      }
+    }, err => {
+      clearTimeout(readinessTimeout)
+      if (!isReady) {
+        reject(err)
+      }
+    })
+  })
+}
+
 // If long running, ctrl+c will cause a null code, which we don't necessarily want to consider an error
 function getResultCode(code: number | null, isLongRunning: boolean) {
   return (code === null && isLongRunning) ? 0 : code ?? 1
 }
 
 const setDefaultsAndMergeOptions = (options?: Partial<SpawnOptionsInternal>): SpawnOptionsInternal => {
-  if (options?.cwd && !fs.existsSync(options.cwd)) {
+  // In a dry run, the cwd may not exist because the steps that would have created it were skipped
+  if (options?.cwd && !isDryRun(options.dryRun) && !fs.existsSync(options.cwd)) {
     throw new Error(`The cwd path provided does not exist: ${options.cwd}`)
   }
+  if (options?.timeoutMillis !== undefined && (typeof options.timeoutMillis !== 'number' || Number.isNaN(options.timeoutMillis) || options.timeoutMillis <= 0)) {
+    throw new Error(`The timeoutMillis option must be a number greater than 0: ${options.timeoutMillis}`)
+  }
   const defaultSpawnOptions: SpawnOptionsInternal = { stdio: 'inherit', isLongRunning: false, throwOnNonZero: true }
   if (options?.isLongRunning) {
     defaultSpawnOptions.throwOnNonZero = false
   }
-  return { ...defaultSpawnOptions, ...options }
+  const mergedOptions = { ...defaultSpawnOptions, ...options }
+  if (mergedOptions.tee) {
+    mergedOptions.stdio = ['inherit', 'pipe', 'pipe']
+  }
+  return mergedOptions
 }
 
 // Return workaroundScriptPath if:
 // - Long running option set to true
-// - OS is Windows
 // - It's not the long running workaround call itself (avoid an infinite loop)
+// - The workaround script exists (it won't when running directly from typescript source, such as in this project's tests)
 // Otherwise return undefined
 async function getWorkaroundScriptPath(command: string, args?: string[], options?: Partial<SpawnOptionsInternal>): Promise<string | undefined> {
+  if (!options?.isLongRunning || (command === 'node' && args && args[0]?.endsWith(spawnWorkaroundScriptName))) {
+    return undefined
+  }
+
   const moduleDir = await getCurrentModuleDir()
   let workaroundScriptPath = path.join(moduleDir, spawnWorkaroundScriptName)
 
@@ -172,15 +356,16 @@ async function getWorkaroundScriptPath(command: string, args?: string[], options
     workaroundScriptPath = path.resolve('dist/esm', spawnWorkaroundScriptName)
   }
 
-  if (options?.isLongRunning && isPlatformWindows() && !(command === 'node' && args && args[0]?.endsWith(spawnWorkaroundScriptName))) {
-    return workaroundScriptPath
+  if (!fs.existsSync(workaroundScriptPath)) {
+    trace(`Orphan protection workaround script not found - spawning without it: ${workaroundScriptPath}`)
+    return undefined
   }
 
-  return undefined
+  return workaroundScriptPath
 }
 
 async function spawnWithKeepaliveWorkaround(logPrefix: string, workaroundScriptPath: string, command: string, args: string[], options: Partial<SpawnOptionsInternal>) {
-  trace(`${logPrefix}Running on Windows with shell option - using middle process hack to prevent orphaned processes`)
+  trace(`${logPrefix}Running long running process - using middle process hack to prevent orphaned processes`)
 
   const loggingEnabledString = config.orphanProtectionLoggingEnabled.toString()
   const traceEnabledString = config.traceEnabled.toString()
@@ -204,7 +389,9 @@ async function spawnWithKeepaliveWorkaround(logPrefix: string, workaroundScriptP
     ...(argsSerialized)
   ]
 
-  return await spawnAsync('node', workaroundArgs, { ...options, stdio: 'inherit', shell: true })
+  // The shell option is only needed on Windows (see runWhileParentAlive.ts). On other platforms the middle process must be a direct
+  // child of this process so that it can poll this process's ID with process.ppid.
+  return await spawnAsyncInternal('node', workaroundArgs, { ...options, logPrefix, stdio: 'inherit', shell: isPlatformWindows() })
 }
 
 function getInitialSpawnResult(options?: SpawnOptionsInternal): SpawnResult {
@@ -221,6 +408,71 @@ function getSpawnError(code: number, result: SpawnResult, options: Partial<Spawn
   return new SpawnError(`Spawning child process failed with code ${code}${additional}`, result)
 }
 
+function getSpawnTimeoutError(result: SpawnResult): SpawnTimeoutError {
+  const reason = result.cancelReason ?? 'timeout'
+  const message = reason === 'timeout' ?
+    `Spawned child process timed out after ${result.elapsedMillis} ms and the process tree was killed` :
+    `Spawned child process was aborted${result.elapsedMillis !== undefined ? ` after ${result.elapsedMillis} ms` : ' before it started'} and the process tree was killed`
+  return new SpawnTimeoutError(message, result, reason)
+}
+
+/**
+ * Kill a process and all of its descendants. On Windows this uses `taskkill /T /F`. On other platforms the descendants are
+ * found by parsing the output of `ps` and each process is sent the `signal` (defaults to `SIGKILL`).
+ */
+export function killProcessTree(pid: number, signal: NodeJS.Signals = 'SIGKILL') {
+  if (isPlatformWindows()) {
+    spawnSync('taskkill', ['/pid', pid.toString(), '/T', '/F'])
+    return
+  }
+  const descendantPids = getDescendantPids(pid)
+  if (!descendantPids) {
+    trace(`Unable to get descendant process IDs for process ${pid} - only the parent process will be killed`)
+  }
+  const pids = [pid, ...(descendantPids ?? [])]
+  for (const pidToKill of pids) {
+    try {
+      process.kill(pidToKill, signal)
+    } catch (err) {
+      trace(`Unable to kill process with ID ${pidToKill} (it may have already exited)`, err)
+    }
+  }
+}
+
+// Accumulates chunks of output and calls the line handler for each complete line. Call flush on exit to pass along any trailing partial line.
+class LineBuffer {
+  private buffer = ''
+  private onLine?: (line: string) => void
+
+  constructor(onLine?: (line: string) => void) {
+    this.onLine = onLine
+  }
+
+  push(chunk: string) {
+    if (!this.onLine) {
+      return
+    }
+    this.buffer += chunk
+    let newlineIndex = this.buffer.indexOf('\n')
+    while (newlineIndex !== -1) {
+      this.emit(this.buffer.substring(0, newlineIndex))
+      this.buffer = this.buffer.substring(newlineIndex + 1)
+      newlineIndex = this.buffer.indexOf('\n')
+    }
+  }
+
+  flush() {
+    if (this.onLine && this.buffer) {
+      this.emit(this.buffer)
+    }
+    this.buffer = ''
+  }
+
+  private emit(line: string) {
+    this.onLine?.(line.endsWith('\r') ? line.slice(0, -1) : line)
+  }
+}
+
 class SignalListener {
   private signals: NodeJS.Signals[] = ['SIGINT', 'SIGTERM', 'SIGQUIT'];
   private child: ChildProcess
@@ -279,8 +531,43 @@ export function validateFindFilesRecursivelyParams(dir: string, filenamePattern:
   }
 }
 
-export function simpleSpawnSyncInternal(command: string, args?: string[], throwOnNonZero: boolean = true, cwd: string = process.cwd(), useCmd: boolean = false): SimpleSpawnResult {
+// Searches the directory and then each parent directory for the first of the file names that exists (for example nuget.config or Directory.Packages.props)
+export function findFileInParentDirectories(startDir: string, fileNames: string[]): string | undefined {
+  let dir = path.resolve(startDir)
+  // eslint-disable-next-line no-constant-condition
+  while (true) {
+    for (const fileName of fileNames) {
+      const filePath = path.join(dir, fileName)
+      if (fs.existsSync(filePath)) {
+        return filePath
+      }
+    }
+    const parentDir = path.dirname(dir)
+    if (parentDir === dir) {
+      return undefined
+    }
+    dir = parentDir
+  }
+}
+
+// Decodes the predefined XML entities in attribute values read with regular expressions (for example from nuget.config and csproj files)
+export function decodeXmlEntities(value: string): string {
+  return value
+    .replaceAll('&lt;', '<')
+    .replaceAll('&gt;', '>')
+    .replaceAll('&quot;', '"')
+    .replaceAll('&apos;', `'`)
+    .replaceAll('&amp;', '&')
+}
+
+export function simpleSpawnSyncInternal(command: string, args?: string[], throwOnNonZero: boolean = true, cwd: string = process.cwd(), useCmd: boolean = false, dryRun?: boolean): SimpleSpawnResult {
   requireString('command', command)
+
+  if (isDryRun(dryRun)) {
+    logDryRunSpawn(command, args ?? [], cwd)
+    return { code: 0, stdout: '', stderr: '', stdoutLines: [], cwd: cwd, elapsedMillis: 0 }
+  }
+
   requireValidPath('cwd', cwd)
 
   const result = spawnSync(command, args ?? [], { encoding: 'utf-8', shell: useCmd ? 'cmd.exe' : false, cwd: cwd })
@@ -301,11 +588,21 @@ export function simpleSpawnSyncInternal(command: string, args?: string[], throwO
   return spawnResult
 }
 
-export async function simpleSpawnAsyncInternal(command: string, args?: string[], throwOnNonZero: boolean = true, cwd: string = process.cwd(), useCmd: boolean = false): Promise<SimpleSpawnResult> {
+export async function simpleSpawnAsyncInternal(command: string, args?: string[], throwOnNonZero: boolean = true, cwd: string = process.cwd(), useCmd: boolean = false, options?: SpawnCancellationOptions & DryRunOptions): Promise<SimpleSpawnResult> {
   requireString('command', command)
-  requireValidPath('cwd', cwd)
-
-  const result = await spawnAsync(command, args, { stdio: 'pipe', shell: useCmd ? 'cmd.exe' : false, cwd: cwd, throwOnNonZero: false })
+  if (!isDryRun(options?.dryRun)) {
+    requireValidPath('cwd', cwd)
+  }
+
+  const result = await spawnAsync(command, args, {
+    stdio: 'pipe',
+    shell: useCmd ? 'cmd.exe' : false,
+    cwd: cwd,
+    throwOnNonZero: false,
+    timeoutMillis: options?.timeoutMillis,
+    signal: options?.signal,
+    dryRun: options?.dryRun
+  })
 
   const spawnResult: SimpleSpawnResult = {
     code: result.code,
@@ -313,7 +610,13 @@ export async function simpleSpawnAsyncInternal(command: string, args?: string[],
     stderr: result.stderr,
     stdoutLines: stringToNonEmptyLines(result.stdout),
     error: result.error,
-    cwd: cwd
+    cwd: cwd,
+    elapsedMillis: result.elapsedMillis,
+    cancelReason: result.cancelReason
+  }
+
+  if (spawnResult.cancelReason && throwOnNonZero) {
+    throw getSpawnTimeoutError(spawnResult)
   }
 
   if (spawnResult.code !== 0 && throwOnNonZero) {
@@ -323,7 +626,7 @@ export async function simpleSpawnAsyncInternal(command: string, args?: string[],
   return spawnResult
 }
 
-type SimpleSpawnFunction = (cmd: string, args: string[]) => Promise<SimpleSpawnResult> | SimpleSpawnResult
+type SimpleSpawnFunction = (cmd: string, args: string[], options?: DryRunOptions) => Promise<SimpleSpawnResult> | SimpleSpawnResult
 
 // Spawn functions passed here so they can be mocked in tests
 export function whichInternal(commandName: string, simpleCmd: SimpleSpawnFunction, simpleSpawn: SimpleSpawnFunction, wslPrefix?: boolean): Promise<WhichResult> | WhichResult {
@@ -352,7 +655,8 @@ export function whichInternal(commandName: string, simpleCmd: SimpleSpawnFunctio
   }
 
   try {
-    const result = execFunc(cmd, args)
+    // Read-only lookup that other functions rely on, so it runs even when dry run is enabled
+    const result = execFunc(cmd, args, { dryRun: false })
 
     if (result instanceof Promise) {
       return result.then(parsedResult => ({
@@ -380,14 +684,6 @@ export function whichInternal(commandName: string, simpleCmd: SimpleSpawnFunctio
   }
 }
 
-export async function throwIfDockerNotReady() {
-  if (isPlatformWindows()) {
-    await simpleSpawnAsync('wsl', ['docker', 'info'])
-  } else {
-    await simpleSpawnAsync('docker', ['info'])
-  }
-}
-
 // Using basic NodeJS http instead of fetch because:
 // - Older NodeJS versions don't have fetch built-in
 // - The new NodeJS fetch implementation seems to be buggy (sometimes crashes the entire Node process with no indication of what happened - no unhandled error or rejection events are even triggered)
@@ -1,15 +1,16 @@
 import fsp from 'node:fs/promises'
 import os from 'node:os'
-import { getHostname, hasWhitespace, isPlatformWindows, log, requireString, stringToNonEmptyLines } from './generalUtils.js'
+import { DryRunOptions, getHostname, hasWhitespace, isPlatformWindows, log, requireString, stringToNonEmptyLines } from './generalUtils.js'
+import { isDryRun, logDryRunFileChange } from './generalUtilsInternal.js'
 
-export async function ensureHostsEntry(url: string, ipV4Address: string = '127.0.0.1'): Promise<void> {
+export async function ensureHostsEntry(url: string, ipV4Address: string = '127.0.0.1', options?: DryRunOptions): Promise<void> {
   const hostname = getHostname(url)
-  await changeHostsFile(hostname, ipV4Address, 'add')
+  await changeHostsFile(hostname, ipV4Address, 'add', options)
 }
 
-export async function removeHostsEntry(url: string, ipV4Address: string = '127.0.0.1'): Promise<void> {
+export async function removeHostsEntry(url: string, ipV4Address: string = '127.0.0.1', options?: DryRunOptions): Promise<void> {
   const hostname = getHostname(url)
-  await changeHostsFile(hostname, ipV4Address, 'remove')
+  await changeHostsFile(hostname, ipV4Address, 'remove', options)
 }
 
 export function getHostsPath(): string {
@@ -34,7 +35,7 @@ export function hostsFileStringHasEntry(hostsFileString: string, entry: string):
   return hasLine
 }
 
-export async function changeHostsFile(hostname: string, ipV4Address: string, operation: 'add' | 'remove'): Promise<void> {
+export async function changeHostsFile(hostname: string, ipV4Address: string, operation: 'add' | 'remove', options?: DryRunOptions): Promise<void> {
   requireString('hostname', hostname)
   if (hasWhitespace(hostname)) {
     throw new Error(`Invalid hostname: ${hostname}`)
@@ -44,6 +45,7 @@ export async function changeHostsFile(hostname: string, ipV4Address: string, ope
   }
   const isAddition = operation === 'add'
   const isRemoval = operation === 'remove'
+  const dryRun = isDryRun(options?.dryRun)
   const hostsPath = getHostsPath()
   const entry = `${ipV4Address} ${hostname}`
 
@@ -60,12 +62,20 @@ export async function changeHostsFile(hostname: string, ipV4Address: string, ope
   }
   if (isAddition && !hasLine) {
     log('existing entry not found - appending entry to the hosts file')
-    await fsp.appendFile(hostsPath, `\n${entry}`)
+    if (dryRun) {
+      logDryRunFileChange(hostsPath, hostsFileString, `${hostsFileString}\n${entry}`)
+    } else {
+      await fsp.appendFile(hostsPath, `\n${entry}`)
+    }
   }
   if (isRemoval && hasLine) {
     log(`existing entry found - removing entry`)
     const hostsWithoutEntry = getEolNormalizedWithoutLine(hostsFileString, entry)
-    await fsp.writeFile(hostsPath, hostsWithoutEntry)
+    if (dryRun) {
+      logDryRunFileChange(hostsPath, hostsFileString, hostsWithoutEntry)
+    } else {
+      await fsp.writeFile(hostsPath, hostsWithoutEntry)
+    }
   }
 }
 
@@ -1,4 +1,10 @@
 export * from './generalUtils.js'
 export { config } from './NodeCliUtilsConfig.js'
-export { createTarball, unpackTarball, unpackTarballContents } from './TarballUtility.js'
+export type { ContainerEngine } from './NodeCliUtilsConfig.js'
+export * from './Logger.js'
+export * from './SecretRegistry.js'
+export { createTarball, getTarballEntries, unpackTarball, unpackTarballContents } from './TarballUtility.js'
 export * from './hostFileUtils.js'
+export * from './envParser.js'
+export * from './EnvDocument.js'
+export * from './envSchema.js'
@@ -0,0 +1,33 @@
+// Process tree helpers shared by generalUtilsInternal.ts and the orphan protection middle process (runWhileParentAlive.ts). This module
+// must not import anything else from this package so that the middle process stays light.
+import { spawnSync } from 'node:child_process'
+
+/**
+ * Get the IDs of all descendants of a process by parsing the output of `ps -A -o pid=,ppid=`. Not supported on Windows.
+ * @param pid The ID of the process to get the descendants of
+ * @returns The descendant process IDs, or undefined if `ps` failed
+ */
+export function getDescendantPids(pid: number): number[] | undefined {
+  const psResult = spawnSync('ps', ['-A', '-o', 'pid=,ppid='], { encoding: 'utf-8' })
+  if (psResult.status !== 0 || !psResult.stdout) {
+    return undefined
+  }
+
+  const childPidsByParentPid = new Map<number, number[]>()
+  for (const line of psResult.stdout.split('\n')) {
+    const [childPid, parentPid] = line.trim().split(/\s+/).map(Number)
+    if (Number.isNaN(childPid) || Number.isNaN(parentPid)) {
+      continue
+    }
+    childPidsByParentPid.set(parentPid, [...(childPidsByParentPid.get(parentPid) ?? []), childPid])
+  }
+
+  const descendants: number[] = []
+  const pidsToCheck = [pid]
+  while (pidsToCheck.length > 0) {
+    const children = childPidsByParentPid.get(pidsToCheck.pop()!) ?? []
+    descendants.push(...children)
+    pidsToCheck.push(...children)
+  }
+  return descendants
+}
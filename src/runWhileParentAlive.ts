@@ -1,9 +1,12 @@
 // runWhileParentAlive.ts
-// Also referred to as "orphan protection" or "long running windows process workaround script"
-import { spawn, spawnSync } from 'node:child_process'
+// Also referred to as "orphan protection" or "long running process workaround script"
+import { ChildProcess, spawn, spawnSync } from 'node:child_process'
 import fs from 'node:fs'
+import { ConsoleLogger } from './Logger.js'
 import { config } from './NodeCliUtilsConfig.js'
+import { getDescendantPids } from './processTree.js'
 
+const isWindows = process.platform === 'win32'
 const DEV_LOGGING = false // Set to true while developing this script to see more logging in the console
 let loggingEnabled = true // Will be set below by process.argv[2] === 'true' from spawnAsync in generalUtils.js
 let traceEnabled = true // Will be set below by process.argv[3] === 'true' from spawnAsync in generalUtils.js
@@ -18,15 +21,11 @@ function getLogPrefix() {
   return `[${hours}:${minutes}:${seconds}:${milliseconds}] `
 }
 
-// Using this trace method instead of importing from generalUtils.js since config is not shared between processes
-export function trace(message?: unknown, ...optionalParams: unknown[]) {
-  const prefix = `[TRACE]`
-  console.log(prefix, message, ...optionalParams)
-}
+// Not using trace from generalUtils.js since config is not shared between processes
+const consoleLogger = new ConsoleLogger()
 
 function logToFile(message: string) {
-  fs.appendFileSync(config.orphanProtectionLoggingPath, `${getLogPrefix()}${message}` + !message?.endsWith('\n') ? '\n' : '')
-
+  fs.appendFileSync(config.orphanProtectionLoggingPath, `${getLogPrefix()}${message}` + (message?.endsWith('\n') ? '' : '\n'))
 }
 
 function traceAndLog(message: string, isDevTrace = false) {
@@ -34,12 +33,12 @@ function traceAndLog(message: string, isDevTrace = false) {
     return
   }
   if (isDevTrace && DEV_LOGGING) {
-    trace(getLogPrefix() + message)
+    consoleLogger.debug(getLogPrefix() + message)
     logToFile(message)
     return
   }
   if (traceEnabled) {
-    trace(getLogPrefix() + message)
+    consoleLogger.debug(getLogPrefix() + message)
   }
   if (loggingEnabled) {
     logToFile(message)
@@ -47,6 +46,10 @@ function traceAndLog(message: string, isDevTrace = false) {
 }
 
 function isParentProcessAlive(parentId: number) {
+  return isWindows ? winIsParentProcessAlive(parentId) : nixIsParentProcessAlive(parentId)
+}
+
+function winIsParentProcessAlive(parentId: number) {
   try {
     const result = spawnSync('C:\\Windows\\system32\\tasklist.exe')
     const resultToLog = {
@@ -58,17 +61,33 @@ function isParentProcessAlive(parentId: number) {
     return resultToLog.stdoutIncludesParentId
   } catch (err) {
     if (err instanceof Error) {
-      console.log(err.message)
-      console.log(err.stack)
+      consoleLogger.info(err.message)
+      consoleLogger.info(err.stack)
     } else {
-      console.error(err)
+      consoleLogger.error(err)
     }
     traceAndLog(`Error attempting to get task list using 'tasklist' - returning false for isParentAlive(): ${err instanceof Error ? err.toString() : err}`)
     return false
   }
 }
 
+// Signal 0 doesn't send anything, but still throws if the process doesn't exist (ESRCH). EPERM means it exists but belongs to another user.
+function nixIsParentProcessAlive(parentId: number) {
+  try {
+    process.kill(parentId, 0)
+    return true
+  } catch (err) {
+    const code = (err as NodeJS.ErrnoException).code
+    traceAndLog(`process.kill(${parentId}, 0) threw with code ${code}`, true)
+    return code === 'EPERM'
+  }
+}
+
 function killTree(pid: number) {
+  if (!isWindows) {
+    nixKillTree(pid)
+    return
+  }
   try {
     spawnSync(`C:\\Windows\\system32\\taskkill.exe /pid ${pid} /T /F`)
     traceAndLog(`No errors running killTree`)
@@ -77,6 +96,48 @@ function killTree(pid: number) {
   }
 }
 
+// If the child was spawned in it's own process group, a negative PID kills the entire group. Otherwise fall back to finding descendants with ps.
+function nixKillTree(pid: number) {
+  try {
+    if (useProcessGroup) {
+      process.kill(-pid, 'SIGKILL')
+    } else {
+      for (const pidToKill of [pid, ...(getDescendantPids(pid) ?? [])]) {
+        process.kill(pidToKill, 'SIGKILL')
+      }
+    }
+    traceAndLog(`No errors running killTree`)
+  } catch (err) {
+    traceAndLog(`Error killing process tree with PID ${pid}: ${err instanceof Error ? err.toString() : err}`)
+  }
+}
+
+// On Windows the child receives ctrl+c directly from the console. On other platforms, signals received by this middle process are passed along to the
+// child (or to the child's process group). SIGINT is only passed along if the child has it's own process group, since otherwise it's in the terminal's
+// foreground process group and already received it. Each signal is only passed along once so that a graceful shutdown isn't escalated to a forced one
+// (for example, a second ctrl+c on "docker compose up").
+function nixForwardSignal(child: ChildProcess, signal: NodeJS.Signals) {
+  if (forwardedSignals.includes(signal) || child.pid === undefined || (signal === 'SIGINT' && !useProcessGroup)) {
+    return
+  }
+  forwardedSignals.push(signal)
+  try {
+    if (useProcessGroup) {
+      process.kill(-child.pid, signal)
+    } else {
+      child.kill(signal)
+    }
+    traceAndLog(`Passed signal ${signal} along to ChildProcess`)
+  } catch (err) {
+    traceAndLog(`Error passing signal ${signal} along to ChildProcess: ${err instanceof Error ? err.toString() : err}`)
+  }
+}
+
+// On non-windows platforms the child is given it's own process group so the whole tree can be killed at once. This is skipped when stdin is a TTY, because
+// a process outside the terminal's foreground process group is stopped if it reads from the terminal (interactive commands like "docker compose exec -it").
+const useProcessGroup = !isWindows && !process.stdin.isTTY
+const forwardedSignals: NodeJS.Signals[] = []
+
 try {
   loggingEnabled = process.argv[2] === 'true'
   traceEnabled = process.argv[3] === 'true'
@@ -88,39 +149,47 @@ try {
   const command = passthroughArgs[0]
   let deserializedArgs: string[] = []
   if (passthroughArgs.length > 1) {
-    deserializedArgs = (JSON.parse(Buffer.from(passthroughArgs[1], 'base64').toString('utf8')) as string[]).map(x => x.indexOf(' ') !== -1 && !x.startsWith('"') && !x.endsWith('"') ? `"${x}"` : x)
+    deserializedArgs = JSON.parse(Buffer.from(passthroughArgs[1], 'base64').toString('utf8')) as string[]
+  }
+  // Quoting args with spaces is only needed when the child is spawned with the cmd.exe shell
+  if (isWindows) {
+    deserializedArgs = deserializedArgs.map(x => x.indexOf(' ') !== -1 && !x.startsWith('"') && !x.endsWith('"') ? `"${x}"` : x)
   }
 
   if (loggingEnabled) {
     traceAndLog(`Logging enabled with polling rate set to: ${pollingMillis}ms`)
     traceAndLog(`Trace enabled: ${traceEnabled}`)
+    traceAndLog(`Using process group: ${useProcessGroup}`)
   }
 
   if (DEV_LOGGING) {
-    const argvString = JSON.stringify(process.argv)
-    console.log(argvString)
+    // The passed through args aren't logged since they may contain secrets, and the secrets registered in the parent process aren't available here
+    const argvString = JSON.stringify(process.argv.slice(0, 6))
+    consoleLogger.info(argvString)
     logToFile(argvString)
     traceAndLog(`process.argv[2] (logging enabled): ${process.argv[2]}`, true)
     traceAndLog(`process.argv[3]   (trace enabled): ${process.argv[3]}`, true)
     traceAndLog(`process.argv[4]  (polling millis): ${process.argv[4]}`, true)
     traceAndLog(`passed through command: ${command}`)
-    traceAndLog(`passed through deserialized args: ${deserializedArgs}`)
+    traceAndLog(`passed through deserialized args count: ${deserializedArgs.length}`)
   }
 
   const parentId = process.ppid
   if (!parentId) {
     const noParentIdMessage = `Middle process cannot continue - parent process id not found`
-    console.error(noParentIdMessage)
+    consoleLogger.error(noParentIdMessage)
     traceAndLog(noParentIdMessage)
     process.exit(1)
   }
 
-  const child = spawn(command, deserializedArgs, { stdio: 'inherit', shell: 'cmd.exe' })
+  const child = isWindows ?
+    spawn(command, deserializedArgs, { stdio: 'inherit', shell: 'cmd.exe' }) :
+    spawn(command, deserializedArgs, { stdio: 'inherit', detached: useProcessGroup })
 
   const childId = child.pid
   if (!childId) {
     const noChildIdMessage = 'spawning ChildProcess failed - no pid on returned handle'
-    console.error(noChildIdMessage)
+    consoleLogger.error(noChildIdMessage)
     traceAndLog(noChildIdMessage)
     process.exit(1)
   }
@@ -130,7 +199,7 @@ try {
       traceAndLog('Parent process is not alive. Shutting down.')
       killTree(childId)
       clearInterval(interval)
-      traceAndLog('Used taskkill and cleared interval - exiting...')
+      traceAndLog('Killed process tree and cleared interval - exiting...')
       process.exit(0)
     }
     if (DEV_LOGGING) {
@@ -138,17 +207,28 @@ try {
     }
   }, pollingMillis)
 
+  const signals: NodeJS.Signals[] = ['SIGINT', 'SIGTERM', 'SIGQUIT']
+
   child.on('exit', (code, signal) => {
     const andSignal = signal ? ` and signal ${signal}` : ''
     traceAndLog(`ChildProcess exit event emitted with code ${code}${andSignal} - exiting`)
     clearInterval(interval)
+    // Exit with the same signal so the parent process sees the same result it would have without this middle process
+    if (!isWindows && signal) {
+      signals.forEach(s => process.removeAllListeners(s))
+      process.kill(process.pid, signal)
+      return
+    }
     process.exit(code ?? 1)
   })
 
-  const signals = ['SIGINT', 'SIGTERM', 'SIGQUIT']
-
   signals.forEach((signal) => {
     process.on(signal, () => {
+      if (!isWindows) {
+        traceAndLog(`Middle process received signal ${signal} - passing it along and waiting for ChildProcess to exit`)
+        nixForwardSignal(child, signal)
+        return
+      }
       traceAndLog(`Middle process received signal ${signal} - will attempt to kill child process tree, clear interval and exit`)
       try {
         clearInterval(interval)
@@ -162,7 +242,7 @@ try {
   })
 } catch (err) {
   const msg = `Unexpected error in runWhileParentAlive: ${err instanceof Error ? err.toString() : err}`
-  console.error(msg)
+  consoleLogger.error(msg)
   logToFile(msg)
   process.exit(1)
 }
@@ -0,0 +1,49 @@
+import assert from 'node:assert'
+import { describe, it } from 'node:test'
+import { DotnetSdkUtility } from '../../../src/DotnetSdkUtility.js'
+import { DotnetVersion } from '../../../src/DotnetVersion.js'
+import { assertErrorMessageEquals } from '../../../src/testUtils.js'
+
+const listSdksOutput = [
+  '9.0.100-preview.7.24407.12 [/usr/share/dotnet/sdk]',
+  '8.0.204 [/usr/share/dotnet/sdk]',
+  '9.0.100-rc.1.24452.12 [/usr/share/dotnet/sdk]',
+  '6.0.421 [/usr/share/dotnet/sdk]',
+  '8.0.100 [/usr/share/dotnet/sdk]',
+  'not-a-version [/usr/share/dotnet/sdk]'
+]
+
+const sdkUtility = new DotnetSdkUtility({
+  whichFn: async () => ({ location: '/usr/bin/dotnet', additionalLocations: undefined, error: undefined }),
+  simpleSpawnAsyncFn: async () => ({ code: 0, stdout: listSdksOutput.join('\n'), stderr: '', stdoutLines: listSdksOutput, cwd: process.cwd() })
+})
+
+describe('DotnetVersion', () => {
+  it('parses the suffix and orders sdk prereleases before the release', () => {
+    const preview = new DotnetVersion('9.0.100-preview.7.24407.12')
+    assert.strictEqual(preview.suffix, 'preview.7.24407.12')
+    assert.strictEqual(new DotnetVersion('8.0.204').suffix, undefined)
+    assert.ok(new DotnetVersion('9.0.100-rc.1.24452.12').isMoreRecentThan(preview))
+    assert.ok(new DotnetVersion('9.0.100').compareTo('9.0.100-rc.2.24474.11') > 0)
+    assert.ok(new DotnetVersion('8.0.1000').compareTo('8.0.204') > 0)
+  })
+
+  it('throws for invalid versions', () => {
+    assert.throws(() => new DotnetVersion('8.0-'), err => assertErrorMessageEquals(err, 'Invalid dotnet version string: 8.0-'))
+  })
+})
+
+describe('DotnetSdkUtility', () => {
+  it('gets installed versions sorted from lowest to highest and skips invalid lines', async () => {
+    const versions = await sdkUtility.getInstalledSdkVersions()
+    assert.deepStrictEqual(versions.map(v => v.full), ['6.0.421', '8.0.100', '8.0.204', '9.0.100-preview.7.24407.12', '9.0.100-rc.1.24452.12'])
+  })
+
+  it('gets the latest installed version', async () => {
+    assert.strictEqual((await sdkUtility.getLatestInstalledSdkVersion())?.full, '8.0.204')
+    assert.strictEqual((await sdkUtility.getLatestInstalledSdkVersion(undefined, true))?.full, '9.0.100-rc.1.24452.12')
+    assert.strictEqual((await sdkUtility.getLatestInstalledSdkVersion(6))?.full, '6.0.421')
+    assert.strictEqual(await sdkUtility.getLatestInstalledSdkVersion(7), undefined)
+    assert.strictEqual(await sdkUtility.isSdkMajorVersionOrGreaterInstalled(9), true)
+  })
+})
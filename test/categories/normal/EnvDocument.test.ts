@@ -0,0 +1,121 @@
+import assert from 'node:assert'
+import fsp from 'node:fs/promises'
+import path from 'node:path'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { EnvDocument, defaultAddedKeysHeader } from '../../../src/EnvDocument.js'
+import { copyModifiedEnv, copyNewEnvValues, overwriteEnvFile } from '../../../src/generalUtils.js'
+import { ensureEmptyTempDir, tempDir } from '../../../src/testUtils.js'
+
+const envDocTempDir = path.join(tempDir, 'EnvDocument')
+
+const commentedEnv = `# Database
+DB_HOST=localhost # local only
+export DB_PORT = 5432
+
+# App
+APP_NAME="My App"
+MULTI='line1
+line2'
+`
+
+describe('EnvDocument', () => {
+  it('round trips contents exactly', () => {
+    const contents = commentedEnv + 'NO_TRAILING_NEWLINE=1'
+    assert.strictEqual(EnvDocument.parse(contents).toString(), contents)
+    const windowsContents = '# comment\r\nA=1\r\n\r\nB="x"\r\n'
+    assert.strictEqual(EnvDocument.parse(windowsContents).toString(), windowsContents)
+  })
+
+  it('returns keys in order and parsed or raw values', () => {
+    const doc = EnvDocument.parse(commentedEnv)
+    assert.deepStrictEqual(doc.keys(), ['DB_HOST', 'DB_PORT', 'APP_NAME', 'MULTI'])
+    assert.strictEqual(doc.get('APP_NAME'), 'My App')
+    assert.strictEqual(doc.getRawValue('APP_NAME'), '"My App"')
+    assert.strictEqual(doc.get('MULTI'), 'line1\nline2')
+    assert.strictEqual(doc.get('MISSING'), undefined)
+    assert.strictEqual(doc.has('DB_PORT'), true)
+  })
+
+  it('replaces existing values in place keeping prefixes and inline comments', () => {
+    const doc = EnvDocument.parse(commentedEnv)
+    doc.set('DB_HOST', 'db server')
+    doc.set('DB_PORT', '5433')
+    assert.strictEqual(doc.toString(), commentedEnv.replace('DB_HOST=localhost #', `DB_HOST='db server' #`).replace('DB_PORT = 5432', 'DB_PORT = 5433'))
+  })
+
+  it('updates the last occurrence of a duplicate key', () => {
+    const doc = EnvDocument.parse('A=1\nA=2\n')
+    doc.set('A', '3')
+    assert.strictEqual(doc.toString(), 'A=1\nA=3\n')
+  })
+
+  it('appends new keys once below the added keys header', () => {
+    const doc = EnvDocument.parse('A=1')
+    doc.set('B', '2')
+    doc.setRawValue('C', '"${B}"')
+    assert.strictEqual(doc.toString(), `A=1\n\n${defaultAddedKeysHeader}\nB=2\nC="\${B}"\n`)
+  })
+
+  it('reuses an existing header, windows line endings and a custom header', () => {
+    const existing = EnvDocument.parse(`A=1\n\n${defaultAddedKeysHeader}\nB=2\n`)
+    existing.set('C', '3')
+    assert.strictEqual(existing.toString(), `A=1\n\n${defaultAddedKeysHeader}\nB=2\nC=3\n`)
+
+    const windows = EnvDocument.parse('A=1\r\n\r\n', { addedKeysHeader: '# added' })
+    windows.set('B', '2')
+    assert.strictEqual(windows.toString(), 'A=1\r\n\r\n# added\r\nB=2\r\n')
+  })
+
+  it('does not add a header when the document is empty', () => {
+    const doc = EnvDocument.parse('')
+    doc.set('A', '1')
+    assert.strictEqual(doc.toString(), `${defaultAddedKeysHeader}\nA=1\n`)
+  })
+
+  it('removes entries along with their line breaks', () => {
+    const doc = EnvDocument.parse(commentedEnv)
+    doc.remove('DB_PORT')
+    doc.remove('MULTI')
+    assert.strictEqual(doc.toString(), '# Database\nDB_HOST=localhost # local only\n\n# App\nAPP_NAME="My App"\n')
+  })
+})
+
+describe('env copy functions with EnvDocument', () => {
+  const sourcePath = path.join(envDocTempDir, '.env.template')
+  const destinationPath = path.join(envDocTempDir, '.env')
+
+  beforeEach(async () => {
+    await ensureEmptyTempDir(envDocTempDir)
+  })
+
+  afterEach(async () => {
+    await ensureEmptyTempDir(envDocTempDir)
+  })
+
+  it('copyNewEnvValues keeps destination comments, ordering and values and appends missing keys', async () => {
+    await fsp.writeFile(sourcePath, 'A=template\nNEW_ONE=1\n# comment in template\nNEW_TWO=2\nZ=template\n')
+    await fsp.writeFile(destinationPath, '# mine\nZ=custom\n\n# grouped\nA=custom # note\n')
+    await copyNewEnvValues(sourcePath, destinationPath, { suppressAddKeysMessages: true })
+    assert.strictEqual(await fsp.readFile(destinationPath, 'utf-8'), `# mine\nZ=custom\n\n# grouped\nA=custom # note\n\n${defaultAddedKeysHeader}\nNEW_ONE=1\nNEW_TWO=2\n`)
+  })
+
+  it('overwriteEnvFile replaces values in place and keeps destination-only keys', async () => {
+    await fsp.writeFile(sourcePath, 'A=new\nB=added\n')
+    await fsp.writeFile(destinationPath, '# header\nEXTRA=keep\nA=old # note\n')
+    await overwriteEnvFile(sourcePath, destinationPath, { suppressAddKeysMessages: true })
+    assert.strictEqual(await fsp.readFile(destinationPath, 'utf-8'), `# header\nEXTRA=keep\nA=new # note\n\n${defaultAddedKeysHeader}\nB=added\n`)
+  })
+
+  it('copyModifiedEnv keeps the existing destination layout and removes keys that are not kept', async () => {
+    await fsp.writeFile(sourcePath, 'KEEP=fromSource\nDROP=1\n')
+    await fsp.writeFile(destinationPath, '# kept\nKEEP=old\n# dropped\nDROP=1\nMODIFY=old\n')
+    await copyModifiedEnv(sourcePath, destinationPath, ['KEEP'], { MODIFY: 'new value' })
+    assert.strictEqual(await fsp.readFile(destinationPath, 'utf-8'), `# kept\nKEEP=fromSource\n# dropped\nMODIFY='new value'\n`)
+  })
+
+  it('copyModifiedEnv starts from the source when the destination does not exist', async () => {
+    await fsp.writeFile(sourcePath, '# comment\nKEEP=1\nDROP=2\n')
+    await copyModifiedEnv(sourcePath, destinationPath, ['KEEP'], { ADDED: '3' })
+    assert.strictEqual(await fsp.readFile(destinationPath, 'utf-8'), `# comment\nKEEP=1\n\n${defaultAddedKeysHeader}\nADDED=3\n`)
+  })
+})
@@ -0,0 +1,126 @@
+import assert from 'node:assert'
+import fs from 'node:fs'
+import path from 'node:path'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { ConsoleLogger, JsonLinesFileLogger, LogEntry, Logger, LogLevel, MultiLogger } from '../../../src/Logger.js'
+import { config } from '../../../src/NodeCliUtilsConfig.js'
+import { log, logIf, trace, traceIf } from '../../../src/generalUtils.js'
+import { red } from '../../../src/colors.js'
+import { assertErrorMessageEquals, ensureEmptyTempDir, tempDir } from '../../../src/testUtils.js'
+
+const loggerTempDir = path.join(tempDir, 'logger')
+
+class RecordingLogger implements Logger {
+  entries: { level: LogLevel, data: unknown[] }[] = []
+
+  debug(...data: unknown[]) { this.entries.push({ level: 'debug', data }) }
+  info(...data: unknown[]) { this.entries.push({ level: 'info', data }) }
+  warn(...data: unknown[]) { this.entries.push({ level: 'warn', data }) }
+  error(...data: unknown[]) { this.entries.push({ level: 'error', data }) }
+}
+
+function readEntries(filePath: string): LogEntry[] {
+  return fs.readFileSync(filePath, 'utf8').split('\n').filter(line => line).map(line => JSON.parse(line))
+}
+
+describe('config.logger', () => {
+  const originalLogger = config.logger
+  const originalTraceEnabled = config.traceEnabled
+  let recordingLogger: RecordingLogger
+
+  beforeEach(() => {
+    recordingLogger = new RecordingLogger()
+    config.logger = recordingLogger
+  })
+
+  afterEach(() => {
+    config.logger = originalLogger
+    config.traceEnabled = originalTraceEnabled
+  })
+
+  it('defaults to a ConsoleLogger', () => {
+    assert.ok(originalLogger instanceof ConsoleLogger)
+  })
+
+  it('receives log and logIf at the info level', () => {
+    log('one', 2)
+    logIf(true, 'three')
+    logIf(false, 'not logged')
+    assert.deepStrictEqual(recordingLogger.entries, [
+      { level: 'info', data: ['one', 2] },
+      { level: 'info', data: ['three'] }
+    ])
+  })
+
+  it('receives trace at the debug level only when trace is enabled', () => {
+    config.traceEnabled = false
+    trace('not logged')
+    config.traceEnabled = true
+    trace('logged')
+    assert.deepStrictEqual(recordingLogger.entries, [{ level: 'debug', data: ['logged'] }])
+  })
+
+  it('receives traceIf at the debug level regardless of config.traceEnabled', () => {
+    config.traceEnabled = false
+    traceIf(true, 'logged')
+    traceIf(false, 'not logged')
+    assert.deepStrictEqual(recordingLogger.entries, [{ level: 'debug', data: ['logged'] }])
+  })
+})
+
+describe('JsonLinesFileLogger', () => {
+  beforeEach(async () => {
+    await ensureEmptyTempDir(loggerTempDir)
+  })
+
+  it('writes one json entry per line with level, timestamp and message', () => {
+    const filePath = path.join(loggerTempDir, 'log.jsonl')
+    const logger = new JsonLinesFileLogger(filePath)
+    logger.info('hello', 'world', 42)
+    logger.error('something failed')
+    const entries = readEntries(filePath)
+    assert.strictEqual(entries.length, 2)
+    assert.strictEqual(entries[0].level, 'info')
+    assert.strictEqual(entries[0].message, 'hello world 42')
+    assert.strictEqual(entries[0].prefix, undefined)
+    assert.ok(!Number.isNaN(Date.parse(entries[0].timestamp)))
+    assert.strictEqual(entries[1].level, 'error')
+    assert.strictEqual(entries[1].message, 'something failed')
+  })
+
+  it('includes the prefix and skips entries below the min level', () => {
+    const filePath = path.join(loggerTempDir, 'log.jsonl')
+    const logger = new JsonLinesFileLogger(filePath, { prefix: 'build', minLevel: 'warn' })
+    logger.debug('not logged')
+    logger.info('not logged')
+    logger.warn('logged')
+    const entries = readEntries(filePath)
+    assert.strictEqual(entries.length, 1)
+    assert.strictEqual(entries[0].prefix, 'build')
+    assert.strictEqual(entries[0].message, 'logged')
+  })
+
+  it('strips color codes and creates missing directories', () => {
+    const filePath = path.join(loggerTempDir, 'nested/dir/log.jsonl')
+    const logger = new JsonLinesFileLogger(filePath)
+    logger.error(red('Error:'), 'details')
+    assert.strictEqual(readEntries(filePath)[0].message, 'Error: details')
+  })
+
+  it('throws if filePath is empty', () => {
+    assert.throws(() => new JsonLinesFileLogger(''), err => assertErrorMessageEquals(err, 'filePath is required'))
+  })
+})
+
+describe('MultiLogger', () => {
+  it('passes entries along to every logger', () => {
+    const first = new RecordingLogger()
+    const second = new RecordingLogger()
+    const logger = new MultiLogger(first, second)
+    logger.warn('careful')
+    logger.debug('details', 1)
+    const expected = [{ level: 'warn', data: ['careful'] }, { level: 'debug', data: ['details', 1] }]
+    assert.deepStrictEqual(first.entries, expected)
+    assert.deepStrictEqual(second.entries, expected)
+  })
+})
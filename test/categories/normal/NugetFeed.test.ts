@@ -0,0 +1,85 @@
+import assert from 'node:assert'
+import fsp from 'node:fs/promises'
+import path from 'node:path'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { config } from '../../../src/NodeCliUtilsConfig.js'
+import { findNugetConfig, getNugetFeedAuthorizationHeader, readNugetConfigFeeds } from '../../../src/NugetFeed.js'
+import { redactedPlaceholder } from '../../../src/SecretRegistry.js'
+import { ensureEmptyTempDir, tempDir } from '../../../src/testUtils.js'
+
+const nugetFeedTempDir = path.join(tempDir, 'NugetFeed')
+
+const nugetConfigXml = `<?xml version="1.0" encoding="utf-8"?>
+<configuration>
+  <packageSources>
+    <add key="old" value="https://old.example.com/v3/index.json" />
+    <clear />
+    <add key="nuget.org" value="https://api.nuget.org/v3/index.json" protocolVersion="3" />
+    <add key="My Feed" value="https://pkgs.dev.azure.com/org/_packaging/feed/nuget/v3/index.json" />
+    <add key="baget" value="https://baget.example.com/v3/index.json?x=1&amp;y=2" />
+    <add key="v2" value="https://www.example.com/api/v2" />
+    <add key="local" value="./packages" />
+    <!-- <add key="commented" value="https://commented.example.com/v3/index.json" /> -->
+    <add key="disabled" value="https://disabled.example.com/v3/index.json" />
+  </packageSources>
+  <disabledPackageSources>
+    <add key="disabled" value="true" />
+  </disabledPackageSources>
+  <packageSourceCredentials>
+    <My_x0020_Feed>
+      <add key="Username" value="az" />
+      <add key="ClearTextPassword" value="%NUGET_FEED_TEST_PAT%" />
+    </My_x0020_Feed>
+    <baget>
+      <add key="Username" value="user" />
+      <add key="Password" value="encrypted" />
+    </baget>
+  </packageSourceCredentials>
+</configuration>
+`
+
+describe('readNugetConfigFeeds', () => {
+  beforeEach(async () => {
+    await ensureEmptyTempDir(nugetFeedTempDir)
+  })
+
+  afterEach(async () => {
+    await ensureEmptyTempDir(nugetFeedTempDir)
+  })
+
+  it('reads enabled V3 sources and their clear text credentials', async () => {
+    const nugetConfigPath = path.join(nugetFeedTempDir, 'nuget.config')
+    await fsp.writeFile(nugetConfigPath, nugetConfigXml)
+    assert.deepStrictEqual(readNugetConfigFeeds(nugetConfigPath), [
+      { name: 'nuget.org', url: 'https://api.nuget.org/v3/index.json' },
+      { name: 'My Feed', url: 'https://pkgs.dev.azure.com/org/_packaging/feed/nuget/v3/index.json', credentials: { username: 'az', password: '%NUGET_FEED_TEST_PAT%' } },
+      { name: 'baget', url: 'https://baget.example.com/v3/index.json?x=1&y=2' }
+    ])
+  })
+
+  it('finds the closest nuget.config in parent directories', async () => {
+    const nestedDir = path.join(nugetFeedTempDir, 'src', 'project')
+    await fsp.mkdir(nestedDir, { recursive: true })
+    await fsp.writeFile(path.join(nugetFeedTempDir, 'nuget.config'), nugetConfigXml)
+    assert.strictEqual(findNugetConfig(nestedDir), path.resolve(nugetFeedTempDir, 'nuget.config'))
+  })
+})
+
+describe('getNugetFeedAuthorizationHeader', () => {
+  afterEach(() => {
+    delete process.env.NUGET_FEED_TEST_PAT
+    config.secrets.clear()
+  })
+
+  it('expands env vars for basic auth and registers the secrets', () => {
+    process.env.NUGET_FEED_TEST_PAT = 'pat123'
+    const header = getNugetFeedAuthorizationHeader({ name: 'feed', url: 'https://example.com/v3/index.json', credentials: { username: 'az', password: '%NUGET_FEED_TEST_PAT%' } })
+    assert.strictEqual(header, `Basic ${Buffer.from('az:pat123').toString('base64')}`)
+    assert.strictEqual(config.secrets.redact('pat123'), redactedPlaceholder)
+  })
+
+  it('prefers a bearer token and returns undefined without credentials', () => {
+    assert.strictEqual(getNugetFeedAuthorizationHeader({ name: 'feed', url: 'https://example.com/v3/index.json', credentials: { token: 'abc', password: 'ignored' } }), 'Bearer abc')
+    assert.strictEqual(getNugetFeedAuthorizationHeader({ name: 'feed', url: 'https://example.com/v3/index.json' }), undefined)
+  })
+})
@@ -0,0 +1,95 @@
+import assert from 'node:assert'
+import { describe, it } from 'node:test'
+import { NugetFramework, getNearestFramework, isFrameworkCompatible } from '../../../src/NugetFramework.js'
+
+function frameworks(...names: string[]): NugetFramework[] {
+  return names.map(name => new NugetFramework(name))
+}
+
+describe('NugetFramework', () => {
+  it('parses short folder names and nuspec long names', () => {
+    const cases: [string, string, string][] = [
+      ['net8.0', '.NETCoreApp', 'net8.0'],
+      ['netcoreapp3.1', '.NETCoreApp', 'netcoreapp3.1'],
+      ['netstandard2.0', '.NETStandard', 'netstandard2.0'],
+      ['net461', '.NETFramework', 'net461'],
+      ['net48', '.NETFramework', 'net48'],
+      ['net40-client', '.NETFramework', 'net40'],
+      ['.NETCoreApp3.1', '.NETCoreApp', 'netcoreapp3.1'],
+      ['.NETStandard2.1', '.NETStandard', 'netstandard2.1'],
+      ['.NETFramework4.6.2', '.NETFramework', 'net462'],
+      ['.NETFramework,Version=v4.5', '.NETFramework', 'net45'],
+      ['', 'Any', 'any'],
+      ['portable-net45+win8', 'portable-net45+win8', 'portable-net45+win8']
+    ]
+    for (const [input, expectedIdentifier, expectedShortName] of cases) {
+      const framework = new NugetFramework(input)
+      assert.strictEqual(framework.identifier, expectedIdentifier, `identifier for ${input}`)
+      assert.strictEqual(framework.toString(), expectedShortName, `short name for ${input}`)
+    }
+  })
+
+  it('parses the platform of OS-specific frameworks without the OS version', () => {
+    const framework = new NugetFramework('net8.0-windows7.0')
+    assert.strictEqual(framework.platform, 'windows')
+    assert.strictEqual(framework.toString(), 'net8.0-windows')
+  })
+})
+
+describe('isFrameworkCompatible', () => {
+  const check = (project: string, packageFramework: string) => isFrameworkCompatible(new NugetFramework(project), new NugetFramework(packageFramework))
+
+  it('allows older or equal versions of the same framework family', () => {
+    assert.strictEqual(check('net8.0', 'net6.0'), true)
+    assert.strictEqual(check('net8.0', 'netcoreapp3.1'), true)
+    assert.strictEqual(check('net6.0', 'net8.0'), false)
+    assert.strictEqual(check('net48', 'net461'), true)
+    assert.strictEqual(check('net461', 'net472'), false)
+  })
+
+  it('maps .NET Standard versions to implementing frameworks', () => {
+    assert.strictEqual(check('net5.0', 'netstandard2.1'), true)
+    assert.strictEqual(check('netcoreapp2.1', 'netstandard2.1'), false)
+    assert.strictEqual(check('net461', 'netstandard2.0'), true)
+    assert.strictEqual(check('net46', 'netstandard2.0'), false)
+    assert.strictEqual(check('net46', 'netstandard1.3'), true)
+    assert.strictEqual(check('netstandard2.0', 'netstandard1.6'), true)
+  })
+
+  it('does not mix .NET Framework and .NET Core', () => {
+    assert.strictEqual(check('net8.0', 'net48'), false)
+    assert.strictEqual(check('net48', 'netcoreapp3.1'), false)
+  })
+
+  it('requires a matching OS for OS-specific assets', () => {
+    assert.strictEqual(check('net8.0-windows', 'net6.0-windows7.0'), true)
+    assert.strictEqual(check('net8.0-windows', 'net8.0'), true)
+    assert.strictEqual(check('net8.0', 'net8.0-windows'), false)
+    assert.strictEqual(check('net8.0-android', 'net8.0-windows'), false)
+  })
+
+  it('allows any framework assets for every project', () => {
+    assert.strictEqual(check('net48', 'any'), true)
+  })
+})
+
+describe('getNearestFramework', () => {
+  it('prefers the same framework family with the highest compatible version', () => {
+    const nearest = getNearestFramework(new NugetFramework('net7.0'), frameworks('netstandard2.0', 'net6.0', 'netcoreapp3.1', 'net8.0', 'net45'))
+    assert.strictEqual(nearest?.toString(), 'net6.0')
+  })
+
+  it('falls back to the highest compatible .NET Standard version', () => {
+    const nearest = getNearestFramework(new NugetFramework('net472'), frameworks('netstandard1.3', 'netstandard2.0', 'netstandard2.1', 'net6.0'))
+    assert.strictEqual(nearest?.toString(), 'netstandard2.0')
+  })
+
+  it('prefers matching OS-specific assets', () => {
+    const nearest = getNearestFramework(new NugetFramework('net8.0-windows'), frameworks('net8.0', 'net6.0-windows7.0'))
+    assert.strictEqual(nearest?.toString(), 'net6.0-windows')
+  })
+
+  it('returns undefined if nothing is compatible', () => {
+    assert.strictEqual(getNearestFramework(new NugetFramework('net6.0'), frameworks('net8.0', 'net48')), undefined)
+  })
+})
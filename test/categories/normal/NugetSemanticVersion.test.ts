@@ -0,0 +1,118 @@
+import assert from 'node:assert'
+import { describe, it } from 'node:test'
+import { NugetSemanticVersion, NugetVersionRange, compareNugetVersions } from '../../../src/NugetSemanticVersion.js'
+import { assertErrorMessageEquals } from '../../../src/testUtils.js'
+
+describe('NugetSemanticVersion', () => {
+  it('parses versions with up to four parts, release labels and metadata', () => {
+    const version = new NugetSemanticVersion('1.2.3.4-Preview.7+sha.abc')
+    assert.strictEqual(version.major, 1)
+    assert.strictEqual(version.minor, 2)
+    assert.strictEqual(version.patch, 3)
+    assert.strictEqual(version.revision, 4)
+    assert.deepStrictEqual(version.releaseLabels, ['Preview', '7'])
+    assert.strictEqual(version.release, 'Preview.7')
+    assert.strictEqual(version.metadata, 'sha.abc')
+    assert.strictEqual(version.isPrerelease, true)
+    assert.strictEqual(version.toString(), '1.2.3.4-Preview.7')
+  })
+
+  it('normalizes missing parts and a zero revision', () => {
+    assert.strictEqual(new NugetSemanticVersion('8').toString(), '8.0.0')
+    assert.strictEqual(new NugetSemanticVersion('1.0').toString(), '1.0.0')
+    assert.strictEqual(new NugetSemanticVersion('1.2.3.0-beta').toString(), '1.2.3-beta')
+  })
+
+  it('throws for invalid versions', () => {
+    for (const invalid of ['', ' 1.0', '1.0.0.0.0', '1.0-', '1.0-beta..1', 'v1.0', '1.*']) {
+      assert.throws(() => new NugetSemanticVersion(invalid), err => assertErrorMessageEquals(err, `Invalid nuget version string: ${invalid}`))
+    }
+  })
+})
+
+describe('compareNugetVersions', () => {
+  it('orders versions the same way NuGet does', () => {
+    const expectedOrder = [
+      '1.0.0-0',
+      '1.0.0-2',
+      '1.0.0-10',
+      '1.0.0-alpha',
+      '1.0.0-alpha.1',
+      '1.0.0-alpha.beta',
+      '1.0.0-beta',
+      '1.0.0-beta.2',
+      '1.0.0-beta.11',
+      '1.0.0-rc.1',
+      '1.0.0',
+      '1.0.0.1',
+      '1.0.1',
+      '1.10.0',
+      '2.0.0'
+    ]
+    const shuffled = [...expectedOrder].reverse()
+    assert.deepStrictEqual(shuffled.sort(compareNugetVersions), expectedOrder)
+  })
+
+  it('treats versions with different metadata, label casing or trailing zeros as equivalent', () => {
+    assert.strictEqual(compareNugetVersions('1.0.0+build.1', '1.0.0+build.2'), 0)
+    assert.strictEqual(compareNugetVersions('1.0.0-RC.1', '1.0.0-rc.1'), 0)
+    assert.strictEqual(compareNugetVersions('1.0', '1.0.0.0'), 0)
+  })
+})
+
+describe('NugetVersionRange', () => {
+  const versions = ['6.0.0', '7.0.0-rc.1', '7.0.0', '7.0.14', '7.1.0', '8.0.0-preview.1', '8.0.0-rc.2', '8.0.0', '8.0.1'].map(v => new NugetSemanticVersion(v))
+  const highest = (range: string) => new NugetVersionRange(range).getHighestSatisfyingVersion(versions)?.full
+
+  it('gets the highest version that satisfies ranges and floating versions', () => {
+    const cases: [string, string | undefined][] = [
+      ['7.0', '8.0.1'],
+      ['[7.0]', '7.0.0'],
+      ['[7.0,8.0)', '7.1.0'],
+      ['[7.0, 8.0]', '8.0.0'],
+      ['(,7.0.14]', '7.0.14'],
+      ['(,7.0.14)', '7.0.0'],
+      ['(7.1,)', '8.0.1'],
+      ['7.*', '7.1.0'],
+      ['7.0.*', '7.0.14'],
+      ['*', '8.0.1'],
+      ['[7.*, 8.0)', '7.1.0'],
+      ['8.0.0-*', '8.0.0'],
+      ['8.0.0-rc.*', '8.0.0'],
+      ['[8.0.0-preview.1, 8.0.0)', '8.0.0-rc.2'],
+      ['9.*', undefined],
+      ['(8.0.1,)', undefined]
+    ]
+    for (const [range, expected] of cases) {
+      assert.strictEqual(highest(range), expected, `highest version for ${range}`)
+    }
+  })
+
+  it('only matches prerelease versions if the range allows them', () => {
+    assert.strictEqual(new NugetVersionRange('[7.0,8.0]').satisfies('8.0.0-rc.2'), false)
+    assert.strictEqual(new NugetVersionRange('7.*').satisfies('7.1.0-beta'), false)
+    assert.strictEqual(new NugetVersionRange('7.*-*').satisfies('7.0.0-beta'), true)
+    assert.strictEqual(new NugetVersionRange('*-*').satisfies('9.0.0-preview.7'), true)
+    assert.strictEqual(new NugetVersionRange('8.0.0-rc.*').satisfies('8.0.0-rc.2'), true)
+    assert.strictEqual(new NugetVersionRange('8.0.0-rc.*').satisfies('8.0.0-preview.1'), false)
+    assert.strictEqual(new NugetVersionRange('8.0.0-*').satisfies('8.0.1-rc.1'), false)
+  })
+
+  it('throws for invalid ranges', () => {
+    const cases: [string, string][] = [
+      ['', 'Invalid nuget version range: '],
+      ['[1.0', 'Invalid nuget version range: [1.0'],
+      ['(1.0)', 'Invalid nuget version range (exact versions must use the format [1.0]): (1.0)'],
+      ['[,]', 'Invalid nuget version range (at least one bound is required): [,]'],
+      ['[2.0,1.0]', 'Invalid nuget version range (the range does not include any versions): [2.0,1.0]'],
+      ['[1.0,1.0)', 'Invalid nuget version range (the range does not include any versions): [1.0,1.0)'],
+      ['[1.0,abc]', 'Invalid nuget version range (invalid version "abc"): [1.0,abc]'],
+      ['7.*-beta', 'Invalid nuget version range (a floating prerelease must end with *): 7.*-beta'],
+      ['7.*-beta*', 'Invalid nuget version range (floating version numbers can only be combined with -*): 7.*-beta*'],
+      ['7.*.1', 'Invalid nuget version range: 7.*.1']
+    ]
+    for (const [range, expectedMessage] of cases) {
+      assert.throws(() => new NugetVersionRange(range), err => assertErrorMessageEquals(err, expectedMessage))
+    }
+  })
+})
@@ -1,16 +1,19 @@
 import assert from 'node:assert'
 import fsp from 'node:fs/promises'
+import http from 'node:http'
+import { AddressInfo } from 'node:net'
 import path from 'node:path'
-import { describe, it, test } from 'node:test'
-import { INugetAccessor, NugetUtility } from '../../../src/NugetUtility.js'
+import { after, before, beforeEach, describe, it, test } from 'node:test'
+import { CachingNugetAccessor, INugetAccessor, NugetAccessor, NugetUtility } from '../../../src/NugetUtility.js'
 import { TargetFrameworkMoniker } from '../../../src/dotnetUtils.js'
 import { StringKeyedDictionary } from '../../../src/generalUtils.js'
-import { assertErrorMessageEquals, fixturesDir } from '../../../src/testUtils.js'
+import { assertErrorMessageEquals, assertErrorMessageStartsWith, ensureEmptyTempDir, fixturesDir, tempDir } from '../../../src/testUtils.js'
 
 interface PackageInfo {
   packageName: string
   mockNugetAllVersionsJson: string
-  mockLandingHtmlPages: string[] // Be sure this is sorted in descending order so mock NugetAccessor is simulated accurately
+  mockCatalogEntries: StringKeyedDictionary // Keyed by package version
+  mockNuspecs: StringKeyedDictionary // Keyed by package version
   expectedVersionsMap: StringKeyedDictionary
 }
 
@@ -52,18 +55,27 @@ async function getPackageInfos(): Promise<PackageInfo[]> {
 async function getPackageInfo(packageName: string, majorVersions: string[], expectedVersionsMap: StringKeyedDictionary): Promise<PackageInfo> {
   const packageInfo: PackageInfo = {
     packageName: packageName,
-    mockLandingHtmlPages: [],
     mockNugetAllVersionsJson: await getFixtureContent(packageName, 'versions.json'),
+    mockCatalogEntries: {},
+    mockNuspecs: {},
     expectedVersionsMap: expectedVersionsMap
   }
 
   for (const v of majorVersions) {
-    packageInfo.mockLandingHtmlPages.push(await getFixtureContent(packageName, `landing_${v}.html`))
+    packageInfo.mockCatalogEntries[v] = await getFixtureContent(packageName, `catalog_${v}.json`)
+    packageInfo.mockNuspecs[v] = await getFixtureContent(packageName, `nuspec_${v}.nuspec`)
   }
 
   return packageInfo
 }
 
+function getMockValue(mockValues: StringKeyedDictionary, packageVersion: string): string {
+  if (mockValues[packageVersion] === undefined) {
+    throw new Error(`No mock setup for package version ${packageVersion}`)
+  }
+  return mockValues[packageVersion]
+}
+
 async function getFixtureContent(packageName: string, filename: string) {
   return await fsp.readFile(path.join(fixturesDir, `nugetUtility/${packageName}/${filename}`), 'utf-8')
 }
@@ -79,20 +91,13 @@ describe('getLatestNugetPackageVersion', async () => {
       const nugetAccessor = new MockNugetAccessor()
       t.mock.method(nugetAccessor, 'getAllVersionsJson', async () => packageInfo.mockNugetAllVersionsJson)
 
+      t.mock.method(nugetAccessor, 'getCatalogEntryJson', async (_: string, packageVersion: string) => getMockValue(packageInfo.mockCatalogEntries, packageVersion))
+      t.mock.method(nugetAccessor, 'getNuspec', async (_: string, packageVersion: string) => getMockValue(packageInfo.mockNuspecs, packageVersion))
+
       // Sub-tests for each of the pairs in expectedVersionsMap
       for (const dotnetVersion of Object.keys(packageInfo.expectedVersionsMap)) {
         const expectedVersion = packageInfo.expectedVersionsMap[dotnetVersion]
         await it(`returns version ${expectedVersion} for dotnet version ${dotnetVersion}`, async () => {
-          // Note that the landing html mock is setup here instead of outside this loop because there isn't currently a way to reset
-          // just the call count without also resetting all the implementations.
-          const mockGetLandingHtml = t.mock.method(nugetAccessor, 'getPackageLandingPageHtml')
-          for (let i = 0; i < packageInfo.mockLandingHtmlPages.length; i++) {
-            mockGetLandingHtml.mock.mockImplementationOnce(async () => packageInfo.mockLandingHtmlPages[i], i)
-          }
-          mockGetLandingHtml.mock.mockImplementationOnce(
-            () => { throw new Error(`mockGetLandingHtml should not receive a call past call number ${packageInfo.mockLandingHtmlPages.length - 1}`) },
-            packageInfo.mockLandingHtmlPages.length
-          )
           const nugetUtil = new NugetUtility({ nugetAccessor: nugetAccessor })
 
           const actualVersion = await nugetUtil.getLatestNugetPackageVersion(packageInfo.packageName, dotnetVersion as TargetFrameworkMoniker)
@@ -104,6 +109,122 @@ describe('getLatestNugetPackageVersion', async () => {
   }
 })
 
+describe('getPackageFrameworks', () => {
+  it('combines asset folder frameworks from the catalog entry with nuspec dependency groups', async t => {
+    const nugetAccessor = new MockNugetAccessor()
+    t.mock.method(nugetAccessor, 'getCatalogEntryJson', async () => JSON.stringify({
+      packageEntries: [
+        { fullName: 'lib/netstandard2.0/Some.Package.dll' },
+        { fullName: 'lib/net6.0/Some.Package.dll' },
+        { fullName: 'tools/install.ps1' },
+        { fullName: 'content/readme.txt' },
+        { fullName: 'README.md' }
+      ]
+    }))
+    t.mock.method(nugetAccessor, 'getNuspec', async () => '<package><metadata><dependencies><group targetFramework="net6.0" /><group targetFramework=".NETFramework4.6.2"><dependency id="A" version="1.0.0" /></group></dependencies></metadata></package>')
+    const frameworks = await new NugetUtility({ nugetAccessor }).getPackageFrameworks('Some.Package', '1.0.0')
+    assert.deepStrictEqual(frameworks.map(f => f.toString()), ['netstandard2.0', 'net6.0', 'net462'])
+  })
+
+  it('treats files directly in the lib folder and groups without a target framework as any framework', () => {
+    assert.deepStrictEqual(NugetUtility.getFrameworksFromCatalogEntryJson('{"packageEntries":[{"fullName":"lib/Some.Package.dll"}]}').map(f => f.isAny), [true])
+    assert.deepStrictEqual(NugetUtility.getFrameworksFromNuspec('<dependencies><group><dependency id="A" version="1.0.0" /></group></dependencies>').map(f => f.isAny), [true])
+  })
+
+  it('throws for an invalid catalog entry', () => {
+    assert.throws(() => NugetUtility.getFrameworksFromCatalogEntryJson('<html>'), err => assertErrorMessageEquals(err, 'Could not parse Nuget catalog entry - invalid JSON string: <html>'))
+  })
+})
+
+describe('getHighestNugetPackageVersion', () => {
+  const versionsJson = JSON.stringify({ versions: ['7.0.0', '7.0.14', '8.0.0-rc.2', '8.0.0', '8.0.1', '9.0.0-preview.1'] })
+  const nuspecForVersion = (packageVersion: string) => `<package><metadata><dependencies><group targetFramework="${packageVersion.startsWith('8') ? 'net8.0' : 'net6.0'}" /></dependencies></metadata></package>`
+
+  it('returns the highest version that satisfies the range', async t => {
+    const nugetAccessor = new MockNugetAccessor()
+    t.mock.method(nugetAccessor, 'getAllVersionsJson', async () => versionsJson)
+    const nugetUtility = new NugetUtility({ nugetAccessor })
+    assert.strictEqual(await nugetUtility.getHighestNugetPackageVersion('Some.Package', '[7.0,8.0)'), '7.0.14')
+    assert.strictEqual(await nugetUtility.getHighestNugetPackageVersion('Some.Package', '8.*'), '8.0.1')
+    assert.strictEqual(await nugetUtility.getHighestNugetPackageVersion('Some.Package', '*-*'), '9.0.0-preview.1')
+    assert.strictEqual(await nugetUtility.getHighestNugetPackageVersion('Some.Package', '10.*'), null)
+  })
+
+  it('skips versions that are not compatible with the target framework', async t => {
+    const nugetAccessor = new MockNugetAccessor()
+    t.mock.method(nugetAccessor, 'getAllVersionsJson', async () => versionsJson)
+    t.mock.method(nugetAccessor, 'getCatalogEntryJson', async () => '{}')
+    const getNuspecMock = t.mock.method(nugetAccessor, 'getNuspec', async (_: string, packageVersion: string) => nuspecForVersion(packageVersion))
+    const nugetUtility = new NugetUtility({ nugetAccessor })
+    assert.strictEqual(await nugetUtility.getHighestNugetPackageVersion('Some.Package', '[7.0,9.0)', 'net6.0'), '7.0.14')
+    assert.deepStrictEqual(getNuspecMock.mock.calls.map(call => call.arguments[1]), ['8.0.1', '8.0.0', '7.0.14'])
+  })
+
+  it('throws for an invalid range', async () => {
+    const nugetUtility = new NugetUtility({ nugetAccessor: new MockNugetAccessor() })
+    await assert.rejects(nugetUtility.getHighestNugetPackageVersion('Some.Package', '[8.0'), err => assertErrorMessageEquals(err, 'Invalid nuget version range: [8.0'))
+  })
+})
+
+describe('updatePackagesToLatestCompatible', () => {
+  const projectTempDir = path.join(tempDir, 'updatePackagesToLatestCompatible')
+  const projectPath = path.join(projectTempDir, 'Api', 'Api.csproj')
+  const propsPath = path.join(projectTempDir, 'Directory.Packages.props')
+  const versionsJsonByPackage: StringKeyedDictionary = {
+    'microsoft.entityframeworkcore.design': JSON.stringify({ versions: ['7.0.13', '7.0.14', '8.0.0'] }),
+    'dapper': JSON.stringify({ versions: ['2.1.0', '2.1.28'] })
+  }
+
+  beforeEach(async () => {
+    await ensureEmptyTempDir(projectTempDir)
+    await fsp.mkdir(path.dirname(projectPath), { recursive: true })
+    await fsp.writeFile(projectPath, `<Project Sdk="Microsoft.NET.Sdk">
+  <PropertyGroup>
+    <TargetFramework>net6.0</TargetFramework>
+  </PropertyGroup>
+  <ItemGroup>
+    <PackageReference Include="Microsoft.EntityFrameworkCore.Design" Version="8.0.0" />
+    <PackageReference Include="Dapper" />
+    <PackageReference Include="Serilog" Version="[3.0,4.0)" />
+  </ItemGroup>
+</Project>
+`)
+    await fsp.writeFile(propsPath, '<Project>\n  <ItemGroup>\n    <PackageVersion Include="Dapper" Version="2.1.0" />\n  </ItemGroup>\n</Project>\n')
+  })
+
+  it('updates versions in the project and Directory.Packages.props files using the compatibility list', async t => {
+    const nugetAccessor = new MockNugetAccessor()
+    t.mock.method(nugetAccessor, 'getAllVersionsJson', async (packageName: string) => getMockValue(versionsJsonByPackage, packageName.toLowerCase()))
+    t.mock.method(nugetAccessor, 'getCatalogEntryJson', async () => '{}')
+    t.mock.method(nugetAccessor, 'getNuspec', async (_: string, packageVersion: string) =>
+      `<package><metadata><dependencies><group targetFramework="${packageVersion.startsWith('8') ? 'net8.0' : 'net6.0'}" /></dependencies></metadata></package>`
+    )
+
+    const updates = await new NugetUtility({ nugetAccessor }).updatePackagesToLatestCompatible(projectPath)
+
+    assert.deepStrictEqual(updates, [
+      { packageName: 'Microsoft.EntityFrameworkCore.Design', fromVersion: '8.0.0', toVersion: '7.0.14', filePath: projectPath },
+      { packageName: 'Dapper', fromVersion: '2.1.0', toVersion: '2.1.28', filePath: path.resolve(propsPath) }
+    ])
+    const projectXml = await fsp.readFile(projectPath, 'utf-8')
+    assert.ok(projectXml.includes('<PackageReference Include="Microsoft.EntityFrameworkCore.Design" Version="7.0.14" />'))
+    assert.ok(projectXml.includes('<PackageReference Include="Dapper" />'))
+    assert.ok(projectXml.includes('<PackageReference Include="Serilog" Version="[3.0,4.0)" />'))
+    assert.ok((await fsp.readFile(propsPath, 'utf-8')).includes('<PackageVersion Include="Dapper" Version="2.1.28" />'))
+  })
+
+  it('only updates the packages in the packageNames option', async t => {
+    const nugetAccessor = new MockNugetAccessor()
+    t.mock.method(nugetAccessor, 'getAllVersionsJson', async (packageName: string) => getMockValue(versionsJsonByPackage, packageName.toLowerCase()))
+    t.mock.method(nugetAccessor, 'getCatalogEntryJson', async () => '{}')
+    t.mock.method(nugetAccessor, 'getNuspec', async () => '<package />')
+
+    const updates = await new NugetUtility({ nugetAccessor }).updatePackagesToLatestCompatible(projectPath, { packageNames: ['dapper'] })
+
+    assert.deepStrictEqual(updates.map(u => u.packageName), ['Dapper'])
+  })
+})
+
 describe('getLatestMajorNugetPackageVersion', () => {
   it(`returns the major version from the hard-coded list for ${efPackageName} and framework version 'net6.0'`, async () => {
     const result = await new NugetUtility({ nugetAccessor: new MockNugetAccessor() }).getLatestMajorNugetPackageVersion(efPackageName, 'net6.0')
@@ -118,6 +239,157 @@ describe('getLatestMajorNugetPackageVersion', () => {
   })
 })
 
+describe('NugetAccessor with configured feeds', () => {
+  let server: http.Server
+  let baseUrl: string
+  const requests: { url: string, authorization?: string }[] = []
+
+  before(async () => {
+    server = http.createServer((req, res) => {
+      requests.push({ url: req.url!, authorization: req.headers.authorization })
+      const routes: StringKeyedDictionary = {
+        '/empty/v3/index.json': JSON.stringify({ version: '3.0.0', resources: [{ '@id': `${baseUrl}/empty/flat`, '@type': 'PackageBaseAddress/3.0.0' }] }),
+        '/private/v3/index.json': JSON.stringify({
+          version: '3.0.0',
+          resources: [
+            { '@id': `${baseUrl}/private/flat/`, '@type': 'PackageBaseAddress/3.0.0' },
+            { '@id': `${baseUrl}/private/registration/`, '@type': ['RegistrationsBaseUrl/3.6.0', 'RegistrationsBaseUrl/Versioned'] }
+          ]
+        }),
+        '/private/flat/some.tool/index.json': JSON.stringify({ versions: ['1.0.0', '2.0.0'] }),
+        '/private/flat/some.tool/2.0.0/some.tool.nuspec': '<package><metadata><dependencies><group targetFramework="net8.0" /></dependencies></metadata></package>',
+        '/private/registration/some.tool/2.0.0.json': JSON.stringify({ catalogEntry: { packageEntries: [{ fullName: 'tools/net8.0/any/some.tool.dll' }] } })
+      }
+      const body = routes[req.url!]
+      res.writeHead(body === undefined ? 404 : 200, { 'Content-Type': 'application/json' })
+      res.end(body ?? 'not found')
+    })
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  })
+
+  after(async () => {
+    await new Promise(resolve => server.close(resolve))
+  })
+
+  it('resolves service indexes, uses the first feed with the package and sends credentials', async () => {
+    const nugetAccessor = new NugetAccessor({
+      feeds: [
+        { name: 'empty', url: `${baseUrl}/empty/v3/index.json` },
+        { name: 'private', url: `${baseUrl}/private/v3/index.json`, credentials: { token: 'abc' } }
+      ]
+    })
+    const nugetUtility = new NugetUtility({ nugetAccessor })
+    assert.strictEqual(await nugetUtility.getLatestNugetPackageVersion('Some.Tool', 'net8.0'), '2.0.0')
+    assert.deepStrictEqual(requests.map(r => r.url), [
+      '/empty/v3/index.json',
+      '/empty/flat/some.tool/index.json',
+      '/private/v3/index.json',
+      '/private/flat/some.tool/index.json',
+      '/private/registration/some.tool/2.0.0.json',
+      '/private/flat/some.tool/2.0.0/some.tool.nuspec'
+    ])
+    assert.ok(requests.filter(r => r.url.startsWith('/private')).every(r => r.authorization === 'Bearer abc'))
+    assert.ok(requests.filter(r => r.url.startsWith('/empty')).every(r => r.authorization === undefined))
+  })
+
+  it('throws if no feed has the package', async () => {
+    const nugetAccessor = new NugetAccessor({ feeds: [{ name: 'empty', url: `${baseUrl}/empty/v3/index.json` }] })
+    await assert.rejects(nugetAccessor.getAllVersionsJson('Missing.Package'), err => assertErrorMessageEquals(err, 'Package Missing.Package was not found in any of the configured feeds: empty'))
+  })
+})
+
+describe('CachingNugetAccessor', () => {
+  let server: http.Server
+  let baseUrl: string
+  let serverFailing = false
+  const requests: { url: string, ifNoneMatch?: string }[] = []
+  const cacheDir = path.join(tempDir, 'nuget-cache')
+
+  before(async () => {
+    server = http.createServer((req, res) => {
+      requests.push({ url: req.url!, ifNoneMatch: req.headers['if-none-match'] })
+      const routes: StringKeyedDictionary = {
+        '/v3/index.json': JSON.stringify({ version: '3.0.0', resources: [{ '@id': `${baseUrl}/flat/`, '@type': 'PackageBaseAddress/3.0.0' }] }),
+        '/flat/some.tool/index.json': JSON.stringify({ versions: ['1.0.0', '2.0.0'] }),
+        '/flat/some.tool/2.0.0/some.tool.nuspec': '<package><metadata><dependencies><group targetFramework="net8.0" /></dependencies></metadata></package>'
+      }
+      const body = routes[req.url!]
+      const etag = `"${req.url!.length}"`
+      if (serverFailing) {
+        res.writeHead(500)
+        res.end()
+      } else if (body === undefined) {
+        res.writeHead(404)
+        res.end('not found')
+      } else if (req.headers['if-none-match'] === etag) {
+        res.writeHead(304, { ETag: etag })
+        res.end()
+      } else {
+        res.writeHead(200, { 'Content-Type': 'application/json', ETag: etag })
+        res.end(body)
+      }
+    })
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  })
+
+  beforeEach(async () => {
+    await ensureEmptyTempDir(cacheDir)
+    requests.length = 0
+    serverFailing = false
+  })
+
+  after(async () => {
+    await new Promise(resolve => server.close(resolve))
+  })
+
+  const getLatestVersion = (options?: Partial<{ ttlMillis: number, offline: boolean }>) => {
+    const nugetAccessor = new CachingNugetAccessor({ ...options, cacheDir, feeds: [{ name: 'local', url: `${baseUrl}/v3/index.json` }] })
+    return new NugetUtility({ nugetAccessor }).getLatestNugetPackageVersion('Some.Tool', 'net8.0')
+  }
+
+  it('uses cached responses without making requests', async () => {
+    assert.strictEqual(await getLatestVersion(), '2.0.0')
+    assert.strictEqual(requests.length, 3)
+    requests.length = 0
+
+    assert.strictEqual(await getLatestVersion(), '2.0.0')
+    assert.deepStrictEqual(requests, [])
+  })
+
+  it('revalidates expired responses using the etag', async () => {
+    await getLatestVersion({ ttlMillis: 0 })
+    requests.length = 0
+
+    assert.strictEqual(await getLatestVersion({ ttlMillis: 0 }), '2.0.0')
+    assert.deepStrictEqual(requests.map(r => r.url), ['/v3/index.json', '/flat/some.tool/index.json'])
+    assert.ok(requests.every(r => r.ifNoneMatch !== undefined))
+  })
+
+  it('uses expired responses if the feed fails', async () => {
+    await getLatestVersion({ ttlMillis: 0 })
+    serverFailing = true
+    requests.length = 0
+
+    assert.strictEqual(await getLatestVersion({ ttlMillis: 0 }), '2.0.0')
+    assert.strictEqual(requests.length, 2)
+  })
+
+  it('uses expired responses without making requests in offline mode', async () => {
+    await getLatestVersion({ ttlMillis: 0 })
+    requests.length = 0
+
+    assert.strictEqual(await getLatestVersion({ ttlMillis: 0, offline: true }), '2.0.0')
+    assert.deepStrictEqual(requests, [])
+  })
+
+  it('throws in offline mode if a response is not cached', async () => {
+    await assert.rejects(getLatestVersion({ offline: true }), err => assertErrorMessageStartsWith(err, 'Error accessing the service index for feed local'))
+    assert.deepStrictEqual(requests, [])
+  })
+})
+
 const mockError = `The mock was not setup correctly if you're seeing this (or it should not have been called)`
 
 // I'm using a separate implementation instead of just mocking the real NugetAccessor because the NodeJS test runner
@@ -130,7 +402,7 @@ class MockNugetAccessor implements INugetAccessor {
     throw new Error(mockError)
   }
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  async getPackageLandingPageHtml(packageName: string, frameworkVersion: string): Promise<string> {
+  async getCatalogEntryJson(packageName: string, packageVersion: string): Promise<string> {
     throw new Error(mockError)
   }
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
@@ -0,0 +1,104 @@
+import assert from 'node:assert'
+import fsp from 'node:fs/promises'
+import path from 'node:path'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { Logger } from '../../../src/Logger.js'
+import { config } from '../../../src/NodeCliUtilsConfig.js'
+import { SecretRegistry, redactedPlaceholder } from '../../../src/SecretRegistry.js'
+import { addSecretsFromEnvFile } from '../../../src/envParser.js'
+import { SimpleSpawnError, SpawnError, log, logError, simpleSpawnAsync, spawnAsync, trace } from '../../../src/generalUtils.js'
+import { ensureEmptyTempDir, tempDir } from '../../../src/testUtils.js'
+
+const secretsTempDir = path.join(tempDir, 'SecretRegistry')
+
+describe('SecretRegistry', () => {
+  it('redacts registered values and ignores empty values', () => {
+    const registry = new SecretRegistry()
+    registry.addSecret('hunter2', '', '  ')
+    assert.strictEqual(registry.size, 1)
+    assert.strictEqual(registry.redact('password is hunter2, again hunter2'), `password is ${redactedPlaceholder}, again ${redactedPlaceholder}`)
+  })
+
+  it('redacts longer secrets first', () => {
+    const registry = new SecretRegistry()
+    registry.addSecret('abc', 'abcdef')
+    assert.strictEqual(registry.redact('x abcdef y abc'), `x ${redactedPlaceholder} y ${redactedPlaceholder}`)
+  })
+
+  it('adds secrets from env keys that match the default patterns', () => {
+    const registry = new SecretRegistry()
+    const env = { DB_PASSWORD: 'p1', GITHUB_TOKEN: 't1', CLIENT_SECRET: 's1', STRIPE_API_KEY: 'k1', DB_HOST: 'localhost', TOKENIZER_MODE: 'fast' }
+    const matchedKeys = registry.addSecretsFromEnv(env)
+    assert.deepStrictEqual(matchedKeys, ['DB_PASSWORD', 'GITHUB_TOKEN', 'CLIENT_SECRET', 'STRIPE_API_KEY'])
+    assert.strictEqual(registry.redact('localhost fast p1'), `localhost fast ${redactedPlaceholder}`)
+  })
+
+  it('adds secrets from a .env file with custom patterns', async () => {
+    await ensureEmptyTempDir(secretsTempDir)
+    const envPath = path.join(secretsTempDir, '.env')
+    await fsp.writeFile(envPath, 'DB_PASSWORD=notMatched\nCONNECTION_STRING="Server=db;Password=abc123"\n')
+    const registry = new SecretRegistry()
+    assert.deepStrictEqual(addSecretsFromEnvFile(envPath, [/^CONNECTION_STRING$/], registry), ['CONNECTION_STRING'])
+    assert.strictEqual(registry.redact('notMatched Server=db;Password=abc123'), `notMatched ${redactedPlaceholder}`)
+    await ensureEmptyTempDir(secretsTempDir)
+  })
+
+  it('redacts formatted objects and errors only when they contain a secret', () => {
+    const registry = new SecretRegistry()
+    registry.addSecret('s3cret')
+    const clean = { user: 'admin' }
+    const [redactedString, cleanObject, redactedObject, num] = registry.redactLogData(['s3cret', clean, { password: 's3cret' }, 1])
+    assert.strictEqual(redactedString, redactedPlaceholder)
+    assert.strictEqual(cleanObject, clean)
+    assert.strictEqual(redactedObject, `{ password: '${redactedPlaceholder}' }`)
+    assert.strictEqual(num, 1)
+    assert.ok(!String(registry.redactLogData([new Error('bad s3cret')])[0]).includes('s3cret'))
+  })
+})
+
+describe('config.secrets', () => {
+  const originalLogger = config.logger
+  const originalTraceEnabled = config.traceEnabled
+  let loggedMessages: unknown[][] = []
+
+  beforeEach(() => {
+    loggedMessages = []
+    const record = (...data: unknown[]) => { loggedMessages.push(data) }
+    const recordingLogger: Logger = { debug: record, info: record, warn: record, error: record }
+    config.logger = recordingLogger
+    config.secrets.addSecret('topSecretValue')
+  })
+
+  afterEach(() => {
+    config.logger = originalLogger
+    config.traceEnabled = originalTraceEnabled
+    config.secrets.clear()
+  })
+
+  it('is used by log, trace and logError', () => {
+    config.traceEnabled = true
+    log('log topSecretValue')
+    trace('trace', 'topSecretValue')
+    logError(new Error('error topSecretValue'))
+    assert.deepStrictEqual(loggedMessages.slice(0, 2), [[`log ${redactedPlaceholder}`], ['trace', redactedPlaceholder]])
+    assert.ok(!String(loggedMessages[2][0]).includes('topSecretValue'))
+  })
+
+  it('is used for spawn traces and SpawnError messages', async () => {
+    config.traceEnabled = true
+    await assert.rejects(spawnAsync('node', ['-e', 'process.exit(1)', 'topSecretValue'], { throwOnNonZero: true, stdio: 'pipe' }))
+    assert.ok(loggedMessages.length > 0)
+    assert.ok(loggedMessages.every(data => !data.some(item => String(item).includes('topSecretValue'))))
+    assert.strictEqual(new SpawnError('failed with topSecretValue', { code: 1, stdout: '', stderr: '' }).message, `failed with ${redactedPlaceholder}`)
+  })
+
+  it('is used for the output in SpawnError and SimpleSpawnError results', async () => {
+    const spawnError = new SpawnError('failed', { code: 1, stdout: 'out topSecretValue', stderr: 'err topSecretValue' })
+    assert.strictEqual(spawnError.result.stdout, `out ${redactedPlaceholder}`)
+    assert.strictEqual(spawnError.result.stderr, `err ${redactedPlaceholder}`)
+    await assert.rejects(
+      simpleSpawnAsync('node', ['-e', 'console.log("topSecretValue"); process.exit(1)']),
+      err => err instanceof SimpleSpawnError && err.result.stdout.trim() === redactedPlaceholder && err.result.stdoutLines[0] === redactedPlaceholder
+    )
+  })
+})
@@ -0,0 +1,413 @@
+import assert from 'node:assert'
+import fs from 'node:fs'
+import fsp from 'node:fs/promises'
+import net from 'node:net'
+import path from 'node:path'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { config } from '../../../src/NodeCliUtilsConfig.js'
+import { createTarball } from '../../../src/TarballUtility.js'
+import { DockerBuildError, DockerComposeConfig, DockerComposeService, cleanupDockerProject, dockerBuild, dockerComposeExec, getDockerComposeServiceHealthProblem, getDockerVolumeBackupArgs, getDockerVolumeRestoreArgs, parseDockerComposeLogLine, parseDockerComposePsJson, parseDockerInspectJson, parseDockerSystemDfJson, requireVolumeNotMountedByRunningContainers, restoreDockerVolume, spawnDockerCompose, waitForDockerComposeServicesHealthy } from '../../../src/dockerUtils.js'
+import { spawnAsync, toWslPath } from '../../../src/generalUtils.js'
+import { assertErrorMessageEquals, assertErrorMessageStartsWith, ensureEmptyTempDir, fixturesDir, tempDir } from '../../../src/testUtils.js'
+
+const dockerTempDir = path.join(tempDir, 'dockerUtils')
+
+const psEntry = {
+  ID: 'abc123',
+  Name: 'myproject-db-1',
+  Image: 'postgres:16',
+  Project: 'myproject',
+  Service: 'db',
+  State: 'running',
+  Health: 'healthy',
+  ExitCode: 0,
+  Publishers: [
+    { URL: '0.0.0.0', TargetPort: 5432, PublishedPort: 5433, Protocol: 'tcp' },
+    { URL: '', TargetPort: 8080, PublishedPort: 0, Protocol: 'tcp' }
+  ]
+}
+
+const expectedService = {
+  containerId: 'abc123',
+  containerName: 'myproject-db-1',
+  image: 'postgres:16',
+  project: 'myproject',
+  service: 'db',
+  state: 'running',
+  health: 'healthy',
+  exitCode: 0,
+  publishedPorts: [{ hostIp: '0.0.0.0', hostPort: 5433, containerPort: 5432, protocol: 'tcp' }]
+}
+
+describe('parseDockerComposePsJson', () => {
+  it('parses one object per line output', () => {
+    const exited = { ...psEntry, Name: 'myproject-migrate-1', Service: 'migrate', State: 'exited', Health: '', ExitCode: 1, Publishers: null }
+    const services = parseDockerComposePsJson(`${JSON.stringify(psEntry)}\n${JSON.stringify(exited)}\n`)
+    assert.deepStrictEqual(services, [
+      expectedService,
+      { ...expectedService, containerName: 'myproject-migrate-1', service: 'migrate', state: 'exited', health: undefined, exitCode: 1, publishedPorts: [] }
+    ])
+  })
+
+  it('parses json array output and empty output', () => {
+    assert.deepStrictEqual(parseDockerComposePsJson(JSON.stringify([psEntry])), [expectedService])
+    assert.deepStrictEqual(parseDockerComposePsJson(''), [])
+  })
+})
+
+describe('parseDockerInspectJson', () => {
+  it('parses state, ports, mounts, labels and networks', () => {
+    const inspectEntry = {
+      Id: 'abc123',
+      Name: '/myproject-db-1',
+      Image: 'sha256:123',
+      Config: { Image: 'postgres:16', Labels: { 'com.docker.compose.project': 'myproject' } },
+      State: { Status: 'running', Running: true, ExitCode: 0, StartedAt: '2024-01-01T00:00:00Z', FinishedAt: '0001-01-01T00:00:00Z', Health: { Status: 'starting' } },
+      Mounts: [
+        { Type: 'volume', Name: 'myproject_db_data', Source: '/var/lib/docker/volumes/myproject_db_data/_data', Destination: '/var/lib/postgresql/data', RW: true },
+        { Type: 'bind', Source: '/home/me/init', Destination: '/docker-entrypoint-initdb.d', RW: false }
+      ],
+      NetworkSettings: { Ports: { '5432/tcp': [{ HostIp: '0.0.0.0', HostPort: '5433' }], '9000/udp': null }, Networks: { myproject_default: {} } }
+    }
+    assert.deepStrictEqual(parseDockerInspectJson(JSON.stringify([inspectEntry])), [{
+      id: 'abc123',
+      name: 'myproject-db-1',
+      image: 'postgres:16',
+      status: { state: 'running', running: true, health: 'starting', exitCode: 0, startedAt: '2024-01-01T00:00:00Z', finishedAt: '0001-01-01T00:00:00Z' },
+      publishedPorts: [{ hostIp: '0.0.0.0', hostPort: 5433, containerPort: 5432, protocol: 'tcp' }],
+      mounts: [
+        { type: 'volume', name: 'myproject_db_data', source: '/var/lib/docker/volumes/myproject_db_data/_data', destination: '/var/lib/postgresql/data', readOnly: false },
+        { type: 'bind', name: undefined, source: '/home/me/init', destination: '/docker-entrypoint-initdb.d', readOnly: true }
+      ],
+      labels: { 'com.docker.compose.project': 'myproject' },
+      networks: ['myproject_default']
+    }])
+  })
+})
+
+const composeConfigJson = JSON.stringify({
+  name: 'myproject',
+  services: {
+    db: {
+      image: 'postgres:16',
+      ports: [{ mode: 'ingress', target: 5432, published: '5433', protocol: 'tcp' }],
+      volumes: [{ type: 'volume', source: 'db_data', target: '/var/lib/postgresql/data' }],
+      environment: { POSTGRES_PASSWORD: 'secret', EMPTY: null },
+      healthcheck: { test: ['CMD', 'pg_isready'], interval: '5s', retries: 5 },
+      networks: { default: null }
+    },
+    api: {
+      build: { context: '.' },
+      ports: [{ target: 80, published: '5433', protocol: 'tcp' }, { target: 443, protocol: 'tcp' }],
+      depends_on: { db: { condition: 'service_healthy', required: true } },
+      profiles: ['app']
+    },
+    migrate: { image: 'migrate', healthcheck: { disable: true } }
+  },
+  volumes: { db_data: { name: 'myproject_db_data' }, shared: { name: 'shared', external: true } },
+  networks: { default: { name: 'myproject_default', ipam: {} } }
+})
+
+describe('parseDockerComposeLogLine', () => {
+  it('parses the service, container, timestamp and message', () => {
+    const entry = parseDockerComposeLogLine('db-1  | 2024-01-02T03:04:05.123456789Z LOG:  database system is ready | accepting connections')
+    assert.deepStrictEqual(entry, {
+      service: 'db',
+      container: 'db-1',
+      timestamp: new Date('2024-01-02T03:04:05.123Z'),
+      message: 'LOG:  database system is ready | accepting connections'
+    })
+  })
+
+  it('gets the service name from older container name prefixes', () => {
+    assert.strictEqual(parseDockerComposeLogLine('myproject_api_1  | 2024-01-02T03:04:05Z started')?.service, 'api')
+    assert.strictEqual(parseDockerComposeLogLine('my-api-2 | 2024-01-02T03:04:05Z started')?.service, 'my-api')
+  })
+
+  it('keeps the whole message when there is no timestamp', () => {
+    assert.deepStrictEqual(parseDockerComposeLogLine('api-1  | started'), { service: 'api', container: 'api-1', message: 'started' })
+    assert.deepStrictEqual(parseDockerComposeLogLine('api-1  | '), { service: 'api', container: 'api-1', message: '' })
+  })
+
+  it('returns undefined for lines that are not log lines', () => {
+    assert.strictEqual(parseDockerComposeLogLine(''), undefined)
+    assert.strictEqual(parseDockerComposeLogLine('no such service: foo'), undefined)
+  })
+})
+
+describe('parseDockerSystemDfJson', () => {
+  it('parses each resource type and converts sizes to bytes', () => {
+    const stdout = [
+      '{"Active":"2","Reclaimable":"1.5GB (75%)","Size":"2GB","TotalCount":"5","Type":"Images"}',
+      '{"Active":"1","Reclaimable":"0B (0%)","Size":"12.5kB","TotalCount":"1","Type":"Containers"}',
+      '{"Active":"1","Reclaimable":"300MB (50%)","Size":"600MB","TotalCount":"3","Type":"Local Volumes"}',
+      ''
+    ].join('\n')
+    const usage = parseDockerSystemDfJson(stdout)
+    assert.deepStrictEqual(usage.images, { totalCount: 5, active: 2, size: '2GB', sizeBytes: 2_000_000_000, reclaimable: '1.5GB (75%)', reclaimableBytes: 1_500_000_000 })
+    assert.strictEqual(usage.containers.sizeBytes, 12_500)
+    assert.strictEqual(usage.volumes.reclaimableBytes, 300_000_000)
+    assert.deepStrictEqual(usage.buildCache, { totalCount: 0, active: 0, size: '0B', sizeBytes: 0, reclaimable: '0B', reclaimableBytes: 0 })
+  })
+})
+
+describe('cleanupDockerProject', () => {
+  it('throws for an invalid project name', async () => {
+    await assert.rejects(cleanupDockerProject('Invalid Name'), err => assertErrorMessageEquals(err, 'Invalid docker compose project name: Invalid Name'))
+  })
+})
+
+describe('getDockerComposeServiceHealthProblem', () => {
+  const container = (overrides: Partial<DockerComposeService>): DockerComposeService => ({ ...expectedService, health: undefined, publishedPorts: [], ...overrides } as DockerComposeService)
+
+  it('waits for a service without containers', async () => {
+    assert.deepStrictEqual(await getDockerComposeServiceHealthProblem('db', []), { serviceName: 'db', reason: 'no container found for service', isFatal: false })
+  })
+
+  it('is ready when the container is healthy and waits while it is unhealthy or starting', async () => {
+    assert.strictEqual(await getDockerComposeServiceHealthProblem('db', [container({ health: 'healthy' })]), undefined)
+    assert.deepStrictEqual(await getDockerComposeServiceHealthProblem('db', [container({ health: 'unhealthy' })]), { serviceName: 'db', reason: 'container myproject-db-1 health status is unhealthy', isFatal: false })
+    assert.deepStrictEqual(await getDockerComposeServiceHealthProblem('db', [container({ state: 'created' })]), { serviceName: 'db', reason: 'container myproject-db-1 is created', isFatal: false })
+  })
+
+  it('is fatal when a container exits with a non-zero code or is dead', async () => {
+    assert.deepStrictEqual(await getDockerComposeServiceHealthProblem('db', [container({ state: 'exited', exitCode: 1 })]), { serviceName: 'db', reason: 'container myproject-db-1 exited with code 1', isFatal: true })
+    assert.deepStrictEqual(await getDockerComposeServiceHealthProblem('db', [container({ state: 'dead', exitCode: 137 })]), { serviceName: 'db', reason: 'container myproject-db-1 dead with code 137', isFatal: true })
+  })
+
+  it('treats a container that exited with code 0 as done', async () => {
+    assert.strictEqual(await getDockerComposeServiceHealthProblem('migrate', [container({ service: 'migrate', state: 'exited', exitCode: 0 })]), undefined)
+  })
+
+  it('falls back to checking published ports when there is no healthcheck', async () => {
+    const server = net.createServer()
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    const hostPort = (server.address() as net.AddressInfo).port
+    const withPort = container({ publishedPorts: [{ hostIp: '0.0.0.0', hostPort, containerPort: 5432, protocol: 'tcp' }] })
+    try {
+      assert.strictEqual(await getDockerComposeServiceHealthProblem('db', [withPort]), undefined)
+    } finally {
+      await new Promise(resolve => server.close(resolve))
+    }
+    assert.deepStrictEqual(await getDockerComposeServiceHealthProblem('db', [withPort]), { serviceName: 'db', reason: `container myproject-db-1 is not listening on published port ${hostPort}`, isFatal: false })
+  })
+})
+
+describe('docker volume backup and restore', () => {
+  const tarballPath = path.join(tempDir, 'backups', 'db.tar.gz')
+  const tarballDir = path.resolve(tempDir, 'backups')
+
+  it('mounts the volume read-only for backups', () => {
+    assert.deepStrictEqual(getDockerVolumeBackupArgs('myproject_db', tarballPath, 'alpine', false), [
+      'run', '--rm', '-v', 'myproject_db:/volume:ro', '-v', `${tarballDir}:/backup`, 'alpine', 'tar', '-czf', '/backup/db.tar.gz', '-C', '/volume', '.'
+    ])
+  })
+
+  it('restores with an sh -c script that passes the tar command as positional params', () => {
+    const restoreArgs = (clearVolume: boolean, stripComponents: number) => getDockerVolumeRestoreArgs('myproject_db', tarballPath, { image: 'busybox', clearVolume, stripComponents }, false)
+    assert.deepStrictEqual(restoreArgs(true, 0), [
+      'run', '--rm', '-v', 'myproject_db:/volume', '-v', `${tarballDir}:/backup:ro`, 'busybox',
+      'sh', '-c', 'find /volume -mindepth 1 -delete && "$@"', 'sh', 'tar', '-xzf', '/backup/db.tar.gz', '-C', '/volume'
+    ])
+    assert.deepStrictEqual(restoreArgs(false, 1).slice(7), ['sh', '-c', '"$@"', 'sh', 'tar', '-xzf', '/backup/db.tar.gz', '-C', '/volume', '--strip-components=1'])
+  })
+
+  it('converts the tarball directory to a wsl path when using the wsl prefix', () => {
+    const restoreOptions = { image: 'alpine', clearVolume: true, stripComponents: 0 }
+    assert.strictEqual(getDockerVolumeBackupArgs('myproject_db', tarballPath, 'alpine', true)[5], `${toWslPath(tarballDir)}:/backup`)
+    assert.strictEqual(getDockerVolumeRestoreArgs('myproject_db', tarballPath, restoreOptions, true)[5], `${toWslPath(tarballDir)}:/backup:ro`)
+  })
+
+  it('restores a createTarball archive with stripComponents', async () => {
+    await ensureEmptyTempDir(dockerTempDir)
+    const archivePath = path.join(dockerTempDir, 'backups', 'dirToTarball.tar.gz')
+    const volumeDir = path.resolve(dockerTempDir, 'volume')
+    await createTarball(path.join(fixturesDir, 'dirToTarball'), archivePath)
+    await fsp.mkdir(volumeDir)
+    await fsp.writeFile(path.join(volumeDir, 'stale.txt'), 'stale')
+
+    // Run the container part of the args on the host with the mount points replaced by the host directories
+    const containerArgs = getDockerVolumeRestoreArgs('myproject_db', archivePath, { image: 'alpine', clearVolume: true, stripComponents: 1 }, false).slice(7)
+      .map(arg => arg.replaceAll('/backup/', `${path.dirname(path.resolve(archivePath))}/`).replaceAll('/volume', volumeDir))
+    const result = await spawnAsync(containerArgs[0], containerArgs.slice(1), { stdio: 'pipe' })
+
+    assert.strictEqual(result.code, 0)
+    assert.deepStrictEqual((await fsp.readdir(volumeDir)).sort(), ['tarballSubDir', 'test1.txt', 'test2.txt'])
+    assert.ok(fs.existsSync(path.join(volumeDir, 'tarballSubDir', 'test3.txt')))
+    await ensureEmptyTempDir(dockerTempDir)
+  })
+
+  it('checks the tarball before restoring', async () => {
+    await ensureEmptyTempDir(dockerTempDir)
+    const archivePath = path.join(dockerTempDir, 'dirToTarball.tar.gz')
+    const corruptPath = path.join(dockerTempDir, 'corrupt.tar.gz')
+    await createTarball(path.join(fixturesDir, 'dirToTarball'), archivePath)
+    await fsp.writeFile(corruptPath, 'not a tarball')
+    await assert.rejects(restoreDockerVolume(archivePath, 'myproject_db', { stripComponents: 3 }), err => assertErrorMessageEquals(err, `Tarball has no entries to restore with stripComponents 3: ${archivePath}`))
+    await assert.rejects(restoreDockerVolume(corruptPath, 'myproject_db'), err => assertErrorMessageStartsWith(err, 'tar command failed with code'))
+    await ensureEmptyTempDir(dockerTempDir)
+  })
+
+  it('throws if the volume is mounted by running containers', () => {
+    assert.doesNotThrow(() => requireVolumeNotMountedByRunningContainers('myproject_db', []))
+    assert.throws(() => requireVolumeNotMountedByRunningContainers('myproject_db', ['myproject-db-1', 'myproject-api-1']), err => assertErrorMessageEquals(err,
+      'Docker volume myproject_db is mounted by running containers (stop them first or use the allowMountedByRunningContainer option): myproject-db-1, myproject-api-1'))
+  })
+})
+
+describe('DockerComposeConfig', () => {
+  it('parses services, volumes and networks', () => {
+    const composeConfig = DockerComposeConfig.parse(composeConfigJson)
+    assert.strictEqual(composeConfig.projectName, 'myproject')
+    assert.deepStrictEqual(composeConfig.services.map(s => s.name), ['db', 'api', 'migrate'])
+    const db = composeConfig.getService('db')!
+    assert.deepStrictEqual(db.ports, [{ target: 5432, published: 5433, protocol: 'tcp', hostIp: undefined }])
+    assert.deepStrictEqual(db.volumes, [{ type: 'volume', source: 'db_data', target: '/var/lib/postgresql/data', readOnly: false }])
+    assert.deepStrictEqual(db.environment, { POSTGRES_PASSWORD: 'secret', EMPTY: '' })
+    assert.deepStrictEqual(db.healthcheck, { test: ['CMD', 'pg_isready'], interval: '5s', timeout: undefined, retries: 5, startPeriod: undefined, disable: false })
+    assert.deepStrictEqual(db.networks, ['default'])
+    const api = composeConfig.getService('api')!
+    assert.deepStrictEqual(api.dependsOn, ['db'])
+    assert.deepStrictEqual(api.profiles, ['app'])
+    assert.strictEqual(api.ports[1].published, undefined)
+    assert.deepStrictEqual(composeConfig.getVolume('db_data'), { key: 'db_data', name: 'myproject_db_data', external: false, driver: undefined })
+    assert.strictEqual(composeConfig.getVolume('shared')?.external, true)
+    assert.strictEqual(composeConfig.getNetwork('default')?.name, 'myproject_default')
+  })
+
+  it('validates host port collisions by default and healthchecks when requested', () => {
+    const composeConfig = DockerComposeConfig.parse(composeConfigJson)
+    assert.deepStrictEqual(composeConfig.validate(), [{ service: 'api', message: 'host port 0.0.0.0:5433/tcp is also published by service db' }])
+    assert.deepStrictEqual(composeConfig.validate({ noHostPortCollisions: false, requireHealthchecks: true, servicesWithoutHealthchecks: ['migrate'] }), [
+      { service: 'api', message: 'no healthcheck defined' }
+    ])
+  })
+
+  it('throwIfInvalid lists every issue', () => {
+    const composeConfig = DockerComposeConfig.parse(composeConfigJson)
+    assert.throws(() => composeConfig.throwIfInvalid({ requireHealthchecks: true }), err => assertErrorMessageEquals(err,
+      'Invalid docker compose config:\n- api: no healthcheck defined\n- migrate: no healthcheck defined\n- api: host port 0.0.0.0:5433/tcp is also published by service db'
+    ))
+  })
+})
+
+describe('spawnDockerCompose with dry run', () => {
+  const originalLogger = config.logger
+  let loggedMessages: string[] = []
+
+  beforeEach(async () => {
+    loggedMessages = []
+    config.logger = { debug: () => { }, info: data => loggedMessages.push(`${data}`), warn: () => { }, error: () => { } }
+    config.dryRun = true
+    config.containerEngine = 'docker'
+    await ensureEmptyTempDir(dockerTempDir)
+  })
+
+  afterEach(async () => {
+    config.logger = originalLogger
+    config.dryRun = false
+    config.containerEngine = 'auto'
+    await ensureEmptyTempDir(dockerTempDir)
+  })
+
+  it('passes each compose file, profile and env file in order', async () => {
+    const composePath = path.join(dockerTempDir, 'docker-compose.yml')
+    const overridePath = path.join(dockerTempDir, 'docker-compose.override.yml')
+    const envPath = path.join(dockerTempDir, '.env')
+    const ciEnvPath = path.join(dockerTempDir, '.env.ci')
+    for (const filePath of [composePath, overridePath, envPath, ciEnvPath]) {
+      await fsp.writeFile(filePath, '')
+    }
+    await spawnDockerCompose([composePath, overridePath], 'up', { profile: ['app', 'tools'], altEnvFilePath: [envPath, ciEnvPath], useWslPrefix: false })
+    const expectedArgs = ['compose', '-f', path.resolve(composePath), '-f', path.resolve(overridePath), '--profile', 'app', '--profile', 'tools', '--env-file', envPath, '--env-file', ciEnvPath, 'up', '--detach']
+    assert.deepStrictEqual(loggedMessages, [`[DRY RUN] would run: docker ${expectedArgs.join(' ')} (cwd: ${dockerTempDir})`])
+  })
+
+  it('still accepts a single path, profile and env file', async () => {
+    const composePath = path.join(dockerTempDir, 'docker-compose.yml')
+    await fsp.writeFile(composePath, '')
+    await spawnDockerCompose(composePath, 'down', { profile: 'app', useWslPrefix: false })
+    assert.deepStrictEqual(loggedMessages, [`[DRY RUN] would run: docker compose -f ${path.resolve(composePath)} --profile app down (cwd: ${dockerTempDir})`])
+  })
+
+  it('dockerBuild passes build options', async () => {
+    const dockerfilePath = path.join(dockerTempDir, 'Dockerfile.ci')
+    await fsp.writeFile(dockerfilePath, '')
+    await dockerBuild(dockerTempDir, {
+      dockerfile: dockerfilePath,
+      tags: ['myapp:latest', 'myapp:1.0.0'],
+      buildArgs: { NODE_VERSION: '20' },
+      target: 'runtime',
+      labels: { 'org.opencontainers.image.version': '1.0.0' },
+      platform: 'linux/amd64',
+      noCache: true
+    })
+    const expectedArgs = [
+      'build', '--file', path.resolve(dockerfilePath), '--tag', 'myapp:latest', '--tag', 'myapp:1.0.0', '--build-arg', 'NODE_VERSION=20', '--target', 'runtime',
+      '--label', 'org.opencontainers.image.version=1.0.0', '--platform', 'linux/amd64', '--no-cache', path.resolve(dockerTempDir)
+    ]
+    assert.deepStrictEqual(loggedMessages, [`[DRY RUN] would run: docker ${expectedArgs.join(' ')} (cwd: ${process.cwd()})`])
+  })
+
+  it('dockerComposeExec passes exec options without a tty', async () => {
+    const composePath = path.join(dockerTempDir, 'docker-compose.yml')
+    const sqlPath = path.join(dockerTempDir, 'seed.sql')
+    await fsp.writeFile(composePath, '')
+    await fsp.writeFile(sqlPath, 'select 1;')
+    const result = await dockerComposeExec(composePath, 'db', ['psql', '-U', 'postgres'], { user: 'postgres', workdir: '/tmp', env: { PGDATABASE: 'app' }, stdin: sqlPath, useWslPrefix: false })
+    const expectedArgs = ['compose', '-f', path.resolve(composePath), 'exec', '-T', '--user', 'postgres', '--workdir', '/tmp', '--env', 'PGDATABASE=app', 'db', 'psql', '-U', 'postgres']
+    assert.deepStrictEqual(loggedMessages, [`[DRY RUN] would run: docker ${expectedArgs.join(' ')} (cwd: ${dockerTempDir})`])
+    assert.strictEqual(result.code, 0)
+    assert.deepStrictEqual(result.stdoutLines, [])
+  })
+
+  it('uses the configured container engine', async () => {
+    const composePath = path.join(dockerTempDir, 'docker-compose.yml')
+    await fsp.writeFile(composePath, '')
+    config.containerEngine = 'podman'
+    await spawnDockerCompose(composePath, 'up', { useWslPrefix: false })
+    await dockerComposeExec(composePath, 'db', ['pg_isready'], { useWslPrefix: false })
+    assert.deepStrictEqual(loggedMessages, [
+      `[DRY RUN] would run: podman compose -f ${path.resolve(composePath)} up --detach (cwd: ${dockerTempDir})`,
+      `[DRY RUN] would run: podman compose -f ${path.resolve(composePath)} exec -T db pg_isready (cwd: ${dockerTempDir})`
+    ])
+  })
+
+  it('waitForDockerComposeServicesHealthy respects the per-call dryRun option', async () => {
+    const composePath = path.join(dockerTempDir, 'docker-compose.yml')
+    await fsp.writeFile(composePath, '')
+    config.dryRun = false
+    await waitForDockerComposeServicesHealthy(composePath, ['db', 'api'], { dryRun: true })
+    assert.deepStrictEqual(loggedMessages, ['[DRY RUN] would wait for docker compose services to be healthy: db, api'])
+  })
+
+  it('throws for an empty array of paths', async () => {
+    await assert.rejects(spawnDockerCompose([], 'up'), err => assertErrorMessageStartsWith(err, 'At least one docker compose path is required'))
+  })
+})
+
+describe('DockerBuildError', () => {
+  it('includes the failed step and error from buildkit output', () => {
+    const stderr = [
+      '#7 [build 3/5] RUN npm ci',
+      '#7 0.512 npm ERR! missing package-lock.json',
+      '#7 ERROR: process "/bin/sh -c npm ci" did not complete successfully: exit code: 1',
+      '------',
+      ' > [build 3/5] RUN npm ci:',
+      '0.512 npm ERR! missing package-lock.json',
+      '------',
+      'ERROR: failed to solve: process "/bin/sh -c npm ci" did not complete successfully: exit code: 1'
+    ].join('\n')
+    const err = new DockerBuildError({ code: 1, stdout: '', stderr })
+    assert.strictEqual(err.failedStep, '[build 3/5] RUN npm ci')
+    assert.strictEqual(err.buildError, 'failed to solve: process "/bin/sh -c npm ci" did not complete successfully: exit code: 1')
+    assert.strictEqual(err.message, 'docker build failed with code 1 (failed step: [build 3/5] RUN npm ci - failed to solve: process "/bin/sh -c npm ci" did not complete successfully: exit code: 1)')
+    assert.strictEqual(err.result.stderr, stderr)
+  })
+
+  it('has a plain message when the output has no recognizable error', () => {
+    const err = new DockerBuildError({ code: 125, stdout: '', stderr: 'unknown flag: --bad' })
+    assert.strictEqual(err.message, 'docker build failed with code 125')
+    assert.strictEqual(err.failedStep, undefined)
+  })
+})
@@ -0,0 +1,167 @@
+import assert from 'node:assert'
+import fsp from 'node:fs/promises'
+import path from 'node:path'
+import { beforeEach, describe, it } from 'node:test'
+import {
+  addNugetPackageItem,
+  addNugetPackageItemToXml,
+  findDirectoryPackagesProps,
+  getNugetPackageItemsFromXml,
+  getProjectTargetFrameworks,
+  removeNugetPackageItem,
+  removeNugetPackageItemFromXml,
+  updateNugetPackageItemInXml
+} from '../../../src/dotnetProjectUtils.js'
+import { assertErrorMessageEquals, ensureEmptyTempDir, tempDir } from '../../../src/testUtils.js'
+
+const projectXml = `<Project Sdk="Microsoft.NET.Sdk.Web">
+
+  <PropertyGroup>
+    <TargetFramework>net8.0</TargetFramework>
+  </PropertyGroup>
+
+  <ItemGroup>
+    <PackageReference Include="Dapper" Version="2.1.24" />
+    <!-- <PackageReference Include="Commented.Out" Version="1.0.0" /> -->
+    <PackageReference Include="Microsoft.EntityFrameworkCore.Design" Version="8.0.0">
+      <PrivateAssets>all</PrivateAssets>
+    </PackageReference>
+    <PackageReference Include="Serilog">
+      <Version>3.1.1</Version>
+    </PackageReference>
+  </ItemGroup>
+
+</Project>
+`
+
+const projectWithoutPackagesXml = `<Project Sdk="Microsoft.NET.Sdk">
+
+    <PropertyGroup>
+        <TargetFrameworks>net6.0;net8.0</TargetFrameworks>
+    </PropertyGroup>
+
+</Project>
+`
+
+describe('getNugetPackageItemsFromXml', () => {
+  it('gets items with version attributes and elements and ignores comments', () => {
+    assert.deepStrictEqual(getNugetPackageItemsFromXml(projectXml), [
+      { itemType: 'PackageReference', packageName: 'Dapper', version: '2.1.24' },
+      { itemType: 'PackageReference', packageName: 'Microsoft.EntityFrameworkCore.Design', version: '8.0.0' },
+      { itemType: 'PackageReference', packageName: 'Serilog', version: '3.1.1' }
+    ])
+  })
+
+  it('gets PackageVersion items and items without a version', () => {
+    const xml = `<Project><ItemGroup><PackageVersion Include="Dapper" Version="[2.0,3.0)" /><PackageReference Include="Serilog" /></ItemGroup></Project>`
+    assert.deepStrictEqual(getNugetPackageItemsFromXml(xml), [
+      { itemType: 'PackageVersion', packageName: 'Dapper', version: '[2.0,3.0)' },
+      { itemType: 'PackageReference', packageName: 'Serilog', version: undefined }
+    ])
+  })
+})
+
+describe('addNugetPackageItemToXml', () => {
+  it('adds the item after the last item of the same type with the same indentation', () => {
+    const result = addNugetPackageItemToXml(projectXml, 'PackageReference', 'Npgsql', '8.0.1')
+    assert.strictEqual(result, projectXml.replace(
+      '    </PackageReference>\n  </ItemGroup>',
+      '    </PackageReference>\n    <PackageReference Include="Npgsql" Version="8.0.1" />\n  </ItemGroup>'
+    ))
+  })
+
+  it('adds a new ItemGroup at the end of the project if there are no items of the same type', () => {
+    const result = addNugetPackageItemToXml(projectWithoutPackagesXml, 'PackageReference', 'Dapper', '2.1.24')
+    assert.strictEqual(result, `<Project Sdk="Microsoft.NET.Sdk">
+
+    <PropertyGroup>
+        <TargetFrameworks>net6.0;net8.0</TargetFrameworks>
+    </PropertyGroup>
+
+    <ItemGroup>
+        <PackageReference Include="Dapper" Version="2.1.24" />
+    </ItemGroup>
+
+</Project>
+`)
+  })
+
+  it('keeps windows line endings', () => {
+    const result = addNugetPackageItemToXml(projectXml.replaceAll('\n', '\r\n'), 'PackageReference', 'Npgsql')
+    assert.ok(result.includes('</PackageReference>\r\n    <PackageReference Include="Npgsql" />\r\n  </ItemGroup>'))
+  })
+
+  it('throws if the package already has an item', () => {
+    assert.throws(() => addNugetPackageItemToXml(projectXml, 'PackageReference', 'dapper', '2.1.24'), err => assertErrorMessageEquals(err, 'There is already a PackageReference item for package dapper'))
+  })
+})
+
+describe('updateNugetPackageItemInXml', () => {
+  it('updates version attributes and elements in place', () => {
+    let result = updateNugetPackageItemInXml(projectXml, 'dapper', '2.1.28')
+    result = updateNugetPackageItemInXml(result, 'Serilog', '3.1.2')
+    assert.strictEqual(result, projectXml.replace('Version="2.1.24"', 'Version="2.1.28"').replace('<Version>3.1.1</Version>', '<Version>3.1.2</Version>'))
+  })
+
+  it('adds a version attribute if the item does not have a version', () => {
+    const result = updateNugetPackageItemInXml('<PackageReference Include="Serilog" />', 'Serilog', '3.1.1')
+    assert.strictEqual(result, '<PackageReference Include="Serilog" Version="3.1.1" />')
+  })
+
+  it('throws if the package does not have an item', () => {
+    assert.throws(() => updateNugetPackageItemInXml(projectXml, 'Commented.Out', '2.0.0'), err => assertErrorMessageEquals(err, 'There is no PackageReference or PackageVersion item for package Commented.Out'))
+  })
+})
+
+describe('removeNugetPackageItemFromXml', () => {
+  it('removes the item and its line', () => {
+    const result = removeNugetPackageItemFromXml(projectXml, 'Microsoft.EntityFrameworkCore.Design')
+    assert.strictEqual(result, projectXml.replace(`    <PackageReference Include="Microsoft.EntityFrameworkCore.Design" Version="8.0.0">
+      <PrivateAssets>all</PrivateAssets>
+    </PackageReference>
+`, ''))
+  })
+
+  it('removes the ItemGroup if it is empty', () => {
+    const withPackage = addNugetPackageItemToXml(projectWithoutPackagesXml, 'PackageReference', 'Dapper', '2.1.24')
+    assert.strictEqual(removeNugetPackageItemFromXml(withPackage, 'Dapper'), projectWithoutPackagesXml)
+  })
+
+  it('returns the xml unchanged if the package does not have an item', () => {
+    assert.strictEqual(removeNugetPackageItemFromXml(projectXml, 'Missing'), projectXml)
+  })
+})
+
+describe('project files', () => {
+  const projectTempDir = path.join(tempDir, 'dotnetProjectUtils')
+  const projectPath = path.join(projectTempDir, 'src', 'Api', 'Api.csproj')
+  const propsPath = path.join(projectTempDir, 'Directory.Packages.props')
+
+  beforeEach(async () => {
+    await ensureEmptyTempDir(projectTempDir)
+    await fsp.mkdir(path.dirname(projectPath), { recursive: true })
+    await fsp.writeFile(projectPath, projectWithoutPackagesXml)
+    await fsp.writeFile(propsPath, '<Project>\n  <ItemGroup>\n    <PackageVersion Include="Dapper" Version="2.1.24" />\n  </ItemGroup>\n</Project>\n')
+  })
+
+  it('adds PackageVersion items to Directory.Packages.props files and PackageReference items to other files', async () => {
+    await addNugetPackageItem(propsPath, 'Serilog', '3.1.1')
+    await addNugetPackageItem(projectPath, 'Serilog')
+    assert.ok((await fsp.readFile(propsPath, 'utf-8')).includes('<PackageVersion Include="Serilog" Version="3.1.1" />'))
+    assert.ok((await fsp.readFile(projectPath, 'utf-8')).includes('<PackageReference Include="Serilog" />'))
+  })
+
+  it('requires a version for Directory.Packages.props files', async () => {
+    await assert.rejects(addNugetPackageItem(propsPath, 'Serilog'), err => assertErrorMessageEquals(err, 'A version is required to add a package to Directory.Packages.props: Serilog'))
+  })
+
+  it('does not change the file in dry run mode', async () => {
+    assert.strictEqual(await removeNugetPackageItem(propsPath, 'Dapper', { dryRun: true }), true)
+    assert.ok((await fsp.readFile(propsPath, 'utf-8')).includes('Dapper'))
+  })
+
+  it('finds the closest Directory.Packages.props file and gets target frameworks', async () => {
+    assert.strictEqual(findDirectoryPackagesProps(path.dirname(projectPath)), path.resolve(propsPath))
+    assert.deepStrictEqual(await getProjectTargetFrameworks(projectPath), ['net6.0', 'net8.0'])
+  })
+})
@@ -0,0 +1,142 @@
+import assert from 'node:assert'
+import fs from 'node:fs'
+import fsp from 'node:fs/promises'
+import path from 'node:path'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { config } from '../../../src/NodeCliUtilsConfig.js'
+import { copyDirectoryContents, copyModifiedEnv, deleteEnvIfExists, emptyDirectory, overwriteEnvFile, simpleSpawnAsync, simpleSpawnSync, spawnAsync, spawnUntilReady } from '../../../src/generalUtils.js'
+import { assertErrorMessageStartsWith, ensureEmptyTempDir, fixturesDir, tempDir } from '../../../src/testUtils.js'
+
+config.traceEnabled = false
+
+const dryRunTempDir = path.join(tempDir, 'dryRun')
+const outputLinesScript = path.join(fixturesDir, 'nodeScriptWithOutputLines.js')
+
+const originalLogger = config.logger
+let loggedMessages: string[] = []
+
+beforeEach(async () => {
+  loggedMessages = []
+  config.logger = { debug: () => { }, info: data => loggedMessages.push(`${data}`), warn: () => { }, error: () => { } }
+  config.dryRun = true
+  await ensureEmptyTempDir(dryRunTempDir)
+})
+
+afterEach(() => {
+  config.logger = originalLogger
+  config.dryRun = false
+})
+
+describe('spawn helpers with dry run', () => {
+  it('spawnAsync logs the command and returns a synthetic successful result', async () => {
+    const result = await spawnAsync('node', [outputLinesScript], { stdio: 'pipe', cwd: dryRunTempDir })
+    assert.strictEqual(result.code, 0)
+    assert.strictEqual(result.stdout, '')
+    assert.deepStrictEqual(loggedMessages, [`[DRY RUN] would run: node ${outputLinesScript} (cwd: ${dryRunTempDir})`])
+  })
+
+  it('spawnAsync runs the command when the per-call option overrides config', async () => {
+    const result = await spawnAsync('node', [outputLinesScript], { stdio: 'pipe', dryRun: false })
+    assert.strictEqual(result.code, 0)
+    assert.ok(result.stdout.includes('stdout line 1'))
+    assert.deepStrictEqual(loggedMessages, [])
+  })
+
+  it('spawnAsync uses dry run when the per-call option is true and config is false', async () => {
+    config.dryRun = false
+    const result = await spawnAsync('node', [outputLinesScript], { stdio: 'pipe', dryRun: true })
+    assert.strictEqual(result.stdout, '')
+    assert.strictEqual(loggedMessages.length, 1)
+  })
+
+  it('spawnAsync does not require the cwd to exist', async () => {
+    const missingDir = path.join(dryRunTempDir, 'doesNotExist')
+    const result = await spawnAsync('node', ['--version'], { cwd: missingDir })
+    assert.strictEqual(result.code, 0)
+    assert.strictEqual(result.cwd, missingDir)
+  })
+
+  it('simpleSpawnSync and simpleSpawnAsync return synthetic results', async () => {
+    const syncResult = simpleSpawnSync('node', ['--version'])
+    const asyncResult = await simpleSpawnAsync('node', ['--version'])
+    assert.deepStrictEqual(syncResult.stdoutLines, [])
+    assert.deepStrictEqual(asyncResult.stdoutLines, [])
+    assert.strictEqual(syncResult.code, 0)
+    assert.strictEqual(asyncResult.code, 0)
+    assert.strictEqual(loggedMessages.length, 2)
+  })
+
+  it('spawnUntilReady throws', async () => {
+    await assert.rejects(
+      spawnUntilReady('node', ['--version'], { readyPattern: /v/ }),
+      err => assertErrorMessageStartsWith(err, 'spawnUntilReady cannot be used in dry run mode')
+    )
+  })
+
+  it('spawnUntilReady runs the process when the per-call option overrides config', async () => {
+    const handle = await spawnUntilReady('node', [path.join(fixturesDir, 'nodeScriptThatBecomesReady.js')], { readyPattern: /Now listening on/, timeoutMillis: 10000, dryRun: false })
+    assert.strictEqual(handle.readyLine, 'Now listening on: http://localhost:5000')
+    await handle.stop()
+  })
+
+  it('spawnUntilReady throws when the per-call option is true', async () => {
+    config.dryRun = false
+    await assert.rejects(
+      spawnUntilReady('node', ['--version'], { readyPattern: /v/, dryRun: true }),
+      err => assertErrorMessageStartsWith(err, 'spawnUntilReady cannot be used in dry run mode')
+    )
+  })
+})
+
+describe('filesystem helpers with dry run', () => {
+  it('emptyDirectory logs deletions without deleting', async () => {
+    const filePath = path.join(dryRunTempDir, 'file.txt')
+    await fsp.writeFile(filePath, 'test')
+    await emptyDirectory(dryRunTempDir)
+    assert.ok(fs.existsSync(filePath))
+    assert.deepStrictEqual(loggedMessages, [`[DRY RUN] would delete file: ${filePath}`])
+  })
+
+  it('copyDirectoryContents logs copies without copying', async () => {
+    const destination = path.join(dryRunTempDir, 'copy')
+    await copyDirectoryContents(path.join(fixturesDir, 'dirToTarball'), destination)
+    assert.strictEqual(fs.existsSync(destination), false)
+    assert.strictEqual(loggedMessages[0], `[DRY RUN] would create directory: ${destination}`)
+    assert.ok(loggedMessages.some(m => m.startsWith('[DRY RUN] would copy file:') && m.endsWith(path.join(destination, 'test1.txt'))))
+  })
+
+  it('overwriteEnvFile logs the diff without writing', async () => {
+    const sourcePath = path.join(dryRunTempDir, 'source.env')
+    const destinationPath = path.join(dryRunTempDir, '.env')
+    await fsp.writeFile(sourcePath, 'A=1\nB=new\n')
+    await fsp.writeFile(destinationPath, 'B=old\n')
+    await overwriteEnvFile(sourcePath, destinationPath, { suppressAddKeysMessages: true })
+    assert.strictEqual(await fsp.readFile(destinationPath, 'utf-8'), 'B=old\n')
+    assert.deepStrictEqual(loggedMessages, [`[DRY RUN] would modify file: ${destinationPath}`, '- B=old\n+ B=new\n+ # ---- Added automatically from template ----\n+ A=1'])
+  })
+
+  it('deleteEnvIfExists logs without deleting', async () => {
+    const envPath = path.join(dryRunTempDir, '.env')
+    await fsp.writeFile(envPath, 'A=1\n')
+    await deleteEnvIfExists(envPath)
+    assert.ok(fs.existsSync(envPath))
+    assert.deepStrictEqual(loggedMessages, [`[DRY RUN] would delete file: ${envPath}`])
+  })
+
+  it('deleteEnvIfExists deletes when the per-call option overrides config', async () => {
+    const envPath = path.join(dryRunTempDir, '.env')
+    await fsp.writeFile(envPath, 'A=1\n')
+    await deleteEnvIfExists(envPath, { dryRun: false })
+    assert.ok(!fs.existsSync(envPath))
+  })
+
+  it('copyModifiedEnv logs without writing when the per-call option is true', async () => {
+    config.dryRun = false
+    const sourcePath = path.join(dryRunTempDir, '.env.template')
+    const destinationPath = path.join(dryRunTempDir, '.env')
+    await fsp.writeFile(sourcePath, 'KEEP=1\nDROP=2\n')
+    await copyModifiedEnv(sourcePath, destinationPath, ['KEEP'], undefined, { dryRun: true })
+    assert.ok(!fs.existsSync(destinationPath))
+    assert.deepStrictEqual(loggedMessages, [`[DRY RUN] would create file: ${destinationPath}`, '+ KEEP=1'])
+  })
+})
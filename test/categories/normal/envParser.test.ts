@@ -0,0 +1,114 @@
+import assert from 'node:assert'
+import fsp from 'node:fs/promises'
+import path from 'node:path'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { formatEnvValue, parseEnvEntries, parseEnvString } from '../../../src/envParser.js'
+import { copyModifiedEnv, overwriteEnvFile } from '../../../src/generalUtils.js'
+import { assertErrorMessageEquals, ensureEmptyTempDir, tempDir } from '../../../src/testUtils.js'
+
+const envTempDir = path.join(tempDir, 'envParser')
+
+describe('parseEnvString', () => {
+  it('keeps everything after the first equals sign', () => {
+    const dict = parseEnvString('CONN=Server=localhost;Database=test\nBASE64=YWJj==\n')
+    assert.deepStrictEqual(dict, { CONN: 'Server=localhost;Database=test', BASE64: 'YWJj==' })
+  })
+
+  it('skips comments and blank lines and supports export prefix', () => {
+    const dict = parseEnvString('# comment\n\n  export A=1\nexport  B = 2 \n   # indented comment\n')
+    assert.deepStrictEqual(dict, { A: '1', B: '2' })
+  })
+
+  it('strips inline comments from unquoted values only when preceded by whitespace', () => {
+    const dict = parseEnvString('A=value # comment\nB=abc#def\nC=#only comment\n')
+    assert.deepStrictEqual(dict, { A: 'value', B: 'abc#def', C: '' })
+  })
+
+  it('removes quotes and keeps inline comments out of quoted values', () => {
+    const dict = parseEnvString(`A="has # hash" # comment\nB='single "inner"'\nC=\`back 'tick' "quote"\`\nD=""\n`)
+    assert.deepStrictEqual(dict, { A: 'has # hash', B: 'single "inner"', C: `back 'tick' "quote"`, D: '' })
+  })
+
+  it('processes escapes in double quoted values only', () => {
+    const dict = parseEnvString(String.raw`A="line1\nline2\t\"quoted\"\\"` + '\n' + String.raw`B='line1\nline2'`)
+    assert.deepStrictEqual(dict, { A: 'line1\nline2\t"quoted"\\', B: String.raw`line1\nline2` })
+  })
+
+  it('supports multiline quoted values and tracks line numbers', () => {
+    const entries = parseEnvEntries('A="first\nsecond"\nB=\'x\r\ny\'\nC=3\n')
+    assert.deepStrictEqual(entries.map(e => [e.key, e.value, e.lineNumber]), [['A', 'first\nsecond', 1], ['B', 'x\ny', 3], ['C', '3', 5]])
+  })
+
+  it('interpolates earlier keys, process.env and defaults', () => {
+    process.env.ENV_PARSER_TEST_VAR = 'fromProcess'
+    try {
+      const dict = parseEnvString('HOST=localhost\nURL=http://${HOST}:${PORT:-5000}\nQUOTED="${HOST}-${ENV_PARSER_TEST_VAR}"\nLITERAL=\'${HOST}\'\nESCAPED="\\${HOST}"\nMISSING=${NOPE}\n')
+      assert.deepStrictEqual(dict, {
+        HOST: 'localhost',
+        URL: 'http://localhost:5000',
+        QUOTED: 'localhost-fromProcess',
+        LITERAL: '${HOST}',
+        ESCAPED: '${HOST}',
+        MISSING: ''
+      })
+    } finally {
+      delete process.env.ENV_PARSER_TEST_VAR
+    }
+  })
+
+  it('leaves references as-is when interpolation is disabled', () => {
+    const dict = parseEnvString('HOST=localhost\nURL=http://${HOST}\n', { interpolate: false })
+    assert.strictEqual(dict.URL, 'http://${HOST}')
+  })
+
+  it('uses the last value for duplicate keys', () => {
+    assert.deepStrictEqual(parseEnvString('A=1\nA=2\n'), { A: '2' })
+  })
+
+  it('throws for an unterminated quoted value', () => {
+    assert.throws(() => parseEnvString('A=1\nB="never closed\nC=3\n'), err => assertErrorMessageEquals(err, `Unterminated " quoted value for key 'B' starting on line 2`))
+  })
+})
+
+describe('formatEnvValue', () => {
+  it('round trips values through parseEnvString', () => {
+    const values = ['simple', '', 'with space', 'a=b', '${NOT_A_REF}', `it's "quoted" $HOME \\ \n\t`, 'multi\nline', '#hash']
+    for (const value of values) {
+      assert.strictEqual(parseEnvString(`KEY=${formatEnvValue(value)}`).KEY, value, `value did not round trip: ${JSON.stringify(value)}`)
+    }
+  })
+
+  it('only quotes when necessary', () => {
+    assert.strictEqual(formatEnvValue('Server=localhost;Port=1'), 'Server=localhost;Port=1')
+    assert.strictEqual(formatEnvValue('a b'), `'a b'`)
+  })
+})
+
+describe('env copy functions', () => {
+  beforeEach(async () => {
+    await ensureEmptyTempDir(envTempDir)
+  })
+
+  afterEach(async () => {
+    await ensureEmptyTempDir(envTempDir)
+  })
+
+  it('overwriteEnvFile copies values containing equals signs, quotes and references without changing them', async () => {
+    const sourcePath = path.join(envTempDir, 'source.env')
+    const destinationPath = path.join(envTempDir, '.env')
+    await fsp.writeFile(sourcePath, 'CONN=Server=db;User=sa\nQUOTED="a # b"\nREF=${CONN}\n')
+    await fsp.writeFile(destinationPath, 'OTHER=1\n')
+    await overwriteEnvFile(sourcePath, destinationPath, { suppressAddKeysMessages: true })
+    const destinationDict = parseEnvString(await fsp.readFile(destinationPath, 'utf-8'))
+    assert.deepStrictEqual(destinationDict, { OTHER: '1', CONN: 'Server=db;User=sa', QUOTED: 'a # b', REF: 'Server=db;User=sa' })
+  })
+
+  it('copyModifiedEnv quotes modified values as needed', async () => {
+    const sourcePath = path.join(envTempDir, 'source.env')
+    const destinationPath = path.join(envTempDir, '.env')
+    await fsp.writeFile(sourcePath, 'KEEP=Server=db\nDROP=1\n')
+    await copyModifiedEnv(sourcePath, destinationPath, ['KEEP'], { ADDED: 'has space # and hash' })
+    const destinationDict = parseEnvString(await fsp.readFile(destinationPath, 'utf-8'))
+    assert.deepStrictEqual(destinationDict, { ADDED: 'has space # and hash', KEEP: 'Server=db' })
+  })
+})
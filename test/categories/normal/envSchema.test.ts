@@ -0,0 +1,109 @@
+import assert from 'node:assert'
+import fsp from 'node:fs/promises'
+import path from 'node:path'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { EnvSchema, getFormattedEnvValidationReport, isEnvValid, throwIfEnvInvalid, validateEnv, validateEnvFile } from '../../../src/envSchema.js'
+import { getRequiredEnvBool, getRequiredEnvInt, getRequiredEnvPort, getRequiredEnvUrl } from '../../../src/generalUtils.js'
+import { assertErrorMessageEquals, assertErrorMessageStartsWith, ensureEmptyTempDir, tempDir } from '../../../src/testUtils.js'
+
+const envSchemaTempDir = path.join(tempDir, 'envSchema')
+
+function stripColor(str: string) {
+  // eslint-disable-next-line no-control-regex
+  return str.replace(/\x1b\[[0-9;]*m/g, '')
+}
+
+const schema: EnvSchema = {
+  DB_PORT: { type: 'port' },
+  API_URL: { type: 'url' },
+  WORKERS: { type: 'int', required: false },
+  DEBUG: { type: 'bool' },
+  MODE: { allowedValues: ['dev', 'prod'] },
+  NAME: { pattern: /^[a-z]+$/ }
+}
+
+describe('validateEnv', () => {
+  it('returns valid results for valid values and skips optional missing values', () => {
+    const results = validateEnv(schema, { DB_PORT: '5432', API_URL: 'http://localhost:3000', DEBUG: 'Yes', MODE: 'dev', NAME: 'app' })
+    assert.ok(isEnvValid(results))
+    assert.deepStrictEqual(results.map(r => r.key), Object.keys(schema))
+  })
+
+  it('describes each invalid value', () => {
+    const results = validateEnv(schema, { DB_PORT: '70000', API_URL: 'localhost', WORKERS: '2.5', DEBUG: '', MODE: 'test', NAME: 'App1' })
+    assert.strictEqual(isEnvValid(results), false)
+    assert.deepStrictEqual(results.map(r => r.message), [
+      `expected a port number (1-65535) but got '70000'`,
+      `expected a url but got 'localhost'`,
+      `expected an integer but got '2.5'`,
+      'empty',
+      `expected one of dev, prod but got 'test'`,
+      `expected a value matching /^[a-z]+$/ but got 'App1'`
+    ])
+  })
+
+  it('reports missing required keys', () => {
+    const results = validateEnv({ MISSING_KEY: {} }, {})
+    assert.deepStrictEqual(results, [{ key: 'MISSING_KEY', valid: false, message: 'missing' }])
+  })
+})
+
+describe('validateEnvFile', () => {
+  beforeEach(async () => {
+    await ensureEmptyTempDir(envSchemaTempDir)
+  })
+
+  afterEach(async () => {
+    await ensureEmptyTempDir(envSchemaTempDir)
+  })
+
+  it('validates parsed values from a .env file', async () => {
+    const envPath = path.join(envSchemaTempDir, '.env')
+    await fsp.writeFile(envPath, 'PORT=5000\nURL="http://localhost:${PORT}"\n')
+    const results = validateEnvFile({ PORT: { type: 'port' }, URL: { type: 'url' } }, envPath)
+    assert.ok(isEnvValid(results))
+  })
+})
+
+describe('getFormattedEnvValidationReport', () => {
+  it('aligns keys and optionally omits valid entries', () => {
+    const results = validateEnv({ A: {}, LONGER: { type: 'int' } }, { A: 'x', LONGER: 'y' })
+    assert.strictEqual(stripColor(getFormattedEnvValidationReport(results)), `\nA     : valid\nLONGER: invalid - expected an integer but got 'y'\n`)
+    assert.strictEqual(stripColor(getFormattedEnvValidationReport(results, true)), `\nLONGER: invalid - expected an integer but got 'y'\n`)
+  })
+})
+
+describe('throwIfEnvInvalid', () => {
+  it('throws with a report of invalid entries', () => {
+    assert.throws(() => throwIfEnvInvalid({ A: {}, B: {} }, { A: 'x' }), err => assertErrorMessageEquals(err, 'Invalid env values:\nB: invalid - missing\n'))
+  })
+
+  it('does not throw for valid values', () => {
+    throwIfEnvInvalid({ A: {} }, { A: 'x' })
+  })
+})
+
+describe('typed getRequiredEnv functions', () => {
+  const keys = ['ENV_SCHEMA_TEST_INT', 'ENV_SCHEMA_TEST_PORT', 'ENV_SCHEMA_TEST_URL', 'ENV_SCHEMA_TEST_BOOL']
+
+  afterEach(() => {
+    keys.forEach(key => delete process.env[key])
+  })
+
+  it('parse valid values', () => {
+    process.env.ENV_SCHEMA_TEST_INT = '-12'
+    process.env.ENV_SCHEMA_TEST_PORT = '8080'
+    process.env.ENV_SCHEMA_TEST_URL = 'https://example.com/path'
+    process.env.ENV_SCHEMA_TEST_BOOL = 'FALSE'
+    assert.strictEqual(getRequiredEnvInt('ENV_SCHEMA_TEST_INT'), -12)
+    assert.strictEqual(getRequiredEnvPort('ENV_SCHEMA_TEST_PORT'), 8080)
+    assert.strictEqual(getRequiredEnvUrl('ENV_SCHEMA_TEST_URL').hostname, 'example.com')
+    assert.strictEqual(getRequiredEnvBool('ENV_SCHEMA_TEST_BOOL'), false)
+  })
+
+  it('throw for missing or invalid values', () => {
+    assert.throws(() => getRequiredEnvInt('ENV_SCHEMA_TEST_INT'), err => assertErrorMessageEquals(err, 'Missing required environment variable: ENV_SCHEMA_TEST_INT'))
+    process.env.ENV_SCHEMA_TEST_PORT = '0'
+    assert.throws(() => getRequiredEnvPort('ENV_SCHEMA_TEST_PORT'), err => assertErrorMessageStartsWith(err, 'Invalid value for environment variable ENV_SCHEMA_TEST_PORT: expected a port number'))
+  })
+})
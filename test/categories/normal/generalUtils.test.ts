@@ -4,7 +4,7 @@ import fsp from 'node:fs/promises'
 import path from 'node:path'
 import { describe, it } from 'node:test'
 import { config } from '../../../src/NodeCliUtilsConfig.js'
-import { conditionallyAsync, copyDirectoryContents, emptyDirectory, getRandomIntInclusive, humanizeTime, isChildPath, requireString, simpleSpawnAsync, spawnAsync, splitByWhitespace, toWslPath, which, whichSync, wslPathExists } from '../../../src/generalUtils.js'
+import { conditionallyAsync, copyDirectoryContents, emptyDirectory, getRandomIntInclusive, humanizeTime, isChildPath, requireString, SpawnError, SpawnTimeoutError, simpleSpawnAsync, spawnAsync, spawnUntilReady, splitByWhitespace, toWslPath, which, whichSync, wslPathExists } from '../../../src/generalUtils.js'
 import { assertErrorMessageEquals, assertErrorMessageIncludes, assertErrorMessageStartsWith, fixturesDir, tempDir } from '../../../src/testUtils.js'
 
 config.traceEnabled = false
@@ -13,6 +13,8 @@ const testParamName = 'test'
 const expectedRequireStringError = `Required param '${testParamName}' is missing`
 const childPathCheckParentDirRelative = './test/fixtures/isChildPathTest/parent'
 const childPathCheckParentDir = path.resolve(childPathCheckParentDirRelative)
+const outputLinesScript = path.join(fixturesDir, 'nodeScriptWithOutputLines.js')
+const hangingScript = path.join(fixturesDir, 'nodeScriptThatHangs.js')
 
 describe('humanizeTime', () => {
   it('should return 0 ms for 0', () => {
@@ -227,6 +229,117 @@ describe('spawnAsync', () => {
     const result = await spawnAsync('node', [path.join(fixturesDir, 'thisScriptDoesNotExist.js')], { stdio: 'pipe', throwOnNonZero: false })
     assert.strictEqual(result.code, 1)
   })
+
+  it('rejects with a not found error and clears the timeout and abort listener if the command does not exist', async () => {
+    const controller = new AbortController()
+    await assert.rejects(
+      spawnAsync('thisCommandDoesNotExist', [], { stdio: 'pipe', timeoutMillis: 60000, signal: controller.signal }),
+      err => assertErrorMessageEquals(err, 'Command or path not found: thisCommandDoesNotExist')
+    )
+    controller.abort()
+  })
+
+  it('calls onStdoutLine and onStderrLine for each line of output', async () => {
+    const stdoutLines: string[] = []
+    const stderrLines: string[] = []
+    await spawnAsync('node', [outputLinesScript], {
+      stdio: 'pipe',
+      onStdoutLine: line => stdoutLines.push(line),
+      onStderrLine: line => stderrLines.push(line)
+    })
+    assert.deepStrictEqual(stdoutLines, ['stdout line 1', 'stdout line 2', 'stdout line 3', 'stdout partial'])
+    assert.deepStrictEqual(stderrLines, ['stderr line 1'])
+  })
+
+  it('captures stdout and stderr in the result when the tee option is true', async () => {
+    const stdoutLines: string[] = []
+    const result = await spawnAsync('node', [outputLinesScript], { tee: true, onStdoutLine: line => stdoutLines.push(line) })
+    assert.ok(result.stdout.startsWith('stdout line 1'))
+    assert.strictEqual(result.stderr.trim(), 'stderr line 1')
+    assert.strictEqual(stdoutLines.length, 4)
+  })
+
+  it('sets elapsedMillis on the result', async () => {
+    const result = await spawnAsync('node', [path.join(fixturesDir, 'nodeScript.js')], { stdio: 'pipe' })
+    assert.ok(result.elapsedMillis !== undefined && result.elapsedMillis >= 0)
+  })
+
+  it('throws a SpawnTimeoutError if timeoutMillis is exceeded', async () => {
+    await assert.rejects(
+      spawnAsync('node', [hangingScript], { stdio: 'pipe', timeoutMillis: 500 }),
+      err => err instanceof SpawnTimeoutError && err.reason === 'timeout' && assertErrorMessageStartsWith(err, 'Spawned child process timed out after')
+    )
+  })
+
+  it('returns the result with cancelReason set if timeoutMillis is exceeded and throwOnNonZero is false', async () => {
+    const result = await spawnAsync('node', [hangingScript], { stdio: 'pipe', timeoutMillis: 500, throwOnNonZero: false })
+    assert.strictEqual(result.cancelReason, 'timeout')
+    assert.notStrictEqual(result.code, 0)
+    assert.ok(result.elapsedMillis !== undefined && result.elapsedMillis >= 500)
+  })
+
+  it('throws a SpawnTimeoutError if the signal is aborted', async () => {
+    const controller = new AbortController()
+    setTimeout(() => controller.abort(), 500)
+    await assert.rejects(
+      spawnAsync('node', [hangingScript], { stdio: 'pipe', signal: controller.signal }),
+      err => err instanceof SpawnTimeoutError && err.reason === 'abort'
+    )
+  })
+
+  it('throws a SpawnTimeoutError without spawning if the signal is already aborted', async () => {
+    const controller = new AbortController()
+    controller.abort()
+    await assert.rejects(
+      spawnAsync('node', [hangingScript], { stdio: 'pipe', signal: controller.signal }),
+      err => err instanceof SpawnTimeoutError && assertErrorMessageIncludes(err, 'before it started')
+    )
+  })
+
+  it('returns the result with cancelReason set without spawning if the signal is already aborted and throwOnNonZero is false', async () => {
+    const controller = new AbortController()
+    controller.abort()
+    const result = await spawnAsync('node', [hangingScript], { stdio: 'pipe', signal: controller.signal, throwOnNonZero: false })
+    assert.strictEqual(result.cancelReason, 'abort')
+    assert.notStrictEqual(result.code, 0)
+    assert.strictEqual(result.elapsedMillis, undefined)
+
+    const simpleResult = await simpleSpawnAsync('node', [hangingScript], { signal: controller.signal, throwOnNonZero: false })
+    assert.strictEqual(simpleResult.cancelReason, 'abort')
+  })
+
+  it('throws if timeoutMillis is not greater than 0', async () => {
+    await assert.rejects(
+      spawnAsync('node', [hangingScript], { stdio: 'pipe', timeoutMillis: 0 }),
+      err => assertErrorMessageStartsWith(err, 'The timeoutMillis option must be a number greater than 0')
+    )
+  })
+})
+
+describe('spawnUntilReady', () => {
+  it('returns a handle once the output matches the readyPattern and stop kills the process', async () => {
+    const handle = await spawnUntilReady('node', [path.join(fixturesDir, 'nodeScriptThatBecomesReady.js')], { readyPattern: /Now listening on/, timeoutMillis: 10000 })
+    assert.strictEqual(handle.readyLine, 'Now listening on: http://localhost:5000')
+    assert.ok(handle.child.pid !== undefined)
+    assert.strictEqual(handle.child.exitCode, null)
+    const result = await handle.stop()
+    assert.ok(result.stdout.includes('starting up'))
+    assert.ok(handle.child.exitCode !== null || handle.child.signalCode !== null)
+  })
+
+  it('throws a SpawnTimeoutError if the output does not match the readyPattern within timeoutMillis', async () => {
+    await assert.rejects(
+      spawnUntilReady('node', [hangingScript], { readyPattern: /this will not match/, timeoutMillis: 500 }),
+      err => err instanceof SpawnTimeoutError && assertErrorMessageStartsWith(err, 'Output did not match the readyPattern')
+    )
+  })
+
+  it('throws a SpawnError if the process exits before the output matches the readyPattern', async () => {
+    await assert.rejects(
+      spawnUntilReady('node', [path.join(fixturesDir, 'nodeScript.js')], { readyPattern: /this will not match/ }),
+      err => err instanceof SpawnError && assertErrorMessageStartsWith(err, 'Process exited with code 0 before output matched the readyPattern')
+    )
+  })
 })
 
 describe('simpleSpawnAsync', () => {
@@ -244,6 +357,13 @@ describe('simpleSpawnAsync', () => {
       err => assertErrorMessageIncludes(err, 'process failed with code 1')
     )
   })
+
+  it('throws a SpawnTimeoutError if timeoutMillis is exceeded', async () => {
+    await assert.rejects(
+      simpleSpawnAsync('node', [hangingScript], { timeoutMillis: 500 }),
+      err => err instanceof SpawnTimeoutError && err.reason === 'timeout'
+    )
+  })
 })
 
 describe('getRandomIntInclusive', () => {
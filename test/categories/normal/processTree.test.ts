@@ -0,0 +1,27 @@
+import assert from 'node:assert'
+import { spawn } from 'node:child_process'
+import { describe, it } from 'node:test'
+import { isPlatformWindows } from '../../../src/generalUtils.js'
+import { getDescendantPids } from '../../../src/processTree.js'
+
+describe('getDescendantPids', { skip: isPlatformWindows() }, () => {
+  it('includes children and grandchildren of the process', async () => {
+    const child = spawn('node', ['-e', `require('child_process').spawn('node', ['-e', 'setTimeout(() => {}, 10000)'], { stdio: 'inherit' }); console.log('started')`], { stdio: ['ignore', 'pipe', 'inherit'] })
+    try {
+      await new Promise(resolve => child.stdout.once('data', resolve))
+      const descendants = getDescendantPids(process.pid) ?? []
+      const childDescendants = getDescendantPids(child.pid!) ?? []
+      assert.ok(descendants.includes(child.pid!))
+      assert.strictEqual(childDescendants.length, 1)
+      assert.ok(descendants.includes(childDescendants[0]))
+    } finally {
+      for (const pid of [...(getDescendantPids(child.pid!) ?? []), child.pid!]) {
+        process.kill(pid, 'SIGKILL')
+      }
+    }
+  })
+
+  it('returns an empty array for a process without children', () => {
+    assert.deepStrictEqual(getDescendantPids(2 ** 22 + 1), [])
+  })
+})
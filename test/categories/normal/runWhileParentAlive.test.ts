@@ -0,0 +1,48 @@
+import assert from 'node:assert'
+import path from 'node:path'
+import { describe, it } from 'node:test'
+import { config } from '../../../src/NodeCliUtilsConfig.js'
+import { isPlatformWindows, sleep, spawnUntilReady } from '../../../src/generalUtils.js'
+import { fixturesDir } from '../../../src/testUtils.js'
+
+config.traceEnabled = false
+
+const parentScript = path.join(fixturesDir, 'orphanProtection/parent.js')
+const pollingMillis = 200
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0)
+    return true
+  } catch (err) {
+    return (err as NodeJS.ErrnoException).code === 'EPERM'
+  }
+}
+
+async function waitForProcessExit(pid: number, maxWaitMillis: number): Promise<boolean> {
+  const start = Date.now()
+  while (Date.now() - start < maxWaitMillis) {
+    if (!isProcessAlive(pid)) {
+      return true
+    }
+    await sleep(50)
+  }
+  return !isProcessAlive(pid)
+}
+
+describe('runWhileParentAlive', { skip: isPlatformWindows() }, () => {
+  it('kills the child process when the parent process is killed with SIGKILL', async () => {
+    const handle = await spawnUntilReady('node', [parentScript, pollingMillis.toString()], { readyPattern: /^pid:\d+$/, timeoutMillis: 15000 })
+    const childPid = Number(handle.readyLine.split(':')[1])
+    assert.ok(isProcessAlive(childPid), 'child process should be running before the parent is killed')
+
+    process.kill(handle.child.pid!, 'SIGKILL')
+    await handle.result
+
+    const childExited = await waitForProcessExit(childPid, pollingMillis * 20)
+    if (!childExited) {
+      process.kill(childPid, 'SIGKILL')
+    }
+    assert.ok(childExited, 'child process should have been killed by the middle process after the parent was killed')
+  })
+})
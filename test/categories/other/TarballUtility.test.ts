@@ -284,6 +284,26 @@ describe('unpackTarball', () => {
   })
 })
 
+describe('getTarballEntries', () => {
+  it('lists the entries of a tarball created with createTarball', async () => {
+    await defaultTarballUtility.createTarball(dirToTarball, tarballPath)
+    const entries = await defaultTarballUtility.getTarballEntries(tarballPath)
+    assert.deepStrictEqual(entries.map(entry => entry.replace(/\/$/, '')).sort(), [
+      'dirToTarball',
+      'dirToTarball/tarballSubDir',
+      'dirToTarball/tarballSubDir/test3.txt',
+      'dirToTarball/test1.txt',
+      'dirToTarball/test2.txt'
+    ])
+  })
+
+  it('throws if the tarball is not a gzipped tarball', async () => {
+    const corruptTarballPath = path.join(tarballTempDir, 'corrupt.tar.gz')
+    await fsp.writeFile(corruptTarballPath, 'not a tarball')
+    await assert.rejects(defaultTarballUtility.getTarballEntries(corruptTarballPath), err => assertErrorMessageStartsWith(err, 'tar command failed with code'))
+  })
+})
+
 describe('unpackTarballContents', () => {
   it('calls the unpackTarball method with options to create the directory and stripComponents of 1', async () => {
     await defaultTarballUtility.createTarball(dirToTarball, tarballPath)
@@ -0,0 +1,3 @@
+console.log('starting up')
+setTimeout(() => console.log('Now listening on: http://localhost:5000'), 200)
+setTimeout(() => { }, 60000)
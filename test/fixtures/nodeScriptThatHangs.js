@@ -0,0 +1,2 @@
+console.log('hanging for 60 seconds')
+setTimeout(() => { }, 60000)
@@ -0,0 +1,4 @@
+console.log('stdout line 1')
+console.error('stderr line 1')
+process.stdout.write('stdout line 2\r\nstdout line 3\n')
+process.stdout.write('stdout partial')
@@ -0,0 +1,2 @@
+console.log(`pid:${process.pid}`)
+setTimeout(() => { }, 60000)
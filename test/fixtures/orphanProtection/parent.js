@@ -0,0 +1,12 @@
+// Spawns the orphan protection middle process (from typescript source using tsx) and then waits to be killed
+import { spawn } from 'node:child_process'
+import path from 'node:path'
+import { fileURLToPath } from 'node:url'
+
+const middleScript = path.resolve('src/runWhileParentAlive.ts')
+const childScript = path.join(path.dirname(fileURLToPath(import.meta.url)), 'child.js')
+const pollingMillis = process.argv[2] ?? '200'
+const serializedArgs = Buffer.from(JSON.stringify([childScript])).toString('base64')
+
+spawn(process.execPath, ['--no-warnings', '--import', 'tsx', middleScript, 'false', 'false', pollingMillis, process.execPath, serializedArgs], { stdio: 'inherit' })
+setTimeout(() => { }, 60000)